@@ -0,0 +1,9 @@
+#!/bin/sh
+# Writes the UI_CONFIG environment variable (installation config as JSON, same schema as
+# config.json) into runtime-config.js, which the app reads on startup.
+set -e
+
+if [ -n "$UI_CONFIG" ]; then
+    printf 'window.RUNTIME_CONFIG = %s;\n' "$UI_CONFIG" > /usr/share/nginx/html/runtime-config.js
+    echo "$0: wrote runtime-config.js from UI_CONFIG"
+fi
@@ -2,8 +2,10 @@ export default {
   preset: 'ts-jest',
   testEnvironment: 'jsdom',
   setupFilesAfterEnv: ['<rootDir>/src/test/setup.ts'],
-  moduleNameMapping: {
+  moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
+    // import.meta.env only exists in Vite builds
+    '(^|/)config/buildEnv$|^\\./buildEnv$': '<rootDir>/src/test/buildEnv.ts',
   },
   transform: {
     '^.+\\.tsx?$': 'ts-jest',
@@ -1,9 +1,6 @@
 /**
- * Runtime configuration
- * This file will be overwritten by the Docker entrypoint script
- * with the actual configuration values from environment variables.
+ * Installation config injected at runtime, same schema as /config.json (see
+ * src/config/runtimeConfigSchema.ts). The Docker image writes it from the UI_CONFIG
+ * environment variable on startup; left empty, /config.json and the build defaults apply.
  */
-window.RUNTIME_CONFIG = {
-  API_BASE_URL: "",
-  VERSION: "development"
-}; 
\ No newline at end of file
+window.RUNTIME_CONFIG = undefined;
@@ -5,10 +5,18 @@ import { useRoomStore } from '../stores/useRoomStore';
 import { useDataSync } from '../hooks/useDataSync';
 import Layout from './Layout';
 import HomePage from '../pages/HomePage';
+import LoginPage from '../pages/LoginPage';
+import DiagnosticsPage from '../pages/DiagnosticsPage';
+import DeviceHistoryPage from '../pages/DeviceHistoryPage';
+import { useAuthStore } from '../stores/useAuthStore';
+import { isAuthEnabled } from '../lib/auth';
 import { getDeviceComponent } from '../pages/devices/index.gen';
 import { getScenarioComponent } from '../pages/scenarios/index.gen';
 import { ScenarioVirtualDeviceControls } from '../components/ScenarioVirtualDeviceControls';
 
+// Shown while a generated page chunk loads; room selection usually preloads it
+const pageLoading = <div className="p-6 text-center text-muted-foreground">Loading...</div>;
+
 // Component to handle device page routing using generated registry
 function DevicePage() {
   const { deviceId } = useParams<{ deviceId: string }>();
@@ -25,7 +33,11 @@ function DevicePage() {
   const DeviceComponent = getDeviceComponent(deviceId);
   
   if (DeviceComponent) {
-    return <DeviceComponent />;
+    return (
+      <React.Suspense fallback={pageLoading}>
+        <DeviceComponent />
+      </React.Suspense>
+    );
   }
   
   return (
@@ -66,7 +78,11 @@ function ScenarioPage() {
   const ScenarioComponent = getScenarioComponent(scenarioId);
   
   if (ScenarioComponent) {
-    return <ScenarioComponent />;
+    return (
+      <React.Suspense fallback={pageLoading}>
+        <ScenarioComponent />
+      </React.Suspense>
+    );
   }
   
   // Fall back to dynamic scenario controls if no generated component exists
@@ -80,12 +96,28 @@ function ScenarioPage() {
   );
 }
 
-function App() {
-  const { theme } = useSettingsStore();
-  
+// Everything behind the login screen; mounted only once credentials are available
+function AuthenticatedApp() {
   // Initialize data synchronization between API and stores
   useDataSync();
 
+  return (
+    <Layout>
+      <Routes>
+        <Route path="/" element={<HomePage />} />
+        <Route path="/devices/:deviceId" element={<DevicePage />} />
+        <Route path="/devices/:deviceId/history" element={<DeviceHistoryPage />} />
+        <Route path="/scenario/:scenarioId" element={<ScenarioPage />} />
+        <Route path="/diagnostics" element={<DiagnosticsPage />} />
+      </Routes>
+    </Layout>
+  );
+}
+
+function App() {
+  const { theme } = useSettingsStore();
+  const credentials = useAuthStore((state) => state.credentials);
+
   React.useEffect(() => {
     const root = window.document.documentElement;
     
@@ -104,15 +136,12 @@ function App() {
     }
   }, [theme]);
 
-  return (
-    <Layout>
-      <Routes>
-        <Route path="/" element={<HomePage />} />
-        <Route path="/devices/:deviceId" element={<DevicePage />} />
-        <Route path="/scenario/:scenarioId" element={<ScenarioPage />} />
-      </Routes>
-    </Layout>
-  );
+  // A 401 from REST or SSE clears the credentials, which brings the login screen back
+  if (isAuthEnabled() && !credentials) {
+    return <LoginPage />;
+  }
+
+  return <AuthenticatedApp />;
 }
 
 export default App; 
\ No newline at end of file
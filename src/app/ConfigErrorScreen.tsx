@@ -0,0 +1,25 @@
+import React from 'react';
+
+interface ConfigErrorScreenProps {
+  source: string;
+  problems: string[];
+}
+
+// Shown instead of the app when the installation config does not match the schema
+function ConfigErrorScreen({ source, problems }: ConfigErrorScreenProps) {
+  return (
+    <div className="h-full flex items-center justify-center p-6">
+      <div className="max-w-xl w-full bg-card p-6 rounded-lg border space-y-4">
+        <h1 className="text-2xl font-bold">Invalid configuration</h1>
+        <p className="text-muted-foreground">
+          <span className="font-mono">{source}</span> does not match the configuration schema. Fix it and reload the page.
+        </p>
+        <ul className="list-disc pl-5 space-y-1 text-sm text-destructive">
+          {problems.map(problem => <li key={problem} className="font-mono">{problem}</li>)}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+export default ConfigErrorScreen;
@@ -3,9 +3,22 @@ import { useSettingsStore } from '../stores/useSettingsStore';
 import Navbar from '../components/Navbar';
 import DeviceStatePanel from '../components/DeviceStatePanel';
 import LogPanel from '../components/LogPanel';
-import { useDeviceSSE, useScenarioSSE, useSystemSSE } from '../hooks/useEventSource';
-import { useLogStore } from '../stores/useLogStore';
-import { useProgressStore } from '../hooks/useProgressStore';
+import NotificationToasts from '../components/NotificationToasts';
+import { useRealtimeStatus } from '../hooks/useRealtime';
+import { useRealtimeEventHandlers } from '../hooks/useRealtimeEventHandlers';
+import { useApplyDeviceStateChange } from '../hooks/useApi';
+import { useOutboxAutoReplay } from '../hooks/useActionOutbox';
+import { useStatePollingFallback } from '../hooks/useStatePolling';
+import { useVisibilityResync } from '../hooks/useVisibilityResync';
+import { useRoomPrefetch } from '../hooks/useRoomPrefetch';
+import { getAllBackends } from '../lib/backends';
+import type { ChannelStatus } from '../types/realtime';
+
+const toSSEConnectionState = (status: ChannelStatus) => ({
+  connected: status.connected,
+  error: status.error,
+  reconnectAttempts: status.reconnectAttempts,
+});
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -13,156 +26,32 @@ interface LayoutProps {
 
 function Layout({ children }: LayoutProps) {
   const { statePanelOpen, logPanelOpen } = useSettingsStore();
-  const { addLog } = useLogStore();
-  const { addMessage } = useProgressStore();
+  const applyDeviceStateChange = useApplyDeviceStateChange();
 
-  // SSE connections
-  const deviceSSE = useDeviceSSE(true);
-  const scenarioSSE = useScenarioSSE(true);
-  const systemSSE = useSystemSSE(true);
+  // Realtime connection status (the client owns the connections)
+  const realtimeStatus = useRealtimeStatus();
 
-  // Handle device events - only handle specified event types per specification
-  useEffect(() => {
-    if (deviceSSE.data) {
-      console.log('[Layout] Device SSE data received:', deviceSSE.data);
-      
-      const { device_id, device_name, message, eventType, timestamp } = deviceSSE.data;
-      
-      // Handle test events which have a different structure
-      if (eventType === 'test') {
-        const testData = deviceSSE.data.data;
-        if (testData && testData.device_id) {
-          console.log('[Layout] Adding test device progress message:', {
-            type: 'device',
-            deviceId: testData.device_id,
-            deviceName: testData.device_name,
-            message: testData.message,
-            eventType: 'test'
-          });
-          
-          addMessage({
-            type: 'device',
-            deviceId: testData.device_id,
-            deviceName: testData.device_name,
-            message: testData.message,
-            eventType: 'test'
-          });
-        }
-        return; // Exit early for test events
-      }
-      
-      // Handle real backend events: only the specified event types
-      if (eventType && device_id && device_name) {
-        // Process different backend event types per specification
-        let progressMessage = message;
-        let shouldAddToProgress = false;
-        
-        switch (eventType) {
-          case 'action_success':
-            // Show successful device actions in progress (green)
-            progressMessage = message || `Action completed successfully`;
-            shouldAddToProgress = true;
-            break;
-            
-          case 'action_error':
-            // Show failed device actions in progress (red)
-            progressMessage = message || `Action failed`;
-            shouldAddToProgress = true;
-            break;
-            
-          case 'action_progress':
-            // Show device action progress in progress (blue)
-            progressMessage = message || `Action in progress`;
-            shouldAddToProgress = true;
-            break;
-            
-          case 'state_change': {
-            // Update device state, NO progress display per specification
-            const state = deviceSSE.data.state;
-            console.log('[Layout] Device state change received:', { device_id, device_name, state });
-            // Note: state_change should update device state but not show in progress
-            shouldAddToProgress = false;
-            break;
-          }
-            
-          default:
-            // 🐛 TEMPORARY DEBUG: Show all unknown event types in progress
-            console.log(`[Layout] Unknown device event type: ${eventType}`);
-            progressMessage = `${eventType}: ${message || 'Event received'}`;
-            shouldAddToProgress = true; // 🐛 Changed from false to true for debugging
-        }
-        
-        if (shouldAddToProgress) {
-          console.log('[Layout] Adding device progress message:', {
-            type: 'device',
-            deviceId: device_id,
-            deviceName: device_name,
-            message: progressMessage,
-            eventType: eventType
-          });
-          
-          addMessage({
-            type: 'device',
-            deviceId: device_id,
-            deviceName: device_name,
-            message: progressMessage,
-            eventType: eventType
-          });
-        }
-      }
-      
-      // Log important device events to the log panel - only valid event types
-      if (eventType === 'action_success') {
-        addLog({
-          level: 'info',
-          message: `${device_name}: ${message}`,
-          details: { device_id, timestamp, eventType }
-        });
-      } else if (eventType === 'action_error') {
-        addLog({
-          level: 'error',
-          message: `${device_name}: ${message}`,
-          details: { device_id, timestamp, eventType }
-        });
-      }
-    }
-  }, [deviceSSE.data, addMessage, addLog]);
+  // Replay queued offline actions once the backend is reachable again
+  useOutboxAutoReplay();
 
-  // Handle scenario events - only test events per specification
-  useEffect(() => {
-    if (scenarioSSE.data) {
-      const { scenario_id, scenario_name, message, eventType } = scenarioSSE.data;
-      
-      // Only handle test events per specification
-      if (eventType === 'test') {
-        addMessage({
-          type: 'scenario',
-          scenarioId: scenario_id,
-          scenarioName: scenario_name,
-          message: message,
-          eventType: eventType
-        });
-      }
-    }
-  }, [scenarioSSE.data, addMessage]);
+  // Poll the visible state while every realtime channel is down
+  useStatePollingFallback();
+
+  // Suspend realtime while the tab stays hidden and resync state when it is shown again
+  useVisibilityResync();
+
+  // Warm the selected room's device state, lists and page chunks
+  useRoomPrefetch();
 
-  // Handle system events - only test events per specification
+  // Push-based state from each backend's device transport (MQTT state topics), when it provides one
   useEffect(() => {
-    if (systemSSE.data) {
-      const { message, level, eventType } = systemSSE.data;
-      
-      // Only handle test events per specification
-      if (eventType === 'test') {
-        addLog({
-          level: level || 'info',
-          message: message,
-          details: { 
-            eventType: eventType
-          }
-        });
-      }
-    }
-  }, [systemSSE.data, addLog]);
+    const unsubscribers = getAllBackends().map(backend => backend.transport.subscribeState?.(applyDeviceStateChange));
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe?.());
+  }, [applyDeviceStateChange]);
+
+  // Progress, log, cache, notification and scenario timeline updates from realtime events
+  // (see lib/realtime/handlers)
+  useRealtimeEventHandlers();
 
   return (
     <div className="h-full flex flex-col bg-background">
@@ -184,25 +73,16 @@ function Layout({ children }: LayoutProps) {
             ${statePanelOpen ? 'translate-x-0' : 'translate-x-full'}
           `}
           sseState={{
-            deviceSSE: { 
-              connected: deviceSSE.connected, 
-              error: deviceSSE.error?.type || null, 
-              reconnectAttempts: deviceSSE.reconnectAttempts 
-            },
-            scenarioSSE: { 
-              connected: scenarioSSE.connected, 
-              error: scenarioSSE.error?.type || null, 
-              reconnectAttempts: scenarioSSE.reconnectAttempts 
-            },
-            systemSSE: { 
-              connected: systemSSE.connected, 
-              error: systemSSE.error?.type || null, 
-              reconnectAttempts: systemSSE.reconnectAttempts 
-            }
+            deviceSSE: toSSEConnectionState(realtimeStatus.devices),
+            scenarioSSE: toSSEConnectionState(realtimeStatus.scenarios),
+            systemSSE: toSSEConnectionState(realtimeStatus.system)
           }}
         />
       </div>
       
+      {/* Notifications from realtime events */}
+      <NotificationToasts />
+
       {/* Log Panel - collapsible footer */}
       <LogPanel 
         isOpen={logPanelOpen}
@@ -0,0 +1,23 @@
+import React from 'react';
+
+interface StartupErrorScreenProps {
+  error: unknown;
+}
+
+// Shown instead of the app when it fails to start for any reason other than an invalid config
+function StartupErrorScreen({ error }: StartupErrorScreenProps) {
+  const message = error instanceof Error ? error.message : String(error);
+  return (
+    <div className="h-full flex items-center justify-center p-6">
+      <div className="max-w-xl w-full bg-card p-6 rounded-lg border space-y-4">
+        <h1 className="text-2xl font-bold">Failed to start</h1>
+        <p className="text-muted-foreground">
+          The app could not be loaded. Check the connection to the controller and reload the page.
+        </p>
+        <p className="text-sm text-destructive font-mono break-words">{message}</p>
+      </div>
+    </div>
+  );
+}
+
+export default StartupErrorScreen;
@@ -0,0 +1,47 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { BrowserRouter } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import App from './App';
+import { runtimeConfig } from '../config/runtime';
+import { persistQueryCache, restoreQueryCache } from '../lib/queryPersistence';
+import { recordStateHistory } from '../lib/stateHistory';
+import { watchExternalChanges } from '../lib/externalChanges';
+import { clearQueriesOnLogout } from '../stores/useAuthStore';
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 5 * 60 * 1000, // 5 minutes
+      retry: 1,
+    },
+  },
+});
+
+/**
+ * Render the app. Loaded by main.tsx once the runtime configuration is in place.
+ */
+export async function startApp(): Promise<void> {
+  // Subscribed before persisting, so the persisted cache drops the save the clearing schedules
+  clearQueriesOnLogout(queryClient);
+  // Last-known rooms, devices and state render right away and revalidate in the background
+  if (runtimeConfig.features.queryCachePersistence) {
+    await restoreQueryCache(queryClient);
+    persistQueryCache(queryClient);
+  }
+  if (runtimeConfig.features.stateHistory) {
+    recordStateHistory(queryClient);
+  }
+  // Marks state changed by physical remotes, wb-rules or other clients
+  watchExternalChanges(queryClient);
+
+  ReactDOM.createRoot(document.getElementById('root')!).render(
+    <React.StrictMode>
+      <QueryClientProvider client={queryClient}>
+        <BrowserRouter>
+          <App />
+        </BrowserRouter>
+      </QueryClientProvider>
+    </React.StrictMode>
+  );
+}
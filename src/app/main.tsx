@@ -1,25 +1,21 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
-import { BrowserRouter } from 'react-router-dom';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import App from './App';
+import { loadRuntimeConfig, RuntimeConfigError } from '../config/runtime';
+import ConfigErrorScreen from './ConfigErrorScreen';
+import StartupErrorScreen from './StartupErrorScreen';
 import './globals.css';
 
-const queryClient = new QueryClient({
-  defaultOptions: {
-    queries: {
-      staleTime: 5 * 60 * 1000, // 5 minutes
-      retry: 1,
-    },
-  },
-});
-
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <QueryClientProvider client={queryClient}>
-      <BrowserRouter>
-        <App />
-      </BrowserRouter>
-    </QueryClientProvider>
-  </React.StrictMode>
-); 
\ No newline at end of file
+// Modules read runtimeConfig as they are imported, so the app is loaded only after the config
+loadRuntimeConfig()
+  .then(() => import('./bootstrap'))
+  .then(({ startApp }) => startApp())
+  .catch((error) => {
+    console.error('[App] Failed to start:', error);
+    ReactDOM.createRoot(document.getElementById('root')!).render(
+      <React.StrictMode>
+        {error instanceof RuntimeConfigError
+          ? <ConfigErrorScreen source={error.source} problems={error.problems} />
+          : <StartupErrorScreen error={error} />}
+      </React.StrictMode>
+    );
+  });
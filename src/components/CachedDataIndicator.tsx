@@ -0,0 +1,40 @@
+import React, { useCallback, useSyncExternalStore } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Icon } from './icons';
+import { isRestoredQuery } from '../lib/queryPersistence';
+
+// Shown while anything on screen still comes from the cache of a previous visit
+function CachedDataIndicator() {
+  const queryClient = useQueryClient();
+  const queryCache = queryClient.getQueryCache();
+
+  const subscribe = useCallback((onChange: () => void) => queryCache.subscribe(onChange), [queryCache]);
+  const status = useSyncExternalStore(subscribe, () => {
+    const restored = queryCache.findAll({ type: 'active', predicate: isRestoredQuery });
+    if (restored.length === 0) return 'live';
+    return restored.some(query => query.state.fetchStatus === 'fetching') ? 'revalidating' : 'stale';
+  });
+
+  if (status === 'live') {
+    return null;
+  }
+
+  return (
+    <div
+      className="flex items-center h-10 px-2"
+      title={status === 'revalidating'
+        ? 'Showing data from the last visit while it is refreshed'
+        : 'Showing data from the last visit; the backend could not be reached to refresh it'}
+    >
+      <Icon
+        library="material"
+        name="History"
+        size="md"
+        fallback="cached"
+        className={`h-5 w-5 ${status === 'revalidating' ? 'text-muted-foreground animate-pulse' : 'text-yellow-500'}`}
+      />
+    </div>
+  );
+}
+
+export default CachedDataIndicator;
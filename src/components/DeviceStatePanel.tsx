@@ -1,13 +1,20 @@
 import React from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Icon } from './icons';
 import { useRoomStore } from '../stores/useRoomStore';
 import { useSettingsStore } from '../stores/useSettingsStore';
 import { useDeviceState } from '../hooks/useDeviceState';
 import { useScenarioState } from '../hooks/useScenarioState';
 import { useExecuteDeviceAction } from '../hooks/useApi';
+import { useRolledBackActions } from '../hooks/useActionFeedback';
+import { useExternalChange } from '../hooks/useExternalChanges';
+import { useStateUpdateMode } from '../hooks/useRealtime';
+import { getDeviceBackendId, getScenarioBackendId } from '../lib/backends';
+import { runtimeConfig } from '../config/runtime';
 import { Button } from './ui/button';
 import { CollapsibleSection } from './ui/collapsible-section';
 import { ProgressReport } from './ProgressReport';
+import { ScenarioTimeline } from './ScenarioTimeline';
 import { RemoteDeviceStructure } from '../types/RemoteControlLayout';
 
 interface SSEConnectionState {
@@ -93,6 +100,7 @@ const getFieldIcon = (fieldName: string): string => {
 function DeviceStatePanel({ isOpen, className, sseState }: DeviceStatePanelProps) {
   const { selectedDeviceId, selectedScenarioId } = useRoomStore();
   const { setStatePanelOpen } = useSettingsStore();
+  const navigate = useNavigate();
 
   // Use appropriate state hook based on selection
   const { state: deviceState, isLoading: deviceLoading, error: deviceError, isConnected: deviceConnected } = useDeviceState(selectedDeviceId || '');
@@ -104,9 +112,14 @@ function DeviceStatePanel({ isOpen, className, sseState }: DeviceStatePanelProps
   const isLoading = isScenario ? scenarioLoading : deviceLoading;
   const error = isScenario ? scenarioError : deviceError;
   const isConnected = isScenario ? scenarioConnected : deviceConnected;
+
+  // Whether the selected state arrives over SSE or is being polled
+  const updateMode = useStateUpdateMode(isScenario ? getScenarioBackendId(selectedScenarioId!) : getDeviceBackendId(selectedDeviceId || ''));
   
   // Get device action status
   const executeAction = useExecuteDeviceAction();
+  const rolledBackActions = useRolledBackActions(selectedDeviceId);
+  const externalChange = useExternalChange(selectedDeviceId);
 
   // Provide default SSE state if not provided
   const defaultSSEState: SharedSSEState = {
@@ -141,9 +154,15 @@ function DeviceStatePanel({ isOpen, className, sseState }: DeviceStatePanelProps
           const value = (state as any)[field.name];
           const formattedValue = formatStateValue(value, field.type);
           const iconName = getFieldIcon(field.name);
+          const changedExternally = externalChange?.fields.includes(field.name);
           
           return (
-            <div key={field.name} className="flex items-center justify-between p-2 rounded-md bg-muted/30">
+            <div
+              key={field.name}
+              className={`flex items-center justify-between p-2 rounded-md ${
+                changedExternally ? 'bg-amber-50/50 border border-amber-200/50' : 'bg-muted/30'
+              }`}
+            >
               <div className="flex items-center space-x-2">
                 <Icon 
                   library="material" 
@@ -159,6 +178,9 @@ function DeviceStatePanel({ isOpen, className, sseState }: DeviceStatePanelProps
                   {field.description && (
                     <p className="text-xs text-muted-foreground">{field.description}</p>
                   )}
+                  {changedExternally && (
+                    <p className="text-xs text-amber-700">Changed by {externalChange!.source}</p>
+                  )}
                 </div>
               </div>
               <span className={`text-sm font-mono ${
@@ -182,19 +204,37 @@ function DeviceStatePanel({ isOpen, className, sseState }: DeviceStatePanelProps
       {/* Header */}
       <div className="flex items-center justify-between p-4 border-b border-border">
         <h2 className="text-lg font-semibold">Device State</h2>
-        <Button 
-          variant="ghost" 
-          size="icon"
-          onClick={() => setStatePanelOpen(false)}
-        >
-          <Icon 
-            library="material" 
-            name="Close" 
-            size="md" 
-            fallback="close" 
-            className="h-5 w-5" 
-          />
-        </Button>
+        <div className="flex items-center">
+          {selectedDeviceId && !isScenario && runtimeConfig.features.stateHistory && (
+            <Button 
+              variant="ghost" 
+              size="icon"
+              title="State history"
+              onClick={() => navigate(`/devices/${selectedDeviceId}/history`)}
+            >
+              <Icon 
+                library="material" 
+                name="Timeline" 
+                size="md" 
+                fallback="history" 
+                className="h-5 w-5" 
+              />
+            </Button>
+          )}
+          <Button 
+            variant="ghost" 
+            size="icon"
+            onClick={() => setStatePanelOpen(false)}
+          >
+            <Icon 
+              library="material" 
+              name="Close" 
+              size="md" 
+              fallback="close" 
+              className="h-5 w-5" 
+            />
+          </Button>
+        </div>
       </div>
 
       {/* Content */}
@@ -257,6 +297,16 @@ function DeviceStatePanel({ isOpen, className, sseState }: DeviceStatePanelProps
                   {currentSSEState.deviceSSE.connected ? 'Connected' : 'Disconnected'}
                 </span>
               </div>
+
+              <div className="flex items-center justify-between p-2 rounded-md bg-muted/30">
+                <div className="flex items-center space-x-2">
+                  <div className={`w-3 h-3 rounded-full ${updateMode === 'realtime' ? 'bg-green-500' : 'bg-yellow-500'}`} />
+                  <span className="text-sm font-medium">State Updates</span>
+                </div>
+                <span className={`text-sm ${updateMode === 'realtime' ? 'text-green-600' : 'text-yellow-600'}`}>
+                  {updateMode === 'realtime' ? 'Realtime' : `Polling (${runtimeConfig.statePollIntervalSec}s)`}
+                </span>
+              </div>
             </CollapsibleSection>
 
             {/* Device Info Section */}
@@ -308,6 +358,46 @@ function DeviceStatePanel({ isOpen, className, sseState }: DeviceStatePanelProps
 
             {/* Action Status Section */}
             <CollapsibleSection title="Action Status" defaultOpen={true}>
+              {rolledBackActions.map((rollback) => (
+                <div key={rollback.id} className="p-2 rounded-md bg-destructive/10 border border-destructive/20">
+                  <div className="flex items-center space-x-2">
+                    <Icon 
+                      library="material" 
+                      name="Undo" 
+                      size="sm" 
+                      fallback="undo" 
+                      className="h-4 w-4 text-destructive" 
+                    />
+                    <span className="text-sm font-medium text-destructive">{rollback.action} rolled back</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Restored {rollback.fields.join(', ')}: {rollback.error}
+                  </p>
+                </div>
+              ))}
+
+              {externalChange && (
+                <div className="p-2 rounded-md bg-amber-50/50 border border-amber-200/50">
+                  <div className="flex items-center space-x-2">
+                    <Icon 
+                      library="material" 
+                      name="SettingsRemote" 
+                      size="sm" 
+                      fallback="remote" 
+                      className="h-4 w-4 text-amber-600" 
+                    />
+                    <span className="text-sm font-medium text-amber-800">
+                      {externalChange.action} by {externalChange.source}
+                    </span>
+                  </div>
+                  {externalChange.fields.length > 0 && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Changed {externalChange.fields.join(', ')}
+                    </p>
+                  )}
+                </div>
+              )}
+
               {executeAction.isPending && (
                 <div className="flex items-center justify-between p-2 rounded-md bg-blue-50/50 border border-blue-200/50">
                   <div className="flex items-center space-x-2">
@@ -416,8 +506,10 @@ function DeviceStatePanel({ isOpen, className, sseState }: DeviceStatePanelProps
               </CollapsibleSection>
             )}
 
-            {/* Progress Report Section - Always at the bottom */}
-            <ProgressReport deviceId={selectedDeviceId || undefined} />
+            {/* Progress Report (scenario timeline for scenarios) - Always at the bottom */}
+            {isScenario
+              ? <ScenarioTimeline scenarioId={selectedScenarioId!} />
+              : <ProgressReport deviceId={selectedDeviceId || undefined} />}
           </div>
         ) : null}
       </div>
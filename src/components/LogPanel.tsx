@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Icon } from './icons';
 import { useLogStore } from '../stores/useLogStore';
 import { useSettingsStore } from '../stores/useSettingsStore';
@@ -13,6 +13,10 @@ interface LogPanelProps {
 function LogPanel({ isOpen, className }: LogPanelProps) {
   const { entries, clearLogs } = useLogStore();
   const { toggleLogPanel } = useSettingsStore();
+  const [category, setCategory] = useState('');
+
+  const categories = Array.from(new Set(entries.map(entry => entry.category).filter((name): name is string => !!name))).sort();
+  const visibleEntries = category ? entries.filter(entry => entry.category === category) : entries;
 
   const getLevelColor = (level: string) => {
     switch (level) {
@@ -44,26 +48,39 @@ function LogPanel({ isOpen, className }: LogPanelProps) {
         </div>
 
         {isOpen && (
-          <Button 
-            variant="ghost" 
-            size="sm"
-            onClick={clearLogs}
-            className="flex items-center space-x-1"
-          >
-            <Icon library="material" name="Delete" size="sm" fallback="trash" className="h-4 w-4" />
-            <span className="text-sm">Clear</span>
-          </Button>
+          <div className="flex items-center space-x-2">
+            {categories.length > 0 && (
+              <select
+                className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                value={category}
+                onChange={event => setCategory(event.target.value)}
+                aria-label="Log category"
+              >
+                <option value="">All categories</option>
+                {categories.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            )}
+            <Button 
+              variant="ghost" 
+              size="sm"
+              onClick={clearLogs}
+              className="flex items-center space-x-1"
+            >
+              <Icon library="material" name="Delete" size="sm" fallback="trash" className="h-4 w-4" />
+              <span className="text-sm">Clear</span>
+            </Button>
+          </div>
         )}
       </div>
 
       {/* Content - only visible when open */}
       {isOpen && (
         <div className="flex-1 overflow-auto p-4">
-          {entries.length === 0 ? (
-            <p className="text-muted-foreground text-sm">No logs yet</p>
+          {visibleEntries.length === 0 ? (
+            <p className="text-muted-foreground text-sm">{category ? `No ${category} logs` : 'No logs yet'}</p>
           ) : (
             <div className="space-y-2">
-              {entries.map((entry) => (
+              {visibleEntries.map((entry) => (
                 <div key={entry.id} className="text-sm font-mono">
                   <div className="flex items-start space-x-2">
                     <span className="text-muted-foreground text-xs">
@@ -72,6 +89,11 @@ function LogPanel({ isOpen, className }: LogPanelProps) {
                     <span className={`text-xs font-medium ${getLevelColor(entry.level)}`}>
                       [{entry.level.toUpperCase()}]
                     </span>
+                    {entry.category && (
+                      <span className={`text-xs ${entry.category === 'external' ? 'text-amber-600' : 'text-muted-foreground'}`}>
+                        {entry.category}
+                      </span>
+                    )}
                     <span className="flex-1">{entry.message}</span>
                   </div>
                   {entry.details && (
@@ -4,6 +4,10 @@ import { Icon } from './icons';
 import { useRoomStore } from '../stores/useRoomStore';
 import { useSettingsStore } from '../stores/useSettingsStore';
 import { Button } from './ui/button';
+import OutboxIndicator from './OutboxIndicator';
+import CachedDataIndicator from './CachedDataIndicator';
+import { useAuthStore } from '../stores/useAuthStore';
+import { isAuthEnabled } from '../lib/auth';
 import { getDeviceRoute } from '../pages/devices/index.gen';
 
 function Navbar() {
@@ -23,6 +27,7 @@ function Navbar() {
   } = useRoomStore();
   
   const { toggleStatePanel, toggleLogPanel } = useSettingsStore();
+  const { credentials, logout } = useAuthStore();
 
   // Local state for dropdown visibility
   const [dropdownOpen, setDropdownOpen] = useState<'rooms' | 'devices' | 'scenarios' | null>(null);
@@ -190,6 +195,22 @@ function Navbar() {
 
       {/* Right-side Controls */}
       <div className="absolute right-4 flex items-center space-x-2">
+        {/* Data restored from the last visit */}
+        <CachedDataIndicator />
+
+        {/* Offline Action Queue */}
+        <OutboxIndicator />
+
+        {/* Connection Diagnostics */}
+        <Button 
+          variant="ghost" 
+          size="icon"
+          onClick={() => navigate('/diagnostics')}
+          title="Connection Diagnostics"
+        >
+          <Icon library="material" name="MonitorHeart" size="md" fallback="health" className="h-5 w-5" />
+        </Button>
+
         {/* State Panel Toggle */}
         <Button 
           variant="ghost" 
@@ -209,6 +230,18 @@ function Navbar() {
         >
           <span className="text-xs">LOG</span>
         </Button>
+
+        {/* Sign Out */}
+        {isAuthEnabled() && credentials && (
+          <Button 
+            variant="ghost" 
+            size="icon"
+            onClick={() => logout()}
+            title={credentials.username ? `Sign out ${credentials.username}` : 'Sign out'}
+          >
+            <Icon library="material" name="Logout" size="md" fallback="logout" className="h-5 w-5" />
+          </Button>
+        )}
       </div>
 
       {/* Click outside to close dropdowns */}
@@ -0,0 +1,64 @@
+import React, { useEffect } from 'react';
+import { Icon } from './icons';
+import { useNotificationStore, type AppNotification } from '../stores/useNotificationStore';
+
+// Warnings go away by themselves; errors stay until dismissed
+const WARNING_DISPLAY_MS = 8000;
+
+function NotificationToast({ notification }: { notification: AppNotification }) {
+  const dismissNotification = useNotificationStore(state => state.dismissNotification);
+
+  useEffect(() => {
+    if (notification.level !== 'warn') {
+      return;
+    }
+    const timer = setTimeout(() => dismissNotification(notification.id), WARNING_DISPLAY_MS);
+    return () => clearTimeout(timer);
+  }, [notification.id, notification.level, dismissNotification]);
+
+  const isError = notification.level === 'error';
+
+  return (
+    <div
+      role={isError ? 'alert' : 'status'}
+      className={`flex items-start space-x-2 p-3 rounded-md border shadow-lg bg-popover ${isError ? 'border-destructive/40' : 'border-yellow-500/40'}`}
+    >
+      <Icon
+        library="material"
+        name={isError ? 'Error' : 'Warning'}
+        size="sm"
+        fallback="info"
+        className={`h-4 w-4 mt-0.5 flex-shrink-0 ${isError ? 'text-destructive' : 'text-yellow-500'}`}
+      />
+      <div className="flex-1 min-w-0">
+        <div className="text-sm font-medium truncate">{notification.title}</div>
+        <div className="text-xs text-muted-foreground break-words">{notification.message}</div>
+      </div>
+      <button
+        onClick={() => dismissNotification(notification.id)}
+        className="text-muted-foreground hover:text-foreground transition-colors"
+        title="Dismiss"
+      >
+        <Icon library="material" name="Clear" size="sm" fallback="clear" className="h-3 w-3" />
+      </button>
+    </div>
+  );
+}
+
+function NotificationToasts() {
+  const notifications = useNotificationStore(state => state.notifications);
+
+  if (notifications.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-16 left-4 z-50 w-80 space-y-2">
+      {notifications.map(notification => (
+        <NotificationToast key={notification.id} notification={notification} />
+      ))}
+    </div>
+  );
+}
+
+export default NotificationToasts;
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Icon } from './icons';
+import { Button } from './ui/button';
+import { useActionOutbox } from '../hooks/useActionOutbox';
+import { formatTimestamp } from '../lib/utils';
+import type { OutboxEntry } from '../stores/useOutboxStore';
+
+const reasonLabels: Record<OutboxEntry['reason'], string> = {
+  offline: 'offline',
+  failed: 'backend unreachable',
+  rejected: 'failed on the backend',
+};
+
+function OutboxIndicator() {
+  const { entries, isReplaying, replayPending, confirmEntry, discardEntry, clearOutbox } = useActionOutbox();
+  const [open, setOpen] = useState(false);
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const awaitingConfirmation = entries.filter(entry => !entry.idempotent || entry.reason === 'rejected').length;
+
+  return (
+    <div className="relative">
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => setOpen(!open)}
+        title={`${entries.length} queued action(s)`}
+        className="relative"
+      >
+        <Icon
+          library="material"
+          name={isReplaying ? 'Sync' : 'CloudOff'}
+          size="md"
+          fallback="queue"
+          className={`h-5 w-5 ${awaitingConfirmation > 0 ? 'text-yellow-500' : 'text-muted-foreground'} ${isReplaying ? 'animate-spin' : ''}`}
+        />
+        <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-destructive text-destructive-foreground text-xs flex items-center justify-center">
+          {entries.length}
+        </span>
+      </Button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute top-full right-0 mt-1 w-80 bg-popover border border-border rounded-md shadow-lg z-50">
+            <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+              <span className="text-sm font-medium">Queued Actions</span>
+              <div className="flex items-center space-x-1">
+                <Button variant="ghost" size="sm" onClick={() => replayPending()} disabled={isReplaying}>
+                  Retry
+                </Button>
+                <Button variant="ghost" size="sm" onClick={clearOutbox} disabled={isReplaying}>
+                  Clear
+                </Button>
+              </div>
+            </div>
+            <div className="max-h-80 overflow-auto py-1">
+              {entries.map((entry) => (
+                <div key={entry.id} className="px-3 py-2 text-sm border-b border-border/50 last:border-b-0">
+                  <div className="flex items-center justify-between">
+                    <span className="font-mono">{entry.action.action}</span>
+                    <span className="text-xs text-muted-foreground">{formatTimestamp(entry.createdAt)}</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {entry.deviceId} · {reasonLabels[entry.reason]} · {entry.attempts} attempt(s)
+                  </div>
+                  {entry.reason === 'rejected' && entry.lastError && (
+                    <div className="text-xs text-destructive">{entry.lastError}</div>
+                  )}
+                  {entry.idempotent && entry.reason !== 'rejected' ? (
+                    <div className="flex items-center justify-between mt-1">
+                      <span className="text-xs text-muted-foreground">Replays automatically</span>
+                      <Button variant="ghost" size="sm" onClick={() => discardEntry(entry.id)}>
+                        Discard
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center justify-between mt-1">
+                      <span className="text-xs text-yellow-600">Needs confirmation</span>
+                      <div className="flex items-center space-x-1">
+                        <Button variant="outline" size="sm" onClick={() => confirmEntry(entry.id)} disabled={isReplaying}>
+                          Send
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => discardEntry(entry.id)}>
+                          Discard
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default OutboxIndicator;
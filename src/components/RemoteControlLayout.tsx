@@ -1,18 +1,67 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, createContext, useContext } from 'react';
 import { cn } from '../lib/utils';
 import { Button } from './ui/button';
 import NavCluster from './NavCluster';
 import PointerPad from './PointerPad';
 import { Icon } from './icons';
-import type { RemoteZone, RemoteDeviceStructure, PowerButtonConfig, VolumeButtonConfig } from '../types/RemoteControlLayout';
+import type { RemoteZone, RemoteDeviceStructure, PowerButtonConfig, VolumeButtonConfig, GenerationStamp } from '../types/RemoteControlLayout';
 import { useInputsData, useAppsData, useInputSelection, useAppLaunching } from '../hooks/useRemoteControlData';
 import { useDeviceState as useDeviceStateQuery } from '../hooks/useApi';
 import { createActionTooltip } from '../utils/tooltipUtils';
+import { useRolledBackActions } from '../hooks/useActionFeedback';
+import { useExternalChange } from '../hooks/useExternalChanges';
+import { useBackendCompatibility } from '../hooks/useBackendCompatibility';
+import { ActionTimeoutError } from '../lib/actionErrors';
+import { actionScheduler, sumDeltas, type ActionParams } from '../lib/actionScheduler';
+
+// Continuous controls (slider drags, pointer moves) send through the action scheduler;
+// merge combines commands waiting to be sent (by default the latest one wins)
+type ContinuousActionHandler = (
+  action: string,
+  payload: ActionParams,
+  targetDeviceId?: string,
+  merge?: (pending: ActionParams, next: ActionParams) => ActionParams
+) => void;
+
+// Attempt number of the pending action, above 1 while it is being retried
+const ActionAttemptContext = createContext(1);
+
+// Actions the page offers but the backend no longer advertises
+const WithdrawnActionsContext = createContext<(actionName: string) => boolean>(() => false);
+
+// A button is disabled while another action is pending, or for good once its action is withdrawn
+const useActionDisabled = (isActionPending: boolean, lastAction?: string) => {
+  const isWithdrawn = useContext(WithdrawnActionsContext);
+  return (actionName: string) => (isActionPending && lastAction !== actionName) || isWithdrawn(actionName);
+};
+
+// Ring and tooltip on the button whose command was last issued somewhere else (physical remote, wb-rules...)
+const useExternalChangeMark = (deviceId: string) => {
+  const change = useExternalChange(deviceId);
+  return (actionName: string) => change?.action === actionName
+    ? { className: 'ring-2 ring-amber-400', title: `Changed by ${change.source}` }
+    : undefined;
+};
+
+// Spinner on the pending action's button, with the attempt number once it is retried
+const PendingActionIcon = ({ size, className }: { size: 'sm' | 'md' | 'lg'; className: string }) => {
+  const attempt = useContext(ActionAttemptContext);
+  return (
+    <span className="relative inline-flex" title={attempt > 1 ? `Attempt ${attempt}` : undefined}>
+      <Icon library="material" name="Refresh" fallback="loading" size={size} className={className} />
+      {attempt > 1 && (
+        <span className="absolute -top-2 -right-2 text-[10px] leading-none font-bold text-yellow-300">{attempt}</span>
+      )}
+    </span>
+  );
+};
 
 // Power Zone - 3-button layout with EMotiva special case
 const PowerZone = ({ zone, deviceStructure, onAction, className, isActionPending = false, lastAction }: { zone?: RemoteZone; deviceStructure: RemoteDeviceStructure; onAction: (action: string, payload?: any, targetDeviceId?: string) => void; className?: string; isActionPending?: boolean; lastAction?: string }) => {
   // Get device state for zone2 power state
   const { data: deviceState } = useDeviceStateQuery(deviceStructure.deviceId);
+  const isActionDisabled = useActionDisabled(isActionPending, lastAction);
+  const externalMark = useExternalChangeMark(deviceStructure.deviceId);
 
   if (!zone?.content?.powerButtons || zone.isEmpty) {
     return (
@@ -77,18 +126,12 @@ const PowerZone = ({ zone, deviceStructure, onAction, className, isActionPending
           variant="ghost"
           size="sm"
           onClick={() => handlePowerAction(leftButton)}
-          disabled={isActionPending}
-          className="h-8 bg-transparent border border-white/30 text-white hover:bg-white/10 hover:border-white/50 transition-all duration-200"
-          title={createEnhancedTooltip(leftButton)}
+          disabled={isActionDisabled(leftButton.action.actionName)}
+          className={cn("h-8 bg-transparent border border-white/30 text-white hover:bg-white/10 hover:border-white/50 transition-all duration-200", externalMark(leftButton.action.actionName)?.className)}
+          title={externalMark(leftButton.action.actionName)?.title ?? createEnhancedTooltip(leftButton)}
         >
           {isActionPending && lastAction === leftButton.action.actionName ? (
-            <Icon
-              library="material"
-              name="Refresh"
-              fallback="loading"
-              size="lg"
-              className={`w-4 h-4 ${getIconColor(leftButton)} animate-spin`}
-            />
+            <PendingActionIcon size="lg" className={`w-4 h-4 ${getIconColor(leftButton)} animate-spin`} />
           ) : (
             <Icon
               library={leftButton.action.icon.iconLibrary as 'material'}
@@ -109,18 +152,12 @@ const PowerZone = ({ zone, deviceStructure, onAction, className, isActionPending
           variant="ghost"
           size="sm"
           onClick={() => handlePowerAction(middleButton)}
-          disabled={isActionPending}
-          className="h-8 bg-transparent border border-white/30 text-white hover:bg-white/10 hover:border-white/50 transition-all duration-200"
-          title={createEnhancedTooltip(middleButton)}
+          disabled={isActionDisabled(middleButton.action.actionName)}
+          className={cn("h-8 bg-transparent border border-white/30 text-white hover:bg-white/10 hover:border-white/50 transition-all duration-200", externalMark(middleButton.action.actionName)?.className)}
+          title={externalMark(middleButton.action.actionName)?.title ?? createEnhancedTooltip(middleButton)}
         >
           {isActionPending && lastAction === middleButton.action.actionName ? (
-            <Icon
-              library="material"
-              name="Refresh"
-              fallback="loading"
-              size="lg"
-              className={`w-4 h-4 ${getIconColor(middleButton)} animate-spin`}
-            />
+            <PendingActionIcon size="lg" className={`w-4 h-4 ${getIconColor(middleButton)} animate-spin`} />
           ) : (
             <Icon
               library={middleButton.action.icon.iconLibrary as 'material'}
@@ -141,18 +178,12 @@ const PowerZone = ({ zone, deviceStructure, onAction, className, isActionPending
           variant="ghost"
           size="sm"
           onClick={() => handlePowerAction(rightButton)}
-          disabled={isActionPending}
-          className="h-8 bg-transparent border border-white/30 text-white hover:bg-white/10 hover:border-white/50 transition-all duration-200"
-          title={createEnhancedTooltip(rightButton)}
+          disabled={isActionDisabled(rightButton.action.actionName)}
+          className={cn("h-8 bg-transparent border border-white/30 text-white hover:bg-white/10 hover:border-white/50 transition-all duration-200", externalMark(rightButton.action.actionName)?.className)}
+          title={externalMark(rightButton.action.actionName)?.title ?? createEnhancedTooltip(rightButton)}
         >
           {isActionPending && lastAction === rightButton.action.actionName ? (
-            <Icon
-              library="material"
-              name="Refresh"
-              fallback="loading"
-              size="lg"
-              className={`w-4 h-4 ${getIconColor(rightButton)} animate-spin`}
-            />
+            <PendingActionIcon size="lg" className={`w-4 h-4 ${getIconColor(rightButton)} animate-spin`} />
           ) : (
             <Icon
               library={rightButton.action.icon.iconLibrary as 'material'}
@@ -182,6 +213,8 @@ const MediaStackZone = ({ zone, deviceStructure, onAction, className, isActionPe
   // Use dynamic input data hooks
   const { inputs: dynamicInputs, loading: inputsLoading, error: inputsError } = useInputsData(deviceStructure);
   const { selectedInput, selectInput } = useInputSelection(deviceStructure);
+  const isActionDisabled = useActionDisabled(isActionPending, lastAction);
+  const externalMark = useExternalChangeMark(deviceStructure.deviceId);
 
   if (!zone?.content || zone.isEmpty) {
     return (
@@ -276,18 +309,12 @@ const MediaStackZone = ({ zone, deviceStructure, onAction, className, isActionPe
                   variant="ghost"
                   size="sm"
                   onClick={() => handlePlaybackAction(action)}
-                  disabled={isActionPending}
-                  className="h-10 px-2 flex-1 min-w-fit bg-transparent border border-white/30 text-white hover:bg-white/10 hover:border-white/50 transition-all duration-200"
-                  title={createMediaTooltip(action)}
+                  disabled={isActionDisabled(action.actionName)}
+                  className={cn("h-10 px-2 flex-1 min-w-fit bg-transparent border border-white/30 text-white hover:bg-white/10 hover:border-white/50 transition-all duration-200", externalMark(action.actionName)?.className)}
+                  title={externalMark(action.actionName)?.title ?? createMediaTooltip(action)}
                 >
                   {isActionPending && lastAction === action.actionName ? (
-                    <Icon
-                      library="material"
-                      name="Refresh"
-                      fallback="loading"
-                      size="lg"
-                      className="w-5 h-5 text-white animate-spin"
-                    />
+                    <PendingActionIcon size="lg" className="w-5 h-5 text-white animate-spin" />
                   ) : (
                     <Icon
                       library={action.icon.iconLibrary as 'material'}
@@ -316,18 +343,12 @@ const MediaStackZone = ({ zone, deviceStructure, onAction, className, isActionPe
                   variant="ghost"
                   size="sm"
                   onClick={() => handlePlaybackAction(action)}
-                  disabled={isActionPending}
-                  className="h-10 px-2 flex-1 bg-transparent border border-white/30 text-white hover:bg-white/10 hover:border-white/50 transition-all duration-200"
-                  title={createMediaTooltip(action)}
+                  disabled={isActionDisabled(action.actionName)}
+                  className={cn("h-10 px-2 flex-1 bg-transparent border border-white/30 text-white hover:bg-white/10 hover:border-white/50 transition-all duration-200", externalMark(action.actionName)?.className)}
+                  title={externalMark(action.actionName)?.title ?? createMediaTooltip(action)}
                 >
                   {isActionPending && lastAction === action.actionName ? (
-                    <Icon
-                      library="material"
-                      name="Refresh"
-                      fallback="loading"
-                      size="lg"
-                      className="w-5 h-5 text-white animate-spin"
-                    />
+                    <PendingActionIcon size="lg" className="w-5 h-5 text-white animate-spin" />
                   ) : (
                     <Icon
                       library={action.icon.iconLibrary as 'material'}
@@ -349,6 +370,9 @@ const MediaStackZone = ({ zone, deviceStructure, onAction, className, isActionPe
 
 // Screen Zone - Vertical button alignment
 const ScreenZone = ({ zone, deviceStructure, onAction, className, isActionPending = false, lastAction }: { zone?: RemoteZone; deviceStructure: RemoteDeviceStructure; onAction: (action: string, payload?: any, targetDeviceId?: string) => void; className?: string; isActionPending?: boolean; lastAction?: string }) => {
+  const isActionDisabled = useActionDisabled(isActionPending, lastAction);
+  const externalMark = useExternalChangeMark(deviceStructure.deviceId);
+
   if (!zone?.content?.screenActions || zone.isEmpty) {
     return (
       <div className={cn("zone-empty", className)}>
@@ -384,19 +408,13 @@ const ScreenZone = ({ zone, deviceStructure, onAction, className, isActionPendin
             variant="ghost"
             size="sm"
             onClick={() => handleScreenAction(action)}
-            disabled={isActionPending}
-            className="h-10 w-10 justify-center bg-transparent border border-white/30 text-white hover:bg-white/10 hover:border-white/50 transition-all duration-200"
-            title={createScreenTooltip(action)}
+            disabled={isActionDisabled(action.actionName)}
+            className={cn("h-10 w-10 justify-center bg-transparent border border-white/30 text-white hover:bg-white/10 hover:border-white/50 transition-all duration-200", externalMark(action.actionName)?.className)}
+            title={externalMark(action.actionName)?.title ?? createScreenTooltip(action)}
           >
             <div className="w-6 h-6 text-white flex items-center justify-center">
               {isActionPending && lastAction === action.actionName ? (
-                <Icon
-                  library="material"
-                  name="Refresh"
-                  fallback="loading"
-                  size="lg"
-                  className="!w-6 !h-6 text-white animate-spin"
-                />
+                <PendingActionIcon size="lg" className="!w-6 !h-6 text-white animate-spin" />
               ) : (
                 <Icon
                   library={action.icon.iconLibrary as 'material'}
@@ -415,11 +433,13 @@ const ScreenZone = ({ zone, deviceStructure, onAction, className, isActionPendin
 };
 
 // Volume Zone - Priority-based (slider vs buttons) with vertical orientation
-const VolumeZone = ({ zone, deviceStructure, onAction, className, isActionPending = false, lastAction }: { zone?: RemoteZone; deviceStructure: RemoteDeviceStructure; onAction: (action: string, payload?: any, targetDeviceId?: string) => void; className?: string; isActionPending?: boolean; lastAction?: string }) => {
+const VolumeZone = ({ zone, deviceStructure, onAction, onContinuousAction, className, isActionPending = false, lastAction }: { zone?: RemoteZone; deviceStructure: RemoteDeviceStructure; onAction: (action: string, payload?: any, targetDeviceId?: string) => void; onContinuousAction: ContinuousActionHandler; className?: string; isActionPending?: boolean; lastAction?: string }) => {
   const [isDragging, setIsDragging] = useState(false);
   
   // Get device state for volume synchronization
   const { data: deviceState } = useDeviceStateQuery(deviceStructure.deviceId);
+  const isActionDisabled = useActionDisabled(isActionPending, lastAction);
+  const externalMark = useExternalChangeMark(deviceStructure.deviceId);
   
   // Get volume range from device configuration (with fallback)
   const getVolumeRange = () => {
@@ -493,7 +513,9 @@ const VolumeZone = ({ zone, deviceStructure, onAction, className, isActionPendin
     if (volumeSlider?.action) {
       // Use sourceDeviceId if available (for inherited actions), otherwise use scenario device
       const targetDeviceId = volumeSlider.action.sourceDeviceId || deviceStructure.deviceId;
-      onAction(volumeSlider.action.actionName, { level: newVolume }, targetDeviceId);
+      // EMotivaXMC2 volume slider manages zone 2, which has to be addressed explicitly
+      const params = deviceStructure.deviceClass === 'EMotivaXMC2' ? { level: newVolume, zone: 2 } : { level: newVolume };
+      onContinuousAction(volumeSlider.action.actionName, params, targetDeviceId);
     }
   };
 
@@ -577,7 +599,12 @@ const VolumeZone = ({ zone, deviceStructure, onAction, className, isActionPendin
       <div className={cn("zone-volume", className)}>
         <div className="flex flex-col items-center gap-2 h-full">
           {/* Volume Value Display - Show actual device value */}
-          <div className="text-xs text-white/70">{Math.round(volume)}</div>
+          <div
+            className={cn("text-xs text-white/70", externalMark(volumeSlider.action.actionName) && "text-amber-400")}
+            title={externalMark(volumeSlider.action.actionName)?.title}
+          >
+            {Math.round(volume)}
+          </div>
           
           {/* Thermometer-Style Vertical Slider */}
           <div className="flex-1 flex items-center justify-center">
@@ -679,17 +706,12 @@ const VolumeZone = ({ zone, deviceStructure, onAction, className, isActionPendin
               variant="ghost"
               size="sm"
               onClick={() => handleVolumeButton(volumeSlider.muteAction)}
-              disabled={isActionPending}
-              className="h-8 w-12 bg-transparent border border-white/30 text-white hover:bg-white/10 hover:border-white/50 transition-all duration-200"
+              disabled={isActionDisabled(volumeSlider.muteAction.actionName)}
+              className={cn("h-8 w-12 bg-transparent border border-white/30 text-white hover:bg-white/10 hover:border-white/50 transition-all duration-200", externalMark(volumeSlider.muteAction.actionName)?.className)}
+              title={externalMark(volumeSlider.muteAction.actionName)?.title}
             >
               {isActionPending && lastAction === volumeSlider.muteAction.actionName ? (
-                <Icon
-                  library="material"
-                  name="Refresh"
-                  fallback="loading"
-                  size="lg"
-                  className="w-4 h-4 text-white animate-spin"
-                />
+                <PendingActionIcon size="lg" className="w-4 h-4 text-white animate-spin" />
               ) : (
                 <Icon
                   library={volumeSlider.muteAction.icon.iconLibrary as 'material'}
@@ -718,18 +740,12 @@ const VolumeZone = ({ zone, deviceStructure, onAction, className, isActionPendin
               variant="ghost"
               size="sm"
               onClick={() => handleVolumeButton(buttons.upAction)}
-              disabled={isActionPending}
-              className="h-10 w-12 bg-transparent border border-white/30 text-white hover:bg-white/10 hover:border-white/50 transition-all duration-200"
-              title={createVolumeTooltip(buttons.upAction, "Volume Up")}
+              disabled={isActionDisabled(buttons.upAction.actionName)}
+              className={cn("h-10 w-12 bg-transparent border border-white/30 text-white hover:bg-white/10 hover:border-white/50 transition-all duration-200", externalMark(buttons.upAction.actionName)?.className)}
+              title={externalMark(buttons.upAction.actionName)?.title ?? createVolumeTooltip(buttons.upAction, "Volume Up")}
             >
               {isActionPending && lastAction === buttons.upAction.actionName ? (
-                <Icon
-                  library="material"
-                  name="Refresh"
-                  fallback="loading"
-                  size="lg"
-                  className="w-5 h-5 text-white animate-spin"
-                />
+                <PendingActionIcon size="lg" className="w-5 h-5 text-white animate-spin" />
               ) : (
                 <Icon
                   library={buttons.upAction.icon.iconLibrary as 'material'}
@@ -748,18 +764,12 @@ const VolumeZone = ({ zone, deviceStructure, onAction, className, isActionPendin
               variant="ghost"
               size="sm"
               onClick={() => handleVolumeButton(buttons.downAction)}
-              disabled={isActionPending}
-              className="h-10 w-12 bg-transparent border border-white/30 text-white hover:bg-white/10 hover:border-white/50 transition-all duration-200"
-              title={createVolumeTooltip(buttons.downAction, "Volume Down")}
+              disabled={isActionDisabled(buttons.downAction.actionName)}
+              className={cn("h-10 w-12 bg-transparent border border-white/30 text-white hover:bg-white/10 hover:border-white/50 transition-all duration-200", externalMark(buttons.downAction.actionName)?.className)}
+              title={externalMark(buttons.downAction.actionName)?.title ?? createVolumeTooltip(buttons.downAction, "Volume Down")}
             >
               {isActionPending && lastAction === buttons.downAction.actionName ? (
-                <Icon
-                  library="material"
-                  name="Refresh"
-                  fallback="loading"
-                  size="lg"
-                  className="w-5 h-5 text-white animate-spin"
-                />
+                <PendingActionIcon size="lg" className="w-5 h-5 text-white animate-spin" />
               ) : (
                 <Icon
                   library={buttons.downAction.icon.iconLibrary as 'material'}
@@ -778,18 +788,12 @@ const VolumeZone = ({ zone, deviceStructure, onAction, className, isActionPendin
               variant="ghost"
               size="sm"
               onClick={() => handleVolumeButton(buttons.muteAction)}
-              disabled={isActionPending}
-              className="h-10 w-12 bg-transparent border border-white/30 text-white hover:bg-white/10 hover:border-white/50 transition-all duration-200"
-              title={createVolumeTooltip(buttons.muteAction, "Mute")}
+              disabled={isActionDisabled(buttons.muteAction.actionName)}
+              className={cn("h-10 w-12 bg-transparent border border-white/30 text-white hover:bg-white/10 hover:border-white/50 transition-all duration-200", externalMark(buttons.muteAction.actionName)?.className)}
+              title={externalMark(buttons.muteAction.actionName)?.title ?? createVolumeTooltip(buttons.muteAction, "Mute")}
             >
               {isActionPending && lastAction === buttons.muteAction.actionName ? (
-                <Icon
-                  library="material"
-                  name="Refresh"
-                  fallback="loading"
-                  size="lg"
-                  className="w-5 h-5 text-white animate-spin"
-                />
+                <PendingActionIcon size="lg" className="w-5 h-5 text-white animate-spin" />
               ) : (
                 <Icon
                   library={buttons.muteAction.icon.iconLibrary as 'material'}
@@ -945,7 +949,7 @@ const MenuZone = ({ zone, deviceStructure, onAction, className, isActionPending
 };
 
 // Pointer Zone - PointerPad with lighter theme styling
-const PointerZone = ({ zone, deviceStructure, onAction, className, isActionPending = false, lastAction }: { zone?: RemoteZone; deviceStructure: RemoteDeviceStructure; onAction: (action: string, payload?: any, targetDeviceId?: string) => void; className?: string; isActionPending?: boolean; lastAction?: string }) => {
+const PointerZone = ({ zone, deviceStructure, onAction, onContinuousAction, className, isActionPending = false, lastAction }: { zone?: RemoteZone; deviceStructure: RemoteDeviceStructure; onAction: (action: string, payload?: any, targetDeviceId?: string) => void; onContinuousAction: ContinuousActionHandler; className?: string; isActionPending?: boolean; lastAction?: string }) => {
   if (!zone?.content?.pointerPad || zone?.isEmpty) {
     return (
       <div className={cn("zone-pointer", className)}>
@@ -963,7 +967,8 @@ const PointerZone = ({ zone, deviceStructure, onAction, className, isActionPendi
     if (pointerPad.moveAction) {
       // Use sourceDeviceId if available (for inherited actions), otherwise use scenario device
       const targetDeviceId = pointerPad.moveAction.sourceDeviceId || deviceStructure.deviceId;
-      onAction(pointerPad.moveAction.actionName, { deltaX, deltaY }, targetDeviceId);
+      // Deltas collected while a move is in flight are summed so no movement is lost
+      onContinuousAction(pointerPad.moveAction.actionName, { deltaX, deltaY }, targetDeviceId, sumDeltas);
     }
   };
 
@@ -991,10 +996,17 @@ const PointerZone = ({ zone, deviceStructure, onAction, className, isActionPendi
 
 interface RemoteControlLayoutProps {
   deviceStructure: RemoteDeviceStructure;
-  onAction: (actionName: string, payload?: any, targetDeviceId?: string) => void;
+  // May return a promise that settles with the action; continuous controls wait for it before sending again
+  onAction: (actionName: string, payload?: any, targetDeviceId?: string) => void | Promise<unknown>;
   isActionPending?: boolean;
   actionError?: Error | null;
   lastAction?: string;
+  // Attempt of the pending action, above 1 while a transient failure is being retried
+  actionAttempt?: number;
+  // Cancels the pending action; clicking the spinning button of the pending action calls it
+  onCancelAction?: () => void;
+  // Stamp of the generated page, compared with the live backend
+  generatedAgainst?: GenerationStamp;
   className?: string;
 }
 
@@ -1004,9 +1016,15 @@ export function RemoteControlLayout({
   isActionPending = false,
   actionError,
   lastAction,
+  actionAttempt = 1,
+  onCancelAction,
+  generatedAgainst,
   className 
 }: RemoteControlLayoutProps) {
   const { deviceName, remoteZones } = deviceStructure;
+  const rolledBackActions = useRolledBackActions(deviceStructure.deviceId);
+  const externalChange = useExternalChange(deviceStructure.deviceId);
+  const { mismatches, isWithdrawn } = useBackendCompatibility(deviceStructure.deviceId, generatedAgainst);
   
 
 
@@ -1032,12 +1050,38 @@ export function RemoteControlLayout({
 
   // All actions now use the same handler - no special power management
   const handleAction = (actionName: string, payload?: any) => {
+    // The pending action's button stays enabled so it can be used to cancel
+    if (isActionPending && actionName === lastAction) {
+      onCancelAction?.();
+      return;
+    }
+    // Controls that do not render as buttons (nav cluster, pointer pad) end up here too
+    if (isWithdrawn(actionName)) {
+      return;
+    }
     onAction(actionName, payload);
   };
+
+  // Continuous controls bypass the cancel-on-repeat above: repeats are the point, and the
+  // scheduler coalesces them to the latest value per device and action
+  const handleContinuousAction: ContinuousActionHandler = (actionName, payload, targetDeviceId, merge) => {
+    if (isWithdrawn(actionName)) {
+      return;
+    }
+    actionScheduler.schedule({
+      deviceId: targetDeviceId || deviceStructure.deviceId,
+      action: actionName,
+      params: payload,
+      merge,
+      send: (params) => onAction(actionName, params, targetDeviceId),
+    });
+  };
   
 
 
       return (
+      <ActionAttemptContext.Provider value={actionAttempt}>
+      <WithdrawnActionsContext.Provider value={isWithdrawn}>
       <div className={cn("flex justify-center w-full", className)}>
         {/* Remote Control Container */}
         <div className="remote-control-container" style={{contain: 'layout style'}}>
@@ -1046,6 +1090,47 @@ export function RemoteControlLayout({
           <h1 className="text-lg font-bold text-white text-center tracking-wide">
             {deviceName}
           </h1>
+          {mismatches.length > 0 && (
+            <div className="mt-1 flex items-center justify-center gap-1 text-xs text-yellow-400">
+              <Icon library="material" name="Warning" size="sm" fallback="warning" className="w-3 h-3" />
+              <span>Page may not match the backend ({mismatches.join('; ')}) - regenerate it with npm run gen:pages</span>
+            </div>
+          )}
+          {rolledBackActions.map((rollback) => (
+            <div
+              key={rollback.id}
+              className="mt-1 flex items-center justify-center gap-1 text-xs text-red-400"
+              title={rollback.error}
+            >
+              <Icon library="material" name="Undo" size="sm" fallback="undo" className="w-3 h-3" />
+              <span>{rollback.action} failed, state restored</span>
+            </div>
+          ))}
+          {externalChange && (
+            <div
+              className="mt-1 flex items-center justify-center gap-1 text-xs text-amber-400"
+              title={externalChange.fields.length > 0 ? `Changed: ${externalChange.fields.join(', ')}` : undefined}
+            >
+              <Icon library="material" name="SettingsRemote" size="sm" fallback="remote" className="w-3 h-3" />
+              <span>{externalChange.action} changed by {externalChange.source}</span>
+            </div>
+          )}
+          {isActionPending && lastAction && onCancelAction && (
+            <button
+              type="button"
+              onClick={onCancelAction}
+              className="mt-1 mx-auto flex items-center gap-1 text-xs text-white/70 hover:text-white"
+            >
+              <Icon library="material" name="Close" size="sm" fallback="close" className="w-3 h-3" />
+              <span>Cancel {lastAction}{actionAttempt > 1 ? ` (attempt ${actionAttempt})` : ''}</span>
+            </button>
+          )}
+          {!isActionPending && actionError instanceof ActionTimeoutError && (
+            <div className="mt-1 flex items-center justify-center gap-1 text-xs text-yellow-400">
+              <Icon library="material" name="HourglassEmpty" size="sm" fallback="timer" className="w-3 h-3" />
+              <span>{actionError.message} - the device may still respond</span>
+            </div>
+          )}
         </div>
 
         {/* Zone Layout */}
@@ -1102,6 +1187,7 @@ export function RemoteControlLayout({
                 zone={zones.volume}
                 deviceStructure={deviceStructure}
                 onAction={handleAction}
+                onContinuousAction={handleContinuousAction}
                 className="zone-volume"
                 isActionPending={isActionPending}
                 lastAction={lastAction}
@@ -1121,6 +1207,7 @@ export function RemoteControlLayout({
             zone={zones.pointer}
             deviceStructure={deviceStructure}
             onAction={handleAction}
+            onContinuousAction={handleContinuousAction}
             className="zone-pointer"
             isActionPending={isActionPending}
             lastAction={lastAction}
@@ -1461,5 +1548,7 @@ export function RemoteControlLayout({
         `
       }} />
     </div>
+      </WithdrawnActionsContext.Provider>
+      </ActionAttemptContext.Provider>
   );
 }
\ No newline at end of file
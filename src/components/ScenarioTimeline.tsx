@@ -0,0 +1,53 @@
+import React from 'react';
+import { Icon } from './icons';
+import { useScenarioTimelineStore } from '../stores/useScenarioTimelineStore';
+import { formatTimestamp } from '../lib/utils';
+
+interface ScenarioTimelineProps {
+  scenarioId: string;
+  className?: string;
+}
+
+export function ScenarioTimeline({ scenarioId, className = '' }: ScenarioTimelineProps) {
+  const entries = useScenarioTimelineStore(state => state.timelines[scenarioId]);
+  const clearTimeline = useScenarioTimelineStore(state => state.clearTimeline);
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-sm text-muted-foreground uppercase tracking-wider">
+          Scenario Timeline
+        </h3>
+        {entries && entries.length > 0 && (
+          <button
+            onClick={() => clearTimeline(scenarioId)}
+            className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+            title="Clear scenario timeline"
+          >
+            <Icon library="material" name="Clear" size="sm" fallback="clear" className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+
+      {!entries || entries.length === 0 ? (
+        <div className="h-16 flex items-center justify-center text-xs text-muted-foreground border border-dashed border-muted-foreground/30 rounded-md">
+          No scenario events
+        </div>
+      ) : (
+        <ol className="max-h-48 overflow-y-auto bg-muted/20 border border-muted/40 rounded-md p-2 space-y-1">
+          {entries.map((entry, index) => (
+            <li key={`${entry.at}-${index}`} className="flex items-start space-x-2 text-xs font-mono leading-tight">
+              <span className="text-muted-foreground text-[10px] mt-0.5 flex-shrink-0">
+                {formatTimestamp(entry.at)}
+              </span>
+              <span className="flex-1 text-foreground">{entry.message}</span>
+              {entry.progress !== undefined && (
+                <span className="text-muted-foreground flex-shrink-0">{Math.round(entry.progress)}%</span>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -291,7 +291,12 @@ export const ScenarioVirtualDeviceControls: React.FC<ScenarioVirtualDeviceContro
           <div className="bg-white p-4 rounded-lg shadow-lg">
             <div className="flex items-center space-x-2">
               <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
-              <span className="text-sm">Executing command...</span>
+              <span className="text-sm">
+                {executeAction.failureCount > 0 ? `Retrying command (attempt ${executeAction.failureCount + 1})...` : 'Executing command...'}
+              </span>
+              <Button variant="ghost" size="sm" onClick={executeAction.cancel}>
+                Cancel
+              </Button>
             </div>
           </div>
         </div>
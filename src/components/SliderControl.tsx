@@ -1,7 +1,6 @@
 import React from 'react';
 import { Icon } from './icons';
-import { debounce } from '../lib/utils';
-import { runtimeConfig } from '../config/runtime';
+import { actionScheduler } from '../lib/actionScheduler';
 
 interface SliderControlProps {
   id: string;
@@ -11,7 +10,10 @@ interface SliderControlProps {
   value: number;
   icon?: string;
   ticks?: number[];
-  onChange: (value: number) => void;
+  // Device the slider controls; sliders of one device share its rate limit
+  deviceId?: string;
+  // May return a promise that settles with the action, so the next value waits for it
+  onChange: (value: number) => void | Promise<unknown>;
   className?: string;
 }
 
@@ -23,24 +25,25 @@ function SliderControl({
   value,
   icon,
   ticks,
+  deviceId,
   onChange,
   className
 }: SliderControlProps) {
   const [localValue, setLocalValue] = React.useState(value);
 
-  // Debounced onChange to avoid too many API calls
-  const debouncedOnChange = React.useMemo(
-    () => debounce(onChange, runtimeConfig.debounceDelaySec * 1000),
-    [onChange]
-  );
-
   React.useEffect(() => {
     setLocalValue(value);
   }, [value]);
 
   const handleChange = (newValue: number) => {
     setLocalValue(newValue);
-    debouncedOnChange(newValue);
+    // Paced by the action scheduler to avoid too many API calls; the final value is always sent
+    actionScheduler.schedule({
+      deviceId: deviceId ?? id,
+      action: id,
+      params: { value: newValue },
+      send: (params) => onChange(params.value),
+    });
   };
 
   const renderIcon = () => {
@@ -0,0 +1,56 @@
+import React from 'react';
+import { formatTimestamp } from '../lib/utils';
+
+interface StateHistoryChartProps {
+  label: string;
+  points: Array<{ at: number; value: number }>;
+  // Time range shown; the last value is drawn up to `to`
+  from: number;
+  to: number;
+}
+
+const WIDTH = 600;
+const HEIGHT = 120;
+const PADDING = 4;
+
+const formatValue = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(1));
+
+// Step line of a numeric state field: values hold until the next change
+function StateHistoryChart({ label, points, from, to }: StateHistoryChartProps) {
+  const values = points.map(point => point.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+
+  const x = (at: number) => PADDING + ((at - from) / Math.max(to - from, 1)) * (WIDTH - 2 * PADDING);
+  const y = (value: number) => HEIGHT - PADDING - ((value - min) / range) * (HEIGHT - 2 * PADDING);
+
+  const path = points
+    .map((point, index) => (index === 0 ? `M ${x(point.at)} ${y(point.value)}` : `H ${x(point.at)} V ${y(point.value)}`))
+    .join(' ') + ` H ${x(to)}`;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">{label}</span>
+        <span className="font-mono text-muted-foreground">
+          {min === max ? formatValue(min) : `${formatValue(min)} - ${formatValue(max)}`}
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-28 rounded-md bg-muted/30">
+        <path d={path} fill="none" stroke="hsl(var(--primary))" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        {points.map(point => (
+          <circle key={point.at} cx={x(point.at)} cy={y(point.value)} r={2.5} fill="hsl(var(--primary))">
+            <title>{`${formatTimestamp(point.at)}: ${formatValue(point.value)}`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{formatTimestamp(from)}</span>
+        <span>{formatTimestamp(to)}</span>
+      </div>
+    </div>
+  );
+}
+
+export default StateHistoryChart;
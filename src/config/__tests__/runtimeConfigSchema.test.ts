@@ -0,0 +1,85 @@
+import { describe, expect, it } from '@jest/globals';
+import { validateRuntimeConfig } from '../runtimeConfigSchema';
+
+describe('validateRuntimeConfig', () => {
+  it('accepts a valid config as is', () => {
+    const value = {
+      apiBaseUrl: '/api',
+      deviceTransport: 'mqtt',
+      defaultLanguage: 'ru',
+      maxLogEntries: 500,
+      features: { stateHistory: false },
+    };
+
+    expect(validateRuntimeConfig(value)).toEqual({ config: value, errors: [], warnings: [] });
+  });
+
+  it('warns about unknown keys and leaves them out of the config', () => {
+    const { config, errors, warnings } = validateRuntimeConfig({
+      apiBaseUrl: '/api',
+      sseDevicesPath: '/elsewhere',
+      toString: 'not a setting',
+      backends: undefined,
+      features: { roomPrefetch: false, darkMode: true },
+    });
+
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual([
+      'sseDevicesPath is not a known setting and is ignored',
+      'toString is not a known setting and is ignored',
+      'features.darkMode is not a known setting and is ignored',
+    ]);
+    expect(config).toEqual({ apiBaseUrl: '/api', backends: undefined, features: { roomPrefetch: false } });
+  });
+
+  it('leaves unknown keys out of the backends', () => {
+    const { config, warnings } = validateRuntimeConfig({
+      backends: [{ id: 'main', apiBaseUrl: '/api', token: 'secret' }],
+    });
+
+    expect(warnings).toEqual(['backends[0].token is not a known setting and is ignored']);
+    expect(config).toEqual({ backends: [{ id: 'main', apiBaseUrl: '/api' }] });
+  });
+
+  it('rejects values of the wrong type or out of range', () => {
+    const { errors } = validateRuntimeConfig({
+      apiBaseUrl: 42,
+      deviceTransport: 'zigbee',
+      defaultLanguage: 'de',
+      maxLogEntries: 2.5,
+      statePollIntervalSec: 0,
+      features: { stateHistory: 'yes' },
+    });
+
+    expect(errors).toEqual([
+      'apiBaseUrl must be a string',
+      'deviceTransport must be one of rest, mqtt',
+      'defaultLanguage must be one of en, ru',
+      'maxLogEntries must be a positive integer',
+      'statePollIntervalSec must be a positive number',
+      'features.stateHistory must be true or false',
+    ]);
+  });
+
+  it('rejects malformed backends', () => {
+    const { errors } = validateRuntimeConfig({
+      backends: [{ id: 'main', apiBaseUrl: '/api' }, { id: 'main' }, 'bridge'],
+    });
+
+    expect(errors).toEqual([
+      'backends[1].apiBaseUrl is required',
+      'backends[1].id "main" is used by another backend',
+      'backends[2] must be an object',
+    ]);
+  });
+
+  it('rejects backends together with a single API URL', () => {
+    const { errors } = validateRuntimeConfig({ apiBaseUrl: '/api', backends: [{ id: 'main', apiBaseUrl: '/api' }] });
+
+    expect(errors).toEqual(['set either backends or apiBaseUrl/sseBaseUrl, not both']);
+  });
+
+  it('rejects a config that is not an object', () => {
+    expect(validateRuntimeConfig(['apiBaseUrl']).errors).toEqual(['the configuration must be a JSON object']);
+  });
+});
@@ -0,0 +1,3 @@
+// Build-time variables (VITE_*). Read through this module so that code running outside Vite,
+// like the unit tests, can provide its own (see jest.config.js).
+export const buildEnv = import.meta.env;
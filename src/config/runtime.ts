@@ -1,6 +1,9 @@
+import { buildEnv } from './buildEnv';
+import { validateRuntimeConfig, type RuntimeConfigFile, type RuntimeFeatureFlags, type UiLanguage } from './runtimeConfigSchema';
+
 // Helper function to get API base URL
 const getApiBaseUrl = () => {
-  const envURL = import.meta.env.VITE_API_BASE_URL;
+  const envURL = buildEnv.VITE_API_BASE_URL;
   if (envURL === undefined || envURL === null) {
     return 'http://localhost:8000'; // Development fallback
   }
@@ -9,32 +12,216 @@ const getApiBaseUrl = () => {
 
 // Helper function to get SSE base URL
 const getSSEBaseUrl = () => {
-  const envURL = import.meta.env.VITE_SSE_BASE_URL;
+  const envURL = buildEnv.VITE_SSE_BASE_URL;
   if (envURL === undefined || envURL === null) {
     return 'http://localhost:8000'; // Development: bypass proxy, use direct backend
   }
   return envURL === '' ? '' : envURL; // Empty string means use relative URLs
 };
 
-export const runtimeConfig = {
+export interface BackendConfig {
+  id: string;
+  label: string;
+  apiBaseUrl: string;
+  sseBaseUrl: string;
+  // Broker for the MQTT device transport; defaults to the global mqttUrl
+  mqttUrl?: string;
+}
+
+// Backend registry: VITE_BACKENDS holds a JSON array of BackendConfig for installations with
+// several bridges; otherwise the single backend from VITE_API_BASE_URL / VITE_SSE_BASE_URL is used
+const getBackends = (): BackendConfig[] => {
+  const single: BackendConfig = { id: 'default', label: 'Default', apiBaseUrl: getApiBaseUrl(), sseBaseUrl: getSSEBaseUrl() };
+  const raw = buildEnv.VITE_BACKENDS;
+  if (!raw) {
+    return [single];
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as Array<Partial<BackendConfig>>;
+    const backends = parsed
+      .filter((backend) => backend.id && backend.apiBaseUrl !== undefined)
+      .map((backend) => ({
+        id: backend.id!,
+        label: backend.label || backend.id!,
+        apiBaseUrl: backend.apiBaseUrl!,
+        sseBaseUrl: backend.sseBaseUrl ?? backend.apiBaseUrl!,
+        mqttUrl: backend.mqttUrl,
+      }));
+    return backends.length > 0 ? backends : [single];
+  } catch (error) {
+    console.error('Invalid VITE_BACKENDS, falling back to a single backend:', error);
+    return [single];
+  }
+};
+
+export interface RuntimeConfig {
+  statePollIntervalSec: number;
+  // A tab hidden this long suspends its realtime streams and resyncs state when shown again
+  hiddenSuspendDelaySec: number;
+  // Cached rooms, devices and state older than this are not shown on startup
+  queryCacheMaxAgeHours: number;
+  // Device state history older than this is dropped
+  stateHistoryRetentionHours: number;
+  backends: BackendConfig[];
+  // The first backend is the primary one: system info and anything not owned by another backend
+  apiBaseUrl: string;
+  mqttUrl: string;
+
+  // Device transport: 'rest' (default) or 'mqtt' to talk to the broker over WebSocket
+  deviceTransport: 'rest' | 'mqtt';
+  mqttCommandTopic: string;
+  mqttStateTopic: string;
+
+  // Authentication for a protected reverse proxy: 'none' (default), 'bearer' or 'basic'.
+  // With a token URL, bearer logins exchange username/password for a token (OAuth2 password flow)
+  authMode: 'none' | 'bearer' | 'basic';
+  authTokenUrl: string;
+
+  // SSE Configuration
+  sseBaseUrl: string;
+  readonly sseDevicesPath: string;
+  readonly sseScenariosPath: string;
+  readonly sseSystemPath: string;
+
+  // Language until the user picks one
+  defaultLanguage: UiLanguage;
+  maxLogEntries: number;
+  // Minimum time between continuous commands (slider drags, pointer moves) sent to one device
+  continuousActionIntervalSec: number;
+  features: RuntimeFeatureFlags;
+}
+
+const backends = getBackends();
+
+// Build-time defaults (VITE_* variables), for development and images built for a single installation.
+// loadRuntimeConfig() overrides them from the installation config before the app is loaded.
+export const runtimeConfig: RuntimeConfig = {
   statePollIntervalSec: 5,
-  apiBaseUrl: getApiBaseUrl(),
-  mqttUrl: import.meta.env.VITE_MQTT_URL || 'ws://localhost:9001',
+  hiddenSuspendDelaySec: 15,
+  queryCacheMaxAgeHours: 24,
+  stateHistoryRetentionHours: 72,
+  backends,
+  apiBaseUrl: backends[0].apiBaseUrl,
+  mqttUrl: buildEnv.VITE_MQTT_URL || 'ws://localhost:9001',
   
-  // SSE Configuration
-  sseBaseUrl: getSSEBaseUrl(),
+  deviceTransport: buildEnv.VITE_DEVICE_TRANSPORT === 'mqtt' ? 'mqtt' : 'rest',
+  mqttCommandTopic: buildEnv.VITE_MQTT_COMMAND_TOPIC || '/devices/{device_id}/controls/{action}/on',
+  mqttStateTopic: buildEnv.VITE_MQTT_STATE_TOPIC || '/devices/{device_id}/state',
+  
+  authMode: ['bearer', 'basic'].includes(buildEnv.VITE_AUTH_MODE) ? buildEnv.VITE_AUTH_MODE : 'none',
+  authTokenUrl: buildEnv.VITE_AUTH_TOKEN_URL || '',
+  
+  sseBaseUrl: backends[0].sseBaseUrl,
   sseDevicesPath: '/events/devices',
   sseScenariosPath: '/events/scenarios', 
   sseSystemPath: '/events/system',
   
   defaultLanguage: 'en',
   maxLogEntries: 1000,
-  debounceDelaySec: 0.3,
-} as const;
+  continuousActionIntervalSec: 0.15,
+  features: {
+    queryCachePersistence: true,
+    roomPrefetch: true,
+    hiddenTabSuspend: true,
+    sessionRecording: true,
+    stateHistory: true,
+  },
+};
+
+declare global {
+  interface Window {
+    // Installation config injected by public/runtime-config.js (see docker/40-runtime-config.sh)
+    RUNTIME_CONFIG?: unknown;
+  }
+}
+
+export const RUNTIME_CONFIG_URL = '/config.json';
+
+/**
+ * The installation config does not match the schema; the app does not start with it
+ */
+export class RuntimeConfigError extends Error {
+  readonly source: string;
+  readonly problems: string[];
+
+  constructor(source: string, problems: string[]) {
+    super(`Invalid configuration in ${source}: ${problems.join('; ')}`);
+    this.name = 'RuntimeConfigError';
+    this.source = source;
+    this.problems = problems;
+  }
+}
+
+// Where the loaded configuration came from, for diagnostics
+let configSources: string[] = ['build defaults'];
+export const getRuntimeConfigSources = (): readonly string[] => configSources;
+
+const readConfigFile = async (): Promise<unknown> => {
+  const response = await fetch(RUNTIME_CONFIG_URL, { cache: 'no-store' });
+  // No config file: the SPA fallback answers with index.html, dev servers with 404
+  if (!response.ok || !response.headers.get('content-type')?.includes('json')) {
+    return undefined;
+  }
+  try {
+    return await response.json();
+  } catch {
+    throw new RuntimeConfigError(RUNTIME_CONFIG_URL, ['the file is not valid JSON']);
+  }
+};
+
+const applyConfig = (source: string, config: RuntimeConfigFile) => {
+  const { backends: backendList, apiBaseUrl, sseBaseUrl, features, ...settings } = config;
+  Object.assign(runtimeConfig, settings);
+  if (features) {
+    runtimeConfig.features = { ...runtimeConfig.features, ...features };
+  }
+
+  if (backendList) {
+    runtimeConfig.backends = backendList.map(backend => ({
+      id: backend.id,
+      label: backend.label || backend.id,
+      apiBaseUrl: backend.apiBaseUrl,
+      sseBaseUrl: backend.sseBaseUrl ?? backend.apiBaseUrl,
+      mqttUrl: backend.mqttUrl,
+    }));
+  } else if (apiBaseUrl !== undefined || sseBaseUrl !== undefined) {
+    const single = runtimeConfig.backends[0];
+    const api = apiBaseUrl ?? single.apiBaseUrl;
+    runtimeConfig.backends = [{ ...single, apiBaseUrl: api, sseBaseUrl: sseBaseUrl ?? api }];
+  }
+  runtimeConfig.apiBaseUrl = runtimeConfig.backends[0].apiBaseUrl;
+  runtimeConfig.sseBaseUrl = runtimeConfig.backends[0].sseBaseUrl;
+  configSources = [...configSources, source];
+};
+
+/**
+ * Load the installation config over the build-time defaults: /config.json, then the config injected
+ * as window.RUNTIME_CONFIG. Both are optional. Modules read runtimeConfig as they are imported,
+ * so this has to finish before the app is loaded. Throws RuntimeConfigError when a config is invalid.
+ */
+export async function loadRuntimeConfig(): Promise<void> {
+  const candidates: Array<[string, unknown]> = [[RUNTIME_CONFIG_URL, await readConfigFile()]];
+  if (window.RUNTIME_CONFIG !== undefined) {
+    candidates.push(['window.RUNTIME_CONFIG', window.RUNTIME_CONFIG]);
+  }
+
+  candidates.forEach(([source, value]) => {
+    if (value === undefined) {
+      return;
+    }
+    const { config, errors, warnings } = validateRuntimeConfig(value);
+    warnings.forEach(warning => console.warn(`[Config] ${source}: ${warning}`));
+    if (errors.length > 0) {
+      throw new RuntimeConfigError(source, errors);
+    }
+    applyConfig(source, config);
+  });
+}
 
 // Helper function to build full SSE URLs
-export const getSSEUrl = (path: string): string => {
-  return runtimeConfig.sseBaseUrl ? 
-    `${runtimeConfig.sseBaseUrl}${path}` : 
+export const getSSEUrl = (path: string, sseBaseUrl: string = runtimeConfig.sseBaseUrl): string => {
+  return sseBaseUrl ? 
+    `${sseBaseUrl}${path}` : 
     path; // Use relative URL for proxy
 }; 
\ No newline at end of file
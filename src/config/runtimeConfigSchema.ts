@@ -0,0 +1,205 @@
+// Schema of the installation config (/config.json or window.RUNTIME_CONFIG). Every key is
+// optional; missing ones keep the build-time default.
+
+// Languages the UI is translated into
+export type UiLanguage = 'en' | 'ru';
+
+export interface BackendConfigFile {
+  id: string;
+  label?: string;
+  apiBaseUrl: string;
+  sseBaseUrl?: string;
+  mqttUrl?: string;
+}
+
+export interface RuntimeFeatureFlags {
+  // Keep rooms, devices and state across visits (IndexedDB)
+  queryCachePersistence: boolean;
+  // Warm a room's device state, lists and pages as soon as it is selected
+  roomPrefetch: boolean;
+  // Close realtime streams of tabs that stay hidden
+  hiddenTabSuspend: boolean;
+  // Session recording and replay on the Diagnostics page
+  sessionRecording: boolean;
+  // Record device state history (IndexedDB) for the history view
+  stateHistory: boolean;
+}
+
+export interface RuntimeConfigFile {
+  apiBaseUrl?: string;
+  sseBaseUrl?: string;
+  backends?: BackendConfigFile[];
+  mqttUrl?: string;
+  deviceTransport?: 'rest' | 'mqtt';
+  mqttCommandTopic?: string;
+  mqttStateTopic?: string;
+  authMode?: 'none' | 'bearer' | 'basic';
+  authTokenUrl?: string;
+  defaultLanguage?: UiLanguage;
+  maxLogEntries?: number;
+  statePollIntervalSec?: number;
+  hiddenSuspendDelaySec?: number;
+  queryCacheMaxAgeHours?: number;
+  stateHistoryRetentionHours?: number;
+  continuousActionIntervalSec?: number;
+  features?: Partial<RuntimeFeatureFlags>;
+}
+
+export interface RuntimeConfigValidation {
+  config: RuntimeConfigFile;
+  // The config is rejected when there are errors; unknown keys only warn
+  errors: string[];
+  warnings: string[];
+}
+
+type Payload = Record<string, unknown>;
+// Returns why the value does not match, or null when it does
+type FieldValidator = (value: unknown, path: string) => string | null;
+// Nested values report their own errors and warnings
+type NestedValidator = (value: unknown, path: string, result: RuntimeConfigValidation) => void;
+
+const isRecord = (value: unknown): value is Payload =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Own keys only, so "constructor" or "toString" in a config is not taken for a known setting
+const isKnownKey = (fields: object, key: string) => Object.prototype.hasOwnProperty.call(fields, key);
+
+// A copy with the keys the schema defines, leaving out the unknown ones the warnings name
+const pickKnown = (value: Payload, fields: object): Payload =>
+  Object.fromEntries(Object.entries(value).filter(([key]) => isKnownKey(fields, key)));
+
+const string: FieldValidator = (value, path) => (typeof value === 'string' ? null : `${path} must be a string`);
+
+const oneOf = (...options: string[]): FieldValidator => (value, path) =>
+  typeof value === 'string' && options.includes(value) ? null : `${path} must be one of ${options.join(', ')}`;
+
+const positiveNumber: FieldValidator = (value, path) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? null : `${path} must be a positive number`;
+
+const positiveInteger: FieldValidator = (value, path) =>
+  Number.isInteger(value) && (value as number) > 0 ? null : `${path} must be a positive integer`;
+
+const boolean: FieldValidator = (value, path) => (typeof value === 'boolean' ? null : `${path} must be true or false`);
+
+const backendFields: Record<keyof BackendConfigFile, FieldValidator> = {
+  id: string,
+  label: string,
+  apiBaseUrl: string,
+  sseBaseUrl: string,
+  mqttUrl: string,
+};
+
+const featureFields: Record<keyof RuntimeFeatureFlags, FieldValidator> = {
+  queryCachePersistence: boolean,
+  roomPrefetch: boolean,
+  hiddenTabSuspend: boolean,
+  sessionRecording: boolean,
+  stateHistory: boolean,
+};
+
+// Checks the known keys of an object and lists the unknown ones as warnings
+const checkObject = (
+  value: Payload,
+  fields: Record<string, FieldValidator | NestedValidator>,
+  path: string,
+  result: RuntimeConfigValidation
+) => {
+  Object.entries(value).forEach(([key, fieldValue]) => {
+    const fieldPath = path ? `${path}.${key}` : key;
+    if (!isKnownKey(fields, key)) {
+      result.warnings.push(`${fieldPath} is not a known setting and is ignored`);
+      return;
+    }
+    if (fieldValue === undefined) {
+      return;
+    }
+    const error = fields[key](fieldValue, fieldPath, result);
+    if (typeof error === 'string') {
+      result.errors.push(error);
+    }
+  });
+};
+
+const backends: NestedValidator = (value, path, result) => {
+  if (!Array.isArray(value) || value.length === 0) {
+    result.errors.push(`${path} must be a non-empty array`);
+    return;
+  }
+  const ids = new Set<string>();
+  value.forEach((backend, index) => {
+    const backendPath = `${path}[${index}]`;
+    if (!isRecord(backend)) {
+      result.errors.push(`${backendPath} must be an object`);
+      return;
+    }
+    ['id', 'apiBaseUrl'].forEach(key => {
+      if (backend[key] === undefined) {
+        result.errors.push(`${backendPath}.${key} is required`);
+      }
+    });
+    if (typeof backend.id === 'string') {
+      if (ids.has(backend.id)) {
+        result.errors.push(`${backendPath}.id "${backend.id}" is used by another backend`);
+      }
+      ids.add(backend.id);
+    }
+    checkObject(backend, backendFields, backendPath, result);
+  });
+};
+
+const features: NestedValidator = (value, path, result) => {
+  if (!isRecord(value)) {
+    result.errors.push(`${path} must be an object`);
+    return;
+  }
+  checkObject(value, featureFields, path, result);
+};
+
+// One validator per key: a key added to RuntimeConfigFile does not compile until it gets one here
+const configFields: Record<keyof RuntimeConfigFile, FieldValidator | NestedValidator> = {
+  apiBaseUrl: string,
+  sseBaseUrl: string,
+  backends,
+  mqttUrl: string,
+  deviceTransport: oneOf('rest', 'mqtt'),
+  mqttCommandTopic: string,
+  mqttStateTopic: string,
+  authMode: oneOf('none', 'bearer', 'basic'),
+  authTokenUrl: string,
+  defaultLanguage: oneOf('en', 'ru'),
+  maxLogEntries: positiveInteger,
+  statePollIntervalSec: positiveNumber,
+  hiddenSuspendDelaySec: positiveNumber,
+  queryCacheMaxAgeHours: positiveNumber,
+  stateHistoryRetentionHours: positiveNumber,
+  continuousActionIntervalSec: positiveNumber,
+  features,
+};
+
+/**
+ * Check an installation config against the schema
+ */
+export function validateRuntimeConfig(value: unknown): RuntimeConfigValidation {
+  const result: RuntimeConfigValidation = { config: {}, errors: [], warnings: [] };
+  if (!isRecord(value)) {
+    result.errors.push('the configuration must be a JSON object');
+    return result;
+  }
+  checkObject(value, configFields, '', result);
+  if (value.backends !== undefined && (value.apiBaseUrl !== undefined || value.sseBaseUrl !== undefined)) {
+    result.errors.push('set either backends or apiBaseUrl/sseBaseUrl, not both');
+  }
+  if (result.errors.length > 0) {
+    return result;
+  }
+
+  const config = pickKnown(value, configFields);
+  if (Array.isArray(value.backends)) {
+    config.backends = value.backends.map(backend => pickKnown(backend as Payload, backendFields));
+  }
+  if (isRecord(value.features)) {
+    config.features = pickKnown(value.features, featureFields);
+  }
+  result.config = config as RuntimeConfigFile;
+  return result;
+}
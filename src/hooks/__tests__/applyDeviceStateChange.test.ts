@@ -0,0 +1,37 @@
+import { describe, expect, it } from '@jest/globals';
+import { QueryClient } from '@tanstack/react-query';
+import { applyDeviceStateChange, queryKeys } from '../useApi';
+import type { BaseDeviceState } from '../../types/BaseDeviceState';
+
+// Device states carry device-specific fields on top of BaseDeviceState
+const update = (fields: Record<string, unknown>) => fields as Partial<BaseDeviceState>;
+
+describe('applyDeviceStateChange', () => {
+  it('merges an update into the cached state', () => {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(queryKeys.devices.state('tv'), { device_id: 'tv', device_name: 'TV', power: false, volume: 10 });
+
+    applyDeviceStateChange(queryClient, 'tv', update({ power: true }));
+
+    expect(queryClient.getQueryData(queryKeys.devices.state('tv')))
+      .toEqual({ device_id: 'tv', device_name: 'TV', power: true, volume: 10 });
+  });
+
+  it('does not cache a partial update as the state of a device that was not fetched', () => {
+    const queryClient = new QueryClient();
+
+    applyDeviceStateChange(queryClient, 'tv', update({ power: true }));
+
+    expect(queryClient.getQueryData(queryKeys.devices.state('tv'))).toBeUndefined();
+  });
+
+  it('marks a state that failed to load for refetching', () => {
+    const queryClient = new QueryClient();
+    const query = queryClient.getQueryCache().build(queryClient, { queryKey: queryKeys.devices.state('tv') });
+
+    applyDeviceStateChange(queryClient, 'tv', update({ power: true }));
+
+    expect(query.state.data).toBeUndefined();
+    expect(query.state.isInvalidated).toBe(true);
+  });
+});
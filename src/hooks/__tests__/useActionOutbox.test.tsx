@@ -0,0 +1,116 @@
+import React from 'react';
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { act, renderHook } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { useActionOutbox } from '../useActionOutbox';
+import { useOutboxStore, type OutboxEntry } from '../../stores/useOutboxStore';
+import { useLogStore } from '../../stores/useLogStore';
+import { getDeviceBackend } from '../../lib/backends';
+import type { TransportCommandResponse } from '../../lib/transport/DeviceTransport';
+
+// IndexedDB shared by the "tabs" of a test
+const records = new Map<string, unknown>();
+
+jest.mock('idb-keyval', () => ({
+  createStore: jest.fn(),
+  get: jest.fn(async (key: string) => records.get(key)),
+  getMany: jest.fn(async (keys: string[]) => keys.map(key => records.get(key))),
+  set: jest.fn(async (key: string, value: unknown) => {
+    records.set(key, value);
+  }),
+  update: jest.fn(async (key: string, updater: (value: unknown) => unknown) => {
+    records.set(key, updater(records.get(key)));
+  }),
+  del: jest.fn(async (key: string) => {
+    records.delete(key);
+  }),
+  delMany: jest.fn(async (keys: string[]) => {
+    keys.forEach(key => records.delete(key));
+  }),
+  keys: jest.fn(async () => Array.from(records.keys())),
+}));
+
+jest.mock('../../lib/backends', () => ({
+  ...jest.requireActual<object>('../../lib/backends'),
+  getDeviceBackend: jest.fn(),
+}));
+
+const executeAction = jest.fn<(deviceId: string) => Promise<TransportCommandResponse>>();
+
+const renderOutbox = () => {
+  const queryClient = new QueryClient();
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+  return renderHook(() => useActionOutbox(), { wrapper });
+};
+
+const queue = () => useOutboxStore.getState().enqueue({
+  deviceId: 'tv',
+  action: { action: 'power_on' },
+  reason: 'failed',
+  idempotent: true,
+});
+
+describe('useActionOutbox', () => {
+  beforeEach(async () => {
+    records.clear();
+    executeAction.mockReset();
+    jest.mocked(getDeviceBackend).mockReturnValue({ transport: { executeAction } } as unknown as ReturnType<typeof getDeviceBackend>);
+    useLogStore.getState().clearLogs();
+    await useOutboxStore.getState().load();
+  });
+
+  it('removes an entry the backend carried out', async () => {
+    executeAction.mockResolvedValue({ success: true, device_id: 'tv', action: 'power_on' });
+    queue();
+    const { result } = renderOutbox();
+
+    await act(() => result.current.replayPending());
+
+    expect(executeAction).toHaveBeenCalledTimes(1);
+    expect(result.current.entries).toEqual([]);
+    expect(records.size).toBe(0);
+  });
+
+  it('keeps an entry the backend answered with success: false and reports its error', async () => {
+    executeAction.mockResolvedValue({ success: false, device_id: 'tv', action: 'power_on', error: 'Device busy' });
+    const { id } = queue();
+    const { result } = renderOutbox();
+
+    await act(() => result.current.replayPending());
+
+    expect(result.current.entries).toEqual([
+      expect.objectContaining({ id, reason: 'rejected', lastError: 'Device busy', attempts: 2 }),
+    ]);
+    expect(records.get(`outbox:${id}`)).toEqual(expect.objectContaining({ reason: 'rejected' }));
+    expect(useLogStore.getState().entries[0]).toEqual(
+      expect.objectContaining({ level: 'error', message: expect.stringContaining('Device busy') })
+    );
+
+    // It waits for the user rather than replaying again
+    await act(() => result.current.replayPending());
+    expect(executeAction).toHaveBeenCalledTimes(1);
+  });
+
+  it('replays entries another tab queued', async () => {
+    executeAction.mockResolvedValue({ success: true, device_id: 'tv', action: 'power_on' });
+    const entry: OutboxEntry = {
+      id: 'other-tab',
+      deviceId: 'tv',
+      action: { action: 'power_on' },
+      reason: 'offline',
+      idempotent: true,
+      createdAt: Date.now(),
+      lastAttemptAt: Date.now(),
+      attempts: 1,
+    };
+    records.set('outbox:other-tab', entry);
+    const { result } = renderOutbox();
+
+    await act(() => result.current.replayPending());
+
+    expect(executeAction).toHaveBeenCalledWith('tv', entry.action, expect.anything());
+    expect(records.has('outbox:other-tab')).toBe(false);
+  });
+});
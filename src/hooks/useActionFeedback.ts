@@ -0,0 +1,77 @@
+import { useEffect, useRef, useState } from 'react';
+import { useMutationState } from '@tanstack/react-query';
+import { queryKeys, type ActionMutationContext } from './useApi';
+import type { DeviceAction } from '../types/api';
+import { ActionQueuedError, ActionTimeoutError, ActionCancelledError } from '../lib/actionErrors';
+
+export interface RolledBackAction {
+  id: number;
+  deviceId: string;
+  action: string;
+  fields: string[];
+  error: string;
+}
+
+// How long a rollback stays visible on the remote and in the state panel
+const ROLLBACK_NOTICE_MS = 5_000;
+
+/**
+ * Device actions whose optimistic prediction was rolled back recently.
+ * Entries disappear on their own after a few seconds.
+ */
+export function useRolledBackActions(deviceId?: string | null): RolledBackAction[] {
+  const failed = useMutationState({
+    filters: { mutationKey: queryKeys.devices.actions, status: 'error' },
+    select: (mutation) => ({
+      id: mutation.mutationId,
+      variables: mutation.state.variables as { deviceId: string; action: DeviceAction } | undefined,
+      context: mutation.state.context as ActionMutationContext | undefined,
+      error: mutation.state.error,
+    }),
+  });
+
+  // Mutations carry no failure timestamp, so remember when each failure was first seen
+  const firstSeenRef = useRef(new Map<number, number>());
+  const [now, setNow] = useState(() => Date.now());
+
+  // Queued actions are already listed by the outbox indicator; aborted ones are refetched, not rolled back
+  const rolledBack = failed.filter(entry =>
+    entry.context?.prediction &&
+    !(entry.error instanceof ActionQueuedError) &&
+    !(entry.error instanceof ActionTimeoutError) &&
+    !(entry.error instanceof ActionCancelledError) &&
+    entry.variables &&
+    (!deviceId || entry.variables.deviceId === deviceId)
+  );
+
+  rolledBack.forEach(entry => {
+    if (!firstSeenRef.current.has(entry.id)) {
+      firstSeenRef.current.set(entry.id, Date.now());
+    }
+  });
+
+  const visible = rolledBack.filter(entry =>
+    now - (firstSeenRef.current.get(entry.id) ?? now) < ROLLBACK_NOTICE_MS
+  );
+
+  // Re-render once the oldest visible notice expires
+  const nextExpiry = visible.length > 0
+    ? Math.min(...visible.map(entry => firstSeenRef.current.get(entry.id)!)) + ROLLBACK_NOTICE_MS
+    : null;
+
+  useEffect(() => {
+    if (nextExpiry === null) {
+      return;
+    }
+    const timeout = setTimeout(() => setNow(Date.now()), Math.max(0, nextExpiry - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [nextExpiry]);
+
+  return visible.map(entry => ({
+    id: entry.id,
+    deviceId: entry.variables!.deviceId,
+    action: entry.variables!.action.action,
+    fields: Object.keys(entry.context!.prediction!),
+    error: entry.error instanceof Error ? entry.error.message : String(entry.error),
+  }));
+}
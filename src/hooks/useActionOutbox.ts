@@ -0,0 +1,202 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { shareOutboxWithOtherTabs, useOutboxStore, type OutboxEntry } from '../stores/useOutboxStore';
+import { useLogStore } from '../stores/useLogStore';
+import { useRoomStore } from '../stores/useRoomStore';
+import { useApplyDeviceStateChange } from './useApi';
+import { useRealtimeStatus } from './useRealtime';
+import { getDeviceBackend } from '../lib/backends';
+import { ActionTimeoutError, isBackendUnreachable } from '../lib/actionErrors';
+import { noteOwnCommand } from '../lib/externalChanges';
+import { resolveActionTimeout } from '../lib/deviceHandlers/actionTimeouts';
+import { TabLeadership } from '../lib/realtime/TabLeadership';
+
+// How often pending idempotent actions are retried while they wait for the backend
+const REPLAY_INTERVAL_MS = 30_000;
+
+// The outbox is shared by all tabs, so only the leader replays it on its own; without Web Locks
+// every tab does
+const replayLeadership = TabLeadership.isSupported() ? new TabLeadership('wb-mqtt-ui-outbox-replay') : null;
+const isReplayLeader = () => !replayLeadership || replayLeadership.isLeader;
+
+/**
+ * Access to the offline action outbox with replay and discard operations
+ */
+export function useActionOutbox() {
+  const { entries, isReplaying, markAttempt, markRejected, remove, clear, setReplaying, load } = useOutboxStore();
+  const { addLog } = useLogStore();
+  const applyDeviceStateChange = useApplyDeviceStateChange();
+
+  // Returns false when the backend is still unreachable, so callers can stop replaying
+  const replayEntry = useCallback(async (entry: OutboxEntry): Promise<boolean> => {
+    const deviceClass = useRoomStore.getState().devices.find(device => device.id === entry.deviceId)?.type;
+    const timeoutMs = resolveActionTimeout(deviceClass, entry.action.action);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      noteOwnCommand(entry.deviceId, entry.action, timeoutMs);
+      const response = await getDeviceBackend(entry.deviceId).transport.executeAction(
+        entry.deviceId,
+        entry.action,
+        { signal: controller.signal }
+      );
+      // The backend took it but could not carry it out - keep it for the user to retry or discard
+      if (!response.success) {
+        const message = response.error || 'the backend reported a failure';
+        markRejected(entry.id, message);
+        addLog({
+          level: 'error',
+          message: `Queued action failed: ${entry.action.action} -> ${entry.deviceId}: ${message}`,
+          category: 'outbox',
+          deviceId: entry.deviceId,
+        });
+        return true;
+      }
+      remove(entry.id);
+      if (response.state) {
+        applyDeviceStateChange(entry.deviceId, response.state);
+      }
+      addLog({
+        level: 'info',
+        message: `Replayed queued action: ${entry.action.action} -> ${entry.deviceId}`,
+        category: 'outbox',
+        deviceId: entry.deviceId,
+        details: { queuedAt: new Date(entry.createdAt).toISOString(), attempts: entry.attempts + 1 },
+      });
+      return true;
+    } catch (error) {
+      // No answer in time - keep the entry and try again later, like an unreachable backend
+      if (controller.signal.aborted) {
+        markAttempt(entry.id, new ActionTimeoutError(entry.action.action, timeoutMs).message);
+        return false;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      if (isBackendUnreachable(error)) {
+        markAttempt(entry.id, message);
+        return false;
+      }
+      // The backend answered and rejected it - replaying again will not help
+      remove(entry.id);
+      addLog({
+        level: 'error',
+        message: `Queued action rejected: ${entry.action.action} -> ${entry.deviceId}: ${message}`,
+        category: 'outbox',
+        deviceId: entry.deviceId,
+      });
+      return true;
+    } finally {
+      clearTimeout(timer);
+    }
+  }, [applyDeviceStateChange, addLog, markAttempt, markRejected, remove]);
+
+  // Replay idempotent entries of all tabs in the order they were queued, stopping at the first
+  // unreachable failure. Entries the backend refused wait for the user.
+  const replayPending = useCallback(async () => {
+    if (useOutboxStore.getState().isReplaying) {
+      return;
+    }
+
+    setReplaying(true);
+    try {
+      await load();
+      const pending = useOutboxStore.getState().entries
+        .filter(entry => entry.idempotent && entry.reason !== 'rejected');
+      for (const entry of pending) {
+        if (!(await replayEntry(entry))) {
+          break;
+        }
+      }
+    } finally {
+      setReplaying(false);
+    }
+  }, [load, replayEntry, setReplaying]);
+
+  // Send a single entry after the user confirmed it (non-idempotent or refused actions)
+  const confirmEntry = useCallback(async (id: string) => {
+    const entry = useOutboxStore.getState().entries.find(e => e.id === id);
+    if (entry) {
+      await replayEntry(entry);
+    }
+  }, [replayEntry]);
+
+  return {
+    entries,
+    isReplaying,
+    replayPending,
+    confirmEntry,
+    discardEntry: remove,
+    clearOutbox: clear,
+  };
+}
+
+/**
+ * Replays idempotent queued actions automatically when connectivity comes back:
+ * on browser `online`, when the realtime device channel reconnects, after the outbox
+ * is loaded from IndexedDB, and periodically while anything is pending.
+ * Only the tab leading the replay election does so, and it catches up when it takes over.
+ */
+export function useOutboxAutoReplay() {
+  const { entries, replayPending: replayAll } = useActionOutbox();
+  const isLoaded = useOutboxStore(state => state.isLoaded);
+  const { devices } = useRealtimeStatus();
+  const wasConnectedRef = useRef(devices.connected);
+  const hasPending = entries.some(entry => entry.idempotent && entry.reason !== 'rejected');
+
+  const replayAllRef = useRef(replayAll);
+  replayAllRef.current = replayAll;
+
+  const replayPending = useCallback(async () => {
+    if (isReplayLeader()) {
+      await replayAll();
+    }
+  }, [replayAll]);
+
+  // Stay in the election for as long as the app is mounted
+  useEffect(() => {
+    if (!replayLeadership) {
+      return;
+    }
+    const unsubscribe = replayLeadership.onChange(isLeader => {
+      if (isLeader && useOutboxStore.getState().isLoaded) {
+        replayAllRef.current();
+      }
+    });
+    replayLeadership.acquire();
+    return () => {
+      unsubscribe();
+      replayLeadership.release();
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleOnline = () => { replayPending(); };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [replayPending]);
+
+  useEffect(() => {
+    if (devices.connected && !wasConnectedRef.current) {
+      replayPending();
+    }
+    wasConnectedRef.current = devices.connected;
+  }, [devices.connected, replayPending]);
+
+  useEffect(() => {
+    const stopSharing = shareOutboxWithOtherTabs();
+    useOutboxStore.getState().load();
+    return stopSharing;
+  }, []);
+
+  useEffect(() => {
+    if (isLoaded) {
+      replayPending();
+    }
+  }, [isLoaded, replayPending]);
+
+  useEffect(() => {
+    if (!hasPending) {
+      return;
+    }
+    const interval = setInterval(() => { replayPending(); }, REPLAY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasPending, replayPending]);
+}
@@ -1,115 +1,423 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import axios from 'axios';
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
 import type {
   DeviceAction,
   MQTTMessage,
   SwitchScenarioRequest,
   ActionRequest,
-  SystemInfo,
-  SystemConfig,
-  ReloadResponse,
-  RoomDefinitionResponse,
-  ScenarioDefinition,
-  ScenarioState,
-  ScenarioResponse,
-  ScenarioVirtualConfigResponse,
-  ScenarioVirtualConfigsResponse,
-  Group,
-  GroupedActionsResponse,
-  GroupActionsResponse,
-  CommandResponse,
-  DeviceState,
-  MQTTPublishResponse,
-  PersistedStatesResponse,
+  BaseDeviceConfig,
 } from '../types/api';
 import { BaseDeviceState } from '../types/BaseDeviceState';
+import { mapBackendDataToState } from '../utils/stateUtils';
+import {
+  getBackend,
+  getDeviceBackend,
+  getDeviceBackendId,
+  getRoomBackendId,
+  getScenarioBackend,
+  getScenarioBackendId,
+  isDeviceOwnerKnown,
+  isRoomOwnerKnown,
+  isScenarioOwnerKnown,
+  primaryBackendId,
+} from '../lib/backends';
+import axios from 'axios';
+import {
+  ActionQueuedError,
+  ActionTimeoutError,
+  ActionCancelledError,
+  ActionFailedError,
+  isBackendUnreachable,
+  isTransientActionFailure,
+} from '../lib/actionErrors';
+import { isIdempotentAction } from '../lib/actionIdempotency';
+import { useOutboxStore } from '../stores/useOutboxStore';
+import { useLogStore } from '../stores/useLogStore';
+import { useRoomStore } from '../stores/useRoomStore';
+import { predictDeviceState } from '../lib/deviceHandlers/statePredictions';
+import { resolveActionTimeout } from '../lib/deviceHandlers/actionTimeouts';
+import { resolveActionRetryPolicy, getRetryDelay } from '../lib/deviceHandlers/actionRetries';
+import { noteOwnCommand } from '../lib/externalChanges';
+import { writeUnconfirmedState } from '../lib/stateHistory';
+import { actionScheduler } from '../lib/actionScheduler';
+import type { TransportCommandResponse } from '../lib/transport/DeviceTransport';
+
 
-// Create axios instance with base configuration
-// Use relative URLs when VITE_API_BASE_URL is empty (for nginx proxy)
-const getBaseURL = () => {
-  const envURL = import.meta.env.VITE_API_BASE_URL;
-  if (envURL === undefined || envURL === null) {
-    return 'http://localhost:8000'; // Development fallback
+// Query options for the per-backend lists, shared by the hooks below and useDataSync,
+// which loads them from every backend
+export const backendQueries = {
+  rooms: (backendId: string) => ({
+    queryKey: queryKeys.rooms.all(backendId),
+    queryFn: () => getBackend(backendId).apiClient.listRooms(),
+  }),
+  deviceConfigs: (backendId: string) => ({
+    queryKey: queryKeys.devices.configs(backendId),
+    queryFn: () => getBackend(backendId).apiClient.getAllDeviceConfigs(),
+  }),
+  scenarios: (backendId: string, roomId?: string) => ({
+    queryKey: queryKeys.scenarios.all(roomId, backendId),
+    queryFn: () => getBackend(backendId).apiClient.listScenarioDefinitions(roomId ? { room: roomId } : {}),
+  }),
+};
+
+// Lists a device reports through a get_* action (inputs, apps). Failures throw, so they are not cached.
+const fetchDeviceList = async (deviceId: string, action: string): Promise<unknown[]> => {
+  const timeoutMs = resolveActionTimeout(getDeviceClass(deviceId), action);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await getDeviceBackend(deviceId).transport.executeAction(
+      deviceId,
+      { action, params: {} },
+      { signal: controller.signal }
+    );
+    if (response.success === false || !Array.isArray(response.data)) {
+      throw new Error(response.error || `"${action}" returned no list`);
+    }
+    return response.data;
+  } catch (error) {
+    throw controller.signal.aborted ? new ActionTimeoutError(action, timeoutMs) : error;
+  } finally {
+    clearTimeout(timer);
   }
-  return envURL === '' ? '/api' : envURL; // Empty string means use nginx proxy
 };
 
-const api = axios.create({
-  baseURL: getBaseURL(),
-  // No timeout - let backend manage operation-specific timeouts
-});
+// Query options for per-device data, shared by the hooks and the room prefetch (useRoomPrefetch)
+export const deviceQueries = {
+  state: (deviceId: string) => ({
+    queryKey: queryKeys.devices.state(deviceId),
+    queryFn: () => getDeviceBackend(deviceId).transport.fetchState(deviceId),
+  }),
+  // Only answered while the device is powered on and connected
+  inputs: (deviceId: string) => ({
+    queryKey: queryKeys.devices.inputs(deviceId),
+    queryFn: () => fetchDeviceList(deviceId, 'get_available_inputs'),
+  }),
+  apps: (deviceId: string) => ({
+    queryKey: queryKeys.devices.apps(deviceId),
+    queryFn: () => fetchDeviceList(deviceId, 'get_available_apps'),
+  }),
+};
+
+// Whether the backend that owns an object is known yet, re-rendering once useDataSync tells
+const useDeviceOwnerKnown = (deviceId: string) => useRoomStore(state => isDeviceOwnerKnown(deviceId, state.devices));
+const useScenarioOwnerKnown = (scenarioId: string) =>
+  useRoomStore(state => isScenarioOwnerKnown(scenarioId, state.scenarios));
+const useRoomOwnerKnown = (roomId: string) => useRoomStore(state => isRoomOwnerKnown(roomId, state.rooms));
 
 // System hooks
-export const useSystemInfo = () => {
+export const useSystemInfo = (backendId: string = primaryBackendId) => {
   return useQuery({
-    queryKey: ['system', 'info'],
-    queryFn: () => api.get<SystemInfo>('/system').then(res => res.data),
+    queryKey: queryKeys.system.info(backendId),
+    queryFn: () => getBackend(backendId).apiClient.getSystemInfo(),
   });
 };
 
-export const useSystemConfig = () => {
+export const useSystemConfig = (backendId: string = primaryBackendId) => {
   return useQuery({
-    queryKey: ['system', 'config'],
-    queryFn: () => api.get<SystemConfig>('/config/system').then(res => res.data),
+    queryKey: queryKeys.system.config(backendId),
+    queryFn: () => getBackend(backendId).apiClient.getSystemConfig(),
   });
 };
 
-export const useReloadSystem = () => {
+// System info together with the REST round-trip time of the request, for the diagnostics page
+export const useSystemHealth = (backendId: string = primaryBackendId) => {
+  return useQuery({
+    queryKey: queryKeys.system.health(backendId),
+    queryFn: async () => {
+      const started = performance.now();
+      const info = await getBackend(backendId).apiClient.getSystemInfo();
+      return { info, latencyMs: Math.round(performance.now() - started), checkedAt: Date.now() };
+    },
+    retry: false,
+  });
+};
+
+// API version the backend serves (info.version of its OpenAPI document), as opposed to the build
+// version /system reports; null when it does not serve the document
+export const useBackendApiVersion = (backendId: string = primaryBackendId) => {
+  return useQuery({
+    queryKey: queryKeys.system.apiVersion(backendId),
+    queryFn: async () => {
+      const { data } = await getBackend(backendId).api.get<{ info?: { version?: string } }>('/openapi.json');
+      return data.info?.version ?? null;
+    },
+    staleTime: Infinity,
+    retry: false,
+  });
+};
+
+export const useReloadSystem = (backendId: string = primaryBackendId) => {
   return useMutation({
-    mutationFn: () => api.post<ReloadResponse>('/reload').then(res => res.data),
+    mutationFn: () => getBackend(backendId).apiClient.reloadSystem(),
   });
 };
 
 // Device hooks
 export const useDeviceConfig = (deviceId: string) => {
+  const ownerKnown = useDeviceOwnerKnown(deviceId);
   return useQuery({
-    queryKey: ['devices', deviceId, 'config'],
-    queryFn: () => api.get<any>(`/config/device/${deviceId}`).then(res => res.data),
-    enabled: !!deviceId,
+    queryKey: queryKeys.devices.config(deviceId),
+    queryFn: () => getDeviceBackend(deviceId).apiClient.getDeviceConfig(deviceId),
+    enabled: ownerKnown && !!deviceId,
   });
 };
 
-export const useAllDeviceConfigs = () => {
-  return useQuery({
-    queryKey: ['devices', 'configs'],
-    queryFn: () => api.get<any>('/config/devices').then(res => res.data),
-  });
+export const useAllDeviceConfigs = (backendId: string = primaryBackendId) => {
+  return useQuery(backendQueries.deviceConfigs(backendId));
 };
 
 export const useDeviceState = (deviceId: string) => {
+  const ownerKnown = useDeviceOwnerKnown(deviceId);
   return useQuery({
-    queryKey: ['devices', deviceId, 'state'],
-    queryFn: () => api.get<BaseDeviceState>(`/devices/${deviceId}/state`).then(res => res.data),
-    enabled: !!deviceId,
-    // No more aggressive polling - only fetch on mount and after actions
+    ...deviceQueries.state(deviceId),
+    enabled: ownerKnown && !!deviceId,
+    // Fetched on mount and after actions; SSE pushes changes, and useStatePollingFallback
+    // polls only while realtime is down
   });
 };
 
 export const useDevicePersistedState = (deviceId: string) => {
+  const ownerKnown = useDeviceOwnerKnown(deviceId);
   return useQuery({
-    queryKey: ['devices', deviceId, 'persisted'],
-    queryFn: () => api.get<DeviceState>(`/devices/${deviceId}/persisted_state`).then(res => res.data),
-    enabled: !!deviceId,
+    queryKey: queryKeys.devices.persistedState(deviceId),
+    queryFn: () => getDeviceBackend(deviceId).apiClient.getDevicePersistedState(deviceId),
+    enabled: ownerKnown && !!deviceId,
   });
 };
 
-export const useAllPersistedStates = () => {
+export const useAllPersistedStates = (backendId: string = primaryBackendId) => {
   return useQuery({
-    queryKey: ['devices', 'persisted'],
-    queryFn: () => api.get<PersistedStatesResponse>('/devices/persisted_states').then(res => res.data),
+    queryKey: queryKeys.devices.persistedStates(backendId),
+    queryFn: () => getBackend(backendId).apiClient.getAllPersistedStates(),
   });
 };
 
+// Optimistic prediction applied by useExecuteDeviceAction, kept as mutation context for rollback
+export interface ActionMutationContext {
+  previous?: BaseDeviceState;
+  prediction?: Record<string, any>;
+}
+
+// Abort controllers of in-flight device actions, so any view can cancel them
+const pendingActionControllers = new Map<string, Set<AbortController>>();
+
+// Actions waiting for their next retry, keyed by device and action. Cancelling aborts the
+// controller, and the retry then stops before sending anything.
+const retryBackoffControllers = new Map<string, AbortController>();
+
+const trackActionController = (deviceId: string, controller: AbortController) => {
+  const controllers = pendingActionControllers.get(deviceId) ?? new Set<AbortController>();
+  controllers.add(controller);
+  pendingActionControllers.set(deviceId, controllers);
+};
+
+const untrackActionController = (deviceId: string, controller: AbortController) => {
+  const controllers = pendingActionControllers.get(deviceId);
+  controllers?.delete(controller);
+  if (controllers?.size === 0) {
+    pendingActionControllers.delete(deviceId);
+  }
+};
+
+// The state after a command arrives on its own only over a connected push subscription
+const receivesPushedState = (deviceId: string) =>
+  getDeviceBackend(deviceId).transport.isReceivingState?.() ?? false;
+
+const getDeviceClass = (deviceId: string) =>
+  useRoomStore.getState().devices.find(device => device.id === deviceId)?.type;
+
+/**
+ * Cancel all in-flight actions for a device, and the continuous commands still waiting to be
+ * sent to it. Returns false when nothing was pending.
+ */
+export const cancelDeviceActions = (deviceId: string): boolean => {
+  const droppedScheduled = actionScheduler.cancel(deviceId);
+  const controllers = pendingActionControllers.get(deviceId);
+  if (!controllers || controllers.size === 0) {
+    return droppedScheduled;
+  }
+  controllers.forEach(controller => controller.abort());
+  return true;
+};
+
+const isAbortedAction = (error: unknown) =>
+  error instanceof ActionTimeoutError || error instanceof ActionCancelledError;
+
 export const useExecuteDeviceAction = () => {
   const queryClient = useQueryClient();
-  return useMutation({
-    mutationFn: ({ deviceId, action }: { deviceId: string; action: DeviceAction }) =>
-      api.post<CommandResponse>(`/devices/${deviceId}/action`, action).then(res => res.data),
+  const mutation = useMutation({
+    mutationKey: queryKeys.devices.actions,
+    mutationFn: async ({ deviceId, action }: { deviceId: string; action: DeviceAction }): Promise<TransportCommandResponse> => {
+      const isQuery = action.action.startsWith('get_');
+      const queue = (reason: 'offline' | 'failed', error?: string) => {
+        const entry = useOutboxStore.getState().enqueue({
+          deviceId,
+          action,
+          reason,
+          idempotent: isIdempotentAction(action.action),
+          lastError: error,
+        });
+        useLogStore.getState().addLog({
+          level: 'warn',
+          message: `Backend unreachable, queued: ${action.action} -> ${deviceId}`,
+          category: 'outbox',
+          deviceId,
+          details: { reason, idempotent: entry.idempotent },
+        });
+        return new ActionQueuedError(action.action, entry.id);
+      };
+
+      // Don't even try while the browser knows it is offline
+      if (!isQuery && navigator.onLine === false) {
+        throw queue('offline');
+      }
+
+      // A retry the user cancelled during its backoff
+      const retryKey = `${deviceId}:${action.action}`;
+      const backoff = retryBackoffControllers.get(retryKey);
+      if (backoff) {
+        retryBackoffControllers.delete(retryKey);
+        untrackActionController(deviceId, backoff);
+        if (backoff.signal.aborted) {
+          throw new ActionCancelledError(action.action);
+        }
+      }
+
+      const config = queryClient.getQueryData<BaseDeviceConfig>(queryKeys.devices.config(deviceId));
+      const timeoutMs = resolveActionTimeout(getDeviceClass(deviceId), action.action, config);
+
+      // Each attempt gets the full timeout
+      const controller = new AbortController();
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs);
+      trackActionController(deviceId, controller);
+
+      if (!isQuery) {
+        noteOwnCommand(deviceId, action, timeoutMs);
+      }
+      let response: TransportCommandResponse;
+      try {
+        response = await getDeviceBackend(deviceId).transport.executeAction(deviceId, action, { signal: controller.signal });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          const aborted = timedOut
+            ? new ActionTimeoutError(action.action, timeoutMs)
+            : new ActionCancelledError(action.action);
+          useLogStore.getState().addLog({
+            level: 'warn',
+            message: `${aborted.message}: ${action.action} -> ${deviceId}`,
+            category: 'action',
+            deviceId,
+            details: { timeoutMs },
+          });
+          throw aborted;
+        }
+        // Queries are only useful right now, so they are never queued
+        if (!isQuery && isBackendUnreachable(error)) {
+          throw queue('failed', error instanceof Error ? error.message : String(error));
+        }
+        if (axios.isAxiosError(error) && error.response) {
+          const status = error.response.status;
+          throw new ActionFailedError(deviceId, action.action, error.message, {
+            transient: isTransientActionFailure({ status }),
+            status,
+          });
+        }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+        untrackActionController(deviceId, controller);
+      }
+
+      if (response.success === false) {
+        throw new ActionFailedError(deviceId, action.action, response.error || `"${action.action}" failed`, {
+          transient: isTransientActionFailure({ status: null, message: response.error }),
+          status: null,
+        });
+      }
+      return response;
+    },
+    // Offline actions go to the outbox; TanStack would otherwise pause them until the browser is online
+    networkMode: 'always',
+    // Transient failures of idempotent actions are retried with backoff per the device class policy;
+    // the attempt in progress is failureCount + 1
+    retry: (failureCount, error) => {
+      if (!(error instanceof ActionFailedError) || !error.transient) {
+        return false;
+      }
+      const { deviceId, action } = error;
+      const policy = resolveActionRetryPolicy(getDeviceClass(deviceId), action);
+      if (failureCount + 1 >= policy.maxAttempts) {
+        return false;
+      }
+
+      const backoff = new AbortController();
+      retryBackoffControllers.set(`${deviceId}:${action}`, backoff);
+      trackActionController(deviceId, backoff);
+      useLogStore.getState().addLog({
+        level: 'warn',
+        message: `Retrying ${action} -> ${deviceId} (attempt ${failureCount + 2}/${policy.maxAttempts}): ${error.message}`,
+        category: 'action',
+        deviceId,
+      });
+      return true;
+    },
+    retryDelay: (failureCount, error) => error instanceof ActionFailedError
+      ? getRetryDelay(resolveActionRetryPolicy(getDeviceClass(error.deviceId), error.action), failureCount + 1)
+      : 0,
+    onMutate: async ({ deviceId, action }): Promise<ActionMutationContext> => {
+      const stateKey = queryKeys.devices.state(deviceId);
+      const previous = queryClient.getQueryData<BaseDeviceState>(stateKey);
+      const deviceClass = getDeviceClass(deviceId);
+      if (!previous || !deviceClass) {
+        return {};
+      }
+
+      const prediction = predictDeviceState(deviceClass, action.action, action.params, previous);
+      if (!prediction) {
+        return {};
+      }
+
+      // Keep an in-flight refetch from overwriting the prediction
+      await queryClient.cancelQueries({ queryKey: stateKey });
+      // The device has not confirmed the prediction, so it stays out of the state history
+      writeUnconfirmedState(deviceId, () => {
+        queryClient.setQueryData<BaseDeviceState>(stateKey, (current) => ({ ...(current ?? previous), ...prediction }));
+      });
+      return { previous, prediction };
+    },
+    onError: (error, { deviceId }, context) => {
+      if (!context?.previous || !context.prediction) {
+        return;
+      }
+      // A timed out or cancelled action may still have reached the device - ask instead of guessing
+      if (isAbortedAction(error)) {
+        if (!receivesPushedState(deviceId)) {
+          queryClient.invalidateQueries({ queryKey: queryKeys.devices.state(deviceId) });
+        }
+        return;
+      }
+      // Roll back only the predicted fields, anything else may have been updated by SSE meanwhile
+      const previous = context.previous as Record<string, any>;
+      const restored = Object.keys(context.prediction).reduce((acc, field) => {
+        acc[field] = previous[field];
+        return acc;
+      }, {} as Record<string, any>);
+      writeUnconfirmedState(deviceId, () => {
+        queryClient.setQueryData<BaseDeviceState>(queryKeys.devices.state(deviceId), (current) =>
+          current ? { ...current, ...restored } : { ...context.previous! }
+        );
+      });
+    },
     onSuccess: (response, { deviceId, action }) => {
       // If the response includes updated state, immediately update the cache
       if (response.state) {
         // Update the device state cache with the response data
-        queryClient.setQueryData(['devices', deviceId, 'state'], response.state);
+        queryClient.setQueryData(queryKeys.devices.state(deviceId), response.state);
         
         // Also add last_command info to the state if not already present
         if (!response.state.last_command) {
@@ -122,100 +430,128 @@ export const useExecuteDeviceAction = () => {
               params: action.params || null,
             },
           };
-          queryClient.setQueryData(['devices', deviceId, 'state'], updatedState);
+          queryClient.setQueryData(queryKeys.devices.state(deviceId), updatedState);
         }
-      } else {
+      } else if (!receivesPushedState(deviceId)) {
         // Fallback: invalidate to trigger refetch if no state in response
-        queryClient.invalidateQueries({ queryKey: ['devices', deviceId, 'state'] });
+        // (a connected push subscription delivers the resulting state on its own)
+        queryClient.invalidateQueries({ queryKey: queryKeys.devices.state(deviceId) });
       }
     },
   });
+
+  const pendingDeviceId = mutation.isPending ? mutation.variables?.deviceId : undefined;
+  const cancel = useCallback(
+    () => (pendingDeviceId ? cancelDeviceActions(pendingDeviceId) : false),
+    [pendingDeviceId]
+  );
+
+  return { ...mutation, cancel };
 };
 
 // Single-poll methods for explicit state checking
 export const usePollDeviceState = () => {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: (deviceId: string) => 
-      api.get<BaseDeviceState>(`/devices/${deviceId}/state`).then(res => res.data),
+    mutationFn: (deviceId: string) => getDeviceBackend(deviceId).transport.fetchState(deviceId),
     onSuccess: (data, deviceId) => {
       // Update the query cache with fresh data
-      queryClient.setQueryData(['devices', deviceId, 'state'], data);
+      queryClient.setQueryData(queryKeys.devices.state(deviceId), data);
     },
   });
 };
 
+// Push-based state updates (SSE state_change events)
+/**
+ * Merge a state update into the cached state so useDeviceState subscribers see the change without
+ * a refetch. An update may carry only some fields, so it never stands in for a state that has not
+ * been fetched yet: that one is fetched instead.
+ */
+export const applyDeviceStateChange = (queryClient: QueryClient, deviceId: string, state: Partial<BaseDeviceState>) => {
+  const queryKey = queryKeys.devices.state(deviceId);
+  if (queryClient.getQueryData(queryKey) === undefined) {
+    queryClient.invalidateQueries({ queryKey });
+    return;
+  }
+  const updates = mapBackendDataToState(state);
+  queryClient.setQueryData<BaseDeviceState>(queryKey, (previous) => previous && { ...previous, ...updates });
+};
+
+export const useApplyDeviceStateChange = () => {
+  const queryClient = useQueryClient();
+  return useCallback(
+    (deviceId: string, state: Partial<BaseDeviceState>) => applyDeviceStateChange(queryClient, deviceId, state),
+    [queryClient]
+  );
+};
+
 // Room hooks
-export const useRooms = () => {
-  return useQuery({
-    queryKey: ['rooms'],
-    queryFn: () => api.get<RoomDefinitionResponse[]>('/room/list').then(res => res.data),
-  });
+export const useRooms = (backendId: string = primaryBackendId) => {
+  return useQuery(backendQueries.rooms(backendId));
 };
 
 export const useRoom = (roomId: string) => {
+  const ownerKnown = useRoomOwnerKnown(roomId);
   return useQuery({
-    queryKey: ['rooms', roomId],
-    queryFn: () => api.get<RoomDefinitionResponse>(`/room/${roomId}`).then(res => res.data),
-    enabled: !!roomId,
+    queryKey: queryKeys.rooms.detail(roomId),
+    queryFn: () => getBackend(getRoomBackendId(roomId)).apiClient.getRoom(roomId),
+    enabled: ownerKnown && !!roomId,
   });
 };
 
 // Scenario hooks
-export const useScenarios = (roomId?: string) => {
-  return useQuery({
-    queryKey: ['scenarios', roomId],
-    queryFn: () => {
-      const params = roomId ? { room: roomId } : {};
-      return api.get<ScenarioDefinition[]>('/scenario/definition', { params }).then(res => res.data);
-    },
-  });
+export const useScenarios = (roomId?: string, backendId: string = primaryBackendId) => {
+  return useQuery(backendQueries.scenarios(backendId, roomId));
 };
 
 export const useScenarioDefinition = (scenarioId: string) => {
+  const ownerKnown = useScenarioOwnerKnown(scenarioId);
   return useQuery({
-    queryKey: ['scenarios', 'definition', scenarioId],
-    queryFn: () => api.get<ScenarioDefinition>(`/scenario/definition/${scenarioId}`).then(res => res.data),
-    enabled: !!scenarioId,
+    queryKey: queryKeys.scenarios.detail(scenarioId),
+    queryFn: () => getScenarioBackend(scenarioId).apiClient.getScenarioDefinition(scenarioId),
+    enabled: ownerKnown && !!scenarioId,
   });
 };
 
-export const useScenarioState = () => {
+export const useScenarioState = (backendId: string = primaryBackendId) => {
   return useQuery({
-    queryKey: ['scenario', 'state'],
-    queryFn: () => api.get<ScenarioState>('/scenario/state').then(res => res.data),
+    queryKey: queryKeys.scenarios.state(backendId),
+    queryFn: () => getBackend(backendId).apiClient.getScenarioState(),
   });
 };
 
 // New hook for specific scenario state
 export const useSpecificScenarioState = (scenarioId: string) => {
+  const ownerKnown = useScenarioOwnerKnown(scenarioId);
   return useQuery({
     queryKey: queryKeys.scenarios.specificState(scenarioId),
-    queryFn: () => api.get<ScenarioState>(`/scenario/${scenarioId}/state`).then(res => res.data),
-    enabled: !!scenarioId,
+    queryFn: () => getScenarioBackend(scenarioId).apiClient.getSpecificScenarioState(scenarioId),
+    enabled: ownerKnown && !!scenarioId,
   });
 };
 
+// A scenario change touches the scenario state and the devices of the backend that runs it
+const invalidateAfterScenarioChange = (queryClient: ReturnType<typeof useQueryClient>, backendId: string) => {
+  queryClient.invalidateQueries({ queryKey: queryKeys.scenarios.state(backendId) });
+  queryClient.invalidateQueries({ queryKey: queryKeys.devices.all(backendId) });
+};
+
 export const useSwitchScenario = () => {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: (request: SwitchScenarioRequest) =>
-      api.post<ScenarioResponse>('/scenario/switch', request).then(res => res.data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['scenario', 'state'] });
-      queryClient.invalidateQueries({ queryKey: ['devices'] });
+    mutationFn: (request: SwitchScenarioRequest) => getScenarioBackend(request.id).apiClient.switchScenario(request),
+    onSuccess: (_data, request) => {
+      invalidateAfterScenarioChange(queryClient, getScenarioBackendId(request.id));
     },
   });
 };
 
-export const useExecuteRoleAction = () => {
+export const useExecuteRoleAction = (backendId: string = primaryBackendId) => {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: (request: ActionRequest) =>
-      api.post<ScenarioResponse>('/scenario/role_action', request).then(res => res.data),
+    mutationFn: (request: ActionRequest) => getBackend(backendId).apiClient.executeRoleAction(request),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['scenario', 'state'] });
-      queryClient.invalidateQueries({ queryKey: ['devices'] });
+      invalidateAfterScenarioChange(queryClient, backendId);
     },
   });
 };
@@ -224,11 +560,9 @@ export const useExecuteRoleAction = () => {
 export const useStartScenario = () => {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: (scenarioId: string) =>
-      api.post<ScenarioResponse>('/scenario/start', { id: scenarioId }).then(res => res.data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['scenario', 'state'] });
-      queryClient.invalidateQueries({ queryKey: ['devices'] });
+    mutationFn: (scenarioId: string) => getScenarioBackend(scenarioId).apiClient.startScenario({ id: scenarioId }),
+    onSuccess: (_data, scenarioId) => {
+      invalidateAfterScenarioChange(queryClient, getScenarioBackendId(scenarioId));
     },
   });
 };
@@ -237,102 +571,114 @@ export const useShutdownScenario = () => {
   const queryClient = useQueryClient();
   return useMutation({
     mutationFn: ({ scenarioId, graceful = true }: { scenarioId: string; graceful?: boolean }) =>
-      api.post<ScenarioResponse>('/scenario/shutdown', { id: scenarioId, graceful }).then(res => res.data),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['scenario', 'state'] });
-      queryClient.invalidateQueries({ queryKey: ['devices'] });
+      getScenarioBackend(scenarioId).apiClient.shutdownScenario({ id: scenarioId, graceful }),
+    onSuccess: (_data, { scenarioId }) => {
+      invalidateAfterScenarioChange(queryClient, getScenarioBackendId(scenarioId));
     },
   });
 };
 
 // Phase 2: Scenario Virtual Device Configuration hooks
 export const useScenarioVirtualConfig = (scenarioId: string) => {
+  const ownerKnown = useScenarioOwnerKnown(scenarioId);
   return useQuery({
-    queryKey: ['scenarios', 'virtual-config', scenarioId],
-    queryFn: () => api.get<ScenarioVirtualConfigResponse>(`/scenario/virtual_config/${scenarioId}`).then(res => res.data),
-    enabled: !!scenarioId,
+    queryKey: queryKeys.scenarios.virtualConfig(scenarioId),
+    queryFn: () => getScenarioBackend(scenarioId).apiClient.getScenarioVirtualConfig(scenarioId),
+    enabled: ownerKnown && !!scenarioId,
   });
 };
 
-export const useScenarioVirtualConfigs = () => {
+export const useScenarioVirtualConfigs = (backendId: string = primaryBackendId) => {
   return useQuery({
-    queryKey: ['scenarios', 'virtual-configs'],
-    queryFn: () => api.get<ScenarioVirtualConfigsResponse>('/scenario/virtual_configs').then(res => res.data),
+    queryKey: queryKeys.scenarios.virtualConfigs(backendId),
+    queryFn: () => getBackend(backendId).apiClient.getScenarioVirtualConfigs(),
   });
 };
 
 export const useScenarioWBConfig = (scenarioId: string) => {
+  const ownerKnown = useScenarioOwnerKnown(scenarioId);
   return useQuery({
-    queryKey: ['scenarios', 'wb-config', scenarioId],
-    queryFn: () => 
-      api.get<ScenarioVirtualConfigResponse>(`/scenario/virtual_config/${scenarioId}`)
-        .then(res => res.data.config),
-    enabled: !!scenarioId,
+    queryKey: queryKeys.scenarios.wbConfig(scenarioId),
+    queryFn: () => getScenarioBackend(scenarioId).apiClient.getScenarioVirtualConfig(scenarioId).then(res => res.config),
+    enabled: ownerKnown && !!scenarioId,
   });
 };
 
 // Group hooks
-export const useGroups = () => {
+export const useGroups = (backendId: string = primaryBackendId) => {
   return useQuery({
-    queryKey: ['groups'],
-    queryFn: () => api.get<Group[]>('/groups').then(res => res.data),
+    queryKey: queryKeys.groups.all(backendId),
+    queryFn: () => getBackend(backendId).apiClient.listGroups(),
   });
 };
 
 export const useDeviceGroups = (deviceId: string) => {
+  const ownerKnown = useDeviceOwnerKnown(deviceId);
   return useQuery({
-    queryKey: ['devices', deviceId, 'groups'],
-    queryFn: () => api.get<GroupedActionsResponse>(`/devices/${deviceId}/groups`).then(res => res.data),
-    enabled: !!deviceId,
+    queryKey: queryKeys.devices.groups(deviceId),
+    queryFn: () => getDeviceBackend(deviceId).apiClient.getDeviceGroups(deviceId),
+    enabled: ownerKnown && !!deviceId,
   });
 };
 
 export const useGroupActions = (deviceId: string, groupId: string) => {
+  const ownerKnown = useDeviceOwnerKnown(deviceId);
   return useQuery({
-    queryKey: ['devices', deviceId, 'groups', groupId, 'actions'],
-    queryFn: () => api.get<GroupActionsResponse>(`/devices/${deviceId}/groups/${groupId}/actions`).then(res => res.data),
-    enabled: !!(deviceId && groupId),
+    queryKey: queryKeys.devices.groupActions(deviceId, groupId),
+    queryFn: () => getDeviceBackend(deviceId).apiClient.getGroupActions(deviceId, groupId),
+    enabled: ownerKnown && !!(deviceId && groupId),
   });
 };
 
 // MQTT hooks
-export const usePublishMQTT = () => {
+export const usePublishMQTT = (backendId: string = primaryBackendId) => {
   return useMutation({
-    mutationFn: (message: MQTTMessage) =>
-      api.post<MQTTPublishResponse>('/publish', message).then(res => res.data),
+    mutationFn: (message: MQTTMessage) => getBackend(backendId).apiClient.publishMqttMessage(message),
   });
 };
 
 // Query key helpers for consistent caching
+// Every key starts with the backend the data comes from. Keys for a device, room or scenario
+// find the owning backend by ID; keys for whole lists take the backend explicitly.
+const backendKey = (backendId: string) => ['backend', backendId] as const;
+
 export const queryKeys = {
+  backend: backendKey,
   system: {
-    info: ['system', 'info'] as const,
-    config: ['system', 'config'] as const,
+    info: (backendId: string = primaryBackendId) => [...backendKey(backendId), 'system', 'info'] as const,
+    config: (backendId: string = primaryBackendId) => [...backendKey(backendId), 'system', 'config'] as const,
+    health: (backendId: string = primaryBackendId) => [...backendKey(backendId), 'system', 'health'] as const,
+    apiVersion: (backendId: string = primaryBackendId) => [...backendKey(backendId), 'system', 'api-version'] as const,
   },
   devices: {
-    all: ['devices'] as const,
-    configs: ['devices', 'configs'] as const,
-    config: (deviceId: string) => ['devices', deviceId, 'config'] as const,
-    state: (deviceId: string) => ['devices', deviceId, 'state'] as const,
-    persistedState: (deviceId: string) => ['devices', deviceId, 'persisted'] as const,
-    persistedStates: ['devices', 'persisted'] as const,
-    groups: (deviceId: string) => ['devices', deviceId, 'groups'] as const,
-    groupActions: (deviceId: string, groupId: string) => ['devices', deviceId, 'groups', groupId, 'actions'] as const,
+    all: (backendId: string = primaryBackendId) => [...backendKey(backendId), 'devices'] as const,
+    // Mutation key shared by device actions on every backend
+    actions: ['devices', 'action'] as const,
+    configs: (backendId: string = primaryBackendId) => [...backendKey(backendId), 'devices', 'configs'] as const,
+    config: (deviceId: string) => [...backendKey(getDeviceBackendId(deviceId)), 'devices', deviceId, 'config'] as const,
+    state: (deviceId: string) => [...backendKey(getDeviceBackendId(deviceId)), 'devices', deviceId, 'state'] as const,
+    persistedState: (deviceId: string) => [...backendKey(getDeviceBackendId(deviceId)), 'devices', deviceId, 'persisted'] as const,
+    persistedStates: (backendId: string = primaryBackendId) => [...backendKey(backendId), 'devices', 'persisted'] as const,
+    inputs: (deviceId: string) => [...backendKey(getDeviceBackendId(deviceId)), 'devices', deviceId, 'inputs'] as const,
+    apps: (deviceId: string) => [...backendKey(getDeviceBackendId(deviceId)), 'devices', deviceId, 'apps'] as const,
+    groups: (deviceId: string) => [...backendKey(getDeviceBackendId(deviceId)), 'devices', deviceId, 'groups'] as const,
+    groupActions: (deviceId: string, groupId: string) =>
+      [...backendKey(getDeviceBackendId(deviceId)), 'devices', deviceId, 'groups', groupId, 'actions'] as const,
   },
   rooms: {
-    all: ['rooms'] as const,
-    detail: (roomId: string) => ['rooms', roomId] as const,
+    all: (backendId: string = primaryBackendId) => [...backendKey(backendId), 'rooms'] as const,
+    detail: (roomId: string) => [...backendKey(getRoomBackendId(roomId)), 'rooms', roomId] as const,
   },
   scenarios: {
-    all: (roomId?: string) => ['scenarios', roomId] as const,
-    detail: (scenarioId: string) => ['scenarios', 'definition', scenarioId] as const,
-    state: ['scenario', 'state'] as const,
-    specificState: (scenarioId: string) => ['scenarios', 'state', scenarioId] as const,
-    virtualConfig: (scenarioId: string) => ['scenarios', 'virtual-config', scenarioId] as const,
-    virtualConfigs: ['scenarios', 'virtual-configs'] as const,
-    wbConfig: (scenarioId: string) => ['scenarios', 'wb-config', scenarioId] as const,
+    all: (roomId?: string, backendId: string = primaryBackendId) => [...backendKey(backendId), 'scenarios', roomId] as const,
+    detail: (scenarioId: string) => [...backendKey(getScenarioBackendId(scenarioId)), 'scenarios', 'definition', scenarioId] as const,
+    state: (backendId: string = primaryBackendId) => [...backendKey(backendId), 'scenario', 'state'] as const,
+    specificState: (scenarioId: string) => [...backendKey(getScenarioBackendId(scenarioId)), 'scenarios', 'state', scenarioId] as const,
+    virtualConfig: (scenarioId: string) => [...backendKey(getScenarioBackendId(scenarioId)), 'scenarios', 'virtual-config', scenarioId] as const,
+    virtualConfigs: (backendId: string = primaryBackendId) => [...backendKey(backendId), 'scenarios', 'virtual-configs'] as const,
+    wbConfig: (scenarioId: string) => [...backendKey(getScenarioBackendId(scenarioId)), 'scenarios', 'wb-config', scenarioId] as const,
   },
   groups: {
-    all: ['groups'] as const,
+    all: (backendId: string = primaryBackendId) => [...backendKey(backendId), 'groups'] as const,
   },
-}; 
\ No newline at end of file
+};
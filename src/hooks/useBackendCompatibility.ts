@@ -0,0 +1,75 @@
+import { useCallback, useMemo } from 'react';
+import type { GenerationStamp } from '../types/RemoteControlLayout';
+import { API_SCHEMA_VERSION } from '../lib/apiClient.gen';
+import { getDeviceBackendId, getScenarioBackendId } from '../lib/backends';
+import { useAllDeviceConfigs, useBackendApiVersion, useScenarioVirtualConfig, useSystemInfo } from './useApi';
+
+const majorVersion = (version: string | null | undefined): number | null => {
+  const match = version?.match(/^v?(\d+)/);
+  return match ? Number(match[1]) : null;
+};
+
+export interface BackendCompatibility {
+  // One message per major version difference between the page's stamp and what runs now
+  mismatches: string[];
+  // Whether the page offers an action its device no longer advertises
+  isWithdrawn: (actionName: string) => boolean;
+}
+
+// Both sides known and of a different major version
+const isMajorMismatch = (stamped: string | null | undefined, live: string | null | undefined) => {
+  const stampedMajor = majorVersion(stamped);
+  const liveMajor = majorVersion(live);
+  return stampedMajor !== null && liveMajor !== null && stampedMajor !== liveMajor;
+};
+
+/**
+ * Compares what a generated page was generated against with the live backend, like with like by
+ * major version: the backend build version from /system, the API version the backend serves and
+ * the one this build speaks, and for scenario pages the version of the scenario's virtual config.
+ * It also checks the device's current commands. Pages without a stamp (generated before
+ * stamping) pass everything.
+ */
+export function useBackendCompatibility(deviceId: string, generatedAgainst?: GenerationStamp): BackendCompatibility {
+  // Only scenario pages carry a scenario config version, even if it is null
+  const isScenarioPage = generatedAgainst?.scenarioConfigVersion !== undefined;
+  const backendId = isScenarioPage ? getScenarioBackendId(deviceId) : getDeviceBackendId(deviceId);
+  const { data: systemInfo } = useSystemInfo(backendId);
+  const { data: apiVersion } = useBackendApiVersion(backendId);
+  const { data: configs } = useAllDeviceConfigs(backendId);
+  const { data: scenarioConfig } = useScenarioVirtualConfig(generatedAgainst?.scenarioConfigVersion ? deviceId : '');
+
+  const mismatches = useMemo(() => {
+    if (!generatedAgainst) {
+      return [];
+    }
+    const messages: string[] = [];
+    if (isMajorMismatch(generatedAgainst.backendVersion, systemInfo?.version)) {
+      messages.push(`generated against backend ${generatedAgainst.backendVersion}, backend runs ${systemInfo?.version}`);
+    }
+    if (isMajorMismatch(generatedAgainst.schemaVersion, apiVersion)) {
+      messages.push(`generated for API ${generatedAgainst.schemaVersion}, backend serves API ${apiVersion}`);
+    }
+    if (isMajorMismatch(generatedAgainst.schemaVersion, API_SCHEMA_VERSION)) {
+      messages.push(`generated for API ${generatedAgainst.schemaVersion}, this UI speaks ${API_SCHEMA_VERSION}`);
+    }
+    if (isMajorMismatch(generatedAgainst.scenarioConfigVersion, scenarioConfig?.version)) {
+      messages.push(`generated against scenario config ${generatedAgainst.scenarioConfigVersion}, backend has ${scenarioConfig?.version}`);
+    }
+    return messages;
+  }, [generatedAgainst, systemInfo?.version, apiVersion, scenarioConfig?.version]);
+
+  const commands = configs?.[deviceId]?.commands;
+  const withdrawn = useMemo(() => {
+    // Nothing to compare until the configs load; scenario pages have no device config
+    if (!commands || !generatedAgainst?.advertisedActions) {
+      return new Set<string>();
+    }
+    const advertised = new Set(Object.entries(commands).map(([name, command]) => command.action || name));
+    return new Set(generatedAgainst.advertisedActions.filter(action => !advertised.has(action)));
+  }, [commands, generatedAgainst]);
+
+  const isWithdrawn = useCallback((actionName: string) => withdrawn.has(actionName), [withdrawn]);
+
+  return { mismatches, isWithdrawn };
+}
@@ -1,6 +1,8 @@
 import { useEffect } from 'react';
+import { useQueries, type UseQueryResult } from '@tanstack/react-query';
 import { useRoomStore } from '../stores/useRoomStore';
-import { useRooms, useAllDeviceConfigs, useScenarios } from './useApi';
+import { backendQueries } from './useApi';
+import { runtimeConfig } from '../config/runtime';
 
 // Type for device configuration from the API
 interface DeviceConfig {
@@ -14,30 +16,63 @@ interface DeviceConfig {
   [key: string]: any; // For any additional properties
 }
 
+// Data of one list from every backend, paired with the backend it came from.
+// A backend that fails does not hide the others; the first error is reported.
+const combineBackendResults = <T,>(results: UseQueryResult<T>[]) => ({
+  data: results.flatMap((result, index) =>
+    result.data === undefined ? [] : [{ backendId: runtimeConfig.backends[index].id, data: result.data }]
+  ),
+  isSuccess: results.some(result => result.isSuccess),
+  isLoading: results.some(result => result.isLoading),
+  error: results.find(result => result.error)?.error ?? null,
+});
+
 /**
  * Custom hook that synchronizes API data with Zustand stores
- * This bridges the gap between TanStack Query (API layer) and Zustand (state management)
+ * This bridges the gap between TanStack Query (API layer) and Zustand (state management).
+ * Rooms, devices and scenarios are loaded from every configured backend and tagged with it.
  */
 export const useDataSync = () => {
   const { setRooms, setDevices, setScenarios } = useRoomStore();
+  const backendIds = runtimeConfig.backends.map(backend => backend.id);
   
-  // Fetch data using TanStack Query hooks
-  const { data: roomsData, isSuccess: roomsSuccess, error: roomsError, isLoading: roomsLoading } = useRooms();
-  const { data: devicesData, isSuccess: devicesSuccess, error: devicesError, isLoading: devicesLoading } = useAllDeviceConfigs();
-  const { data: scenariosData, isSuccess: scenariosSuccess, error: scenariosError, isLoading: scenariosLoading } = useScenarios();
+  // Fetch data from every backend using TanStack Query
+  const { data: roomsData, isSuccess: roomsSuccess, error: roomsError, isLoading: roomsLoading } = useQueries({
+    queries: backendIds.map(backendId => backendQueries.rooms(backendId)),
+    combine: combineBackendResults,
+  });
+  const { data: devicesData, isSuccess: devicesSuccess, error: devicesError, isLoading: devicesLoading } = useQueries({
+    queries: backendIds.map(backendId => backendQueries.deviceConfigs(backendId)),
+    combine: combineBackendResults,
+  });
+  const { data: scenariosData, isSuccess: scenariosSuccess, error: scenariosError, isLoading: scenariosLoading } = useQueries({
+    queries: backendIds.map(backendId => backendQueries.scenarios(backendId)),
+    combine: combineBackendResults,
+  });
 
-  // Sync rooms data
+  // Sync rooms data - a room defined on several backends is merged into one with all their devices
   useEffect(() => {
-    if (roomsSuccess && roomsData) {
-      const rooms = roomsData.map((room) => ({
-        id: room.room_id,
-        name: {
-          en: room.names.en || room.names.english || Object.values(room.names)[0] || room.room_id,
-          ru: room.names.ru || room.names.russian || Object.values(room.names)[0] || room.room_id,
-        },
-        devices: room.devices || [], // Include devices array from API
-      }));
-      setRooms(rooms);
+    if (roomsSuccess) {
+      const rooms = new Map<string, { id: string; name: { en: string; ru: string }; devices: string[]; backendId: string }>();
+      roomsData.forEach(({ backendId, data }) => {
+        data.forEach((room) => {
+          const existing = rooms.get(room.room_id);
+          if (existing) {
+            existing.devices.push(...(room.devices || []).filter(deviceId => !existing.devices.includes(deviceId)));
+            return;
+          }
+          rooms.set(room.room_id, {
+            id: room.room_id,
+            name: {
+              en: room.names.en || room.names.english || Object.values(room.names)[0] || room.room_id,
+              ru: room.names.ru || room.names.russian || Object.values(room.names)[0] || room.room_id,
+            },
+            devices: [...(room.devices || [])], // Include devices array from API
+            backendId,
+          });
+        });
+      });
+      setRooms(Array.from(rooms.values()));
     } else if (roomsError) {
       console.error('❌ Rooms API error:', roomsError);
     }
@@ -45,30 +80,35 @@ export const useDataSync = () => {
 
   // Sync devices data - needs to be after rooms to map device->room relationships
   useEffect(() => {
-    if (devicesSuccess && devicesData && roomsSuccess && roomsData) {
+    if (devicesSuccess && roomsSuccess) {
       // Create a map from device ID to room ID
       const deviceToRoomMap: Record<string, string> = {};
-      roomsData.forEach((room) => {
-        if (room.devices) {
-          room.devices.forEach((deviceId) => {
-            deviceToRoomMap[deviceId] = room.room_id;
-          });
-        }
+      roomsData.forEach(({ data }) => {
+        data.forEach((room) => {
+          if (room.devices) {
+            room.devices.forEach((deviceId) => {
+              deviceToRoomMap[deviceId] = room.room_id;
+            });
+          }
+        });
       });
       
-      // devicesData is a flat object where keys are device IDs and values are device configs
-      const devices = Object.entries(devicesData as Record<string, DeviceConfig>).map(([deviceId, config]) => {
-        const roomId = deviceToRoomMap[deviceId] || '';
-        return {
-          id: deviceId,
-          name: {
-            en: config.device_name || deviceId,
-            ru: config.device_name || deviceId,
-          },
-          roomId: roomId, // Use the mapped room ID
-          type: config.device_class || 'unknown',
-        };
-      });
+      // Each backend's data is a flat object where keys are device IDs and values are device configs
+      const devices = devicesData.flatMap(({ backendId, data }) =>
+        Object.entries(data as Record<string, DeviceConfig>).map(([deviceId, config]) => {
+          const roomId = deviceToRoomMap[deviceId] || '';
+          return {
+            id: deviceId,
+            name: {
+              en: config.device_name || deviceId,
+              ru: config.device_name || deviceId,
+            },
+            roomId: roomId, // Use the mapped room ID
+            type: config.device_class || 'unknown',
+            backendId,
+          };
+        })
+      );
       setDevices(devices);
     } else if (devicesError) {
       console.error('❌ Devices API error:', devicesError);
@@ -77,8 +117,8 @@ export const useDataSync = () => {
 
   // Sync scenarios data
   useEffect(() => {
-    if (scenariosSuccess && scenariosData) {
-      const scenarios = scenariosData.map((scenario) => ({
+    if (scenariosSuccess) {
+      const scenarios = scenariosData.flatMap(({ backendId, data }) => data.map((scenario) => ({
         id: scenario.scenario_id,
         name: {
           en: scenario.name,
@@ -89,7 +129,8 @@ export const useDataSync = () => {
           ru: scenario.description,
         } : undefined,
         roomId: scenario.room_id || undefined,
-      }));
+        backendId,
+      })));
       setScenarios(scenarios);
     } else if (scenariosError) {
       console.error('❌ Scenarios API error:', scenariosError);
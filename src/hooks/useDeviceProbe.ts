@@ -0,0 +1,81 @@
+import { useCallback, useState } from 'react';
+import axios from 'axios';
+import { getDeviceBackend } from '../lib/backends';
+import { isBackendUnreachable } from '../lib/actionErrors';
+import { useRoomStore } from '../stores/useRoomStore';
+
+// A probe that does not answer within this time counts as unreachable
+const PROBE_TIMEOUT_MS = 5_000;
+// Probes run a few at a time so a large house does not flood the bridge
+const PROBE_CONCURRENCY = 4;
+
+export type ProbeStatus = 'pending' | 'reachable' | 'error' | 'unreachable';
+
+export interface DeviceProbeResult {
+  deviceId: string;
+  status: ProbeStatus;
+  latencyMs: number | null;
+  // HTTP status of a failed probe (null when the request got no response)
+  httpStatus: number | null;
+  message: string | null;
+  // The device's own connectivity flag from its state, when it reports one
+  deviceConnected: boolean | null;
+}
+
+const probeDevice = async (deviceId: string): Promise<DeviceProbeResult> => {
+  const started = performance.now();
+  try {
+    const state = await getDeviceBackend(deviceId).apiClient.getDeviceState(deviceId, { timeout: PROBE_TIMEOUT_MS });
+    const connected = (state as { connected?: unknown }).connected;
+    return {
+      deviceId,
+      status: 'reachable',
+      latencyMs: Math.round(performance.now() - started),
+      httpStatus: null,
+      message: state.error ? String(state.error) : null,
+      deviceConnected: typeof connected === 'boolean' ? connected : null,
+    };
+  } catch (error) {
+    return {
+      deviceId,
+      status: isBackendUnreachable(error) ? 'unreachable' : 'error',
+      latencyMs: Math.round(performance.now() - started),
+      httpStatus: axios.isAxiosError(error) ? error.response?.status ?? null : null,
+      message: error instanceof Error ? error.message : String(error),
+      deviceConnected: null,
+    };
+  }
+};
+
+/**
+ * Reachability probe for every known device: calls each device's state endpoint on the backend
+ * that owns it and records whether it answered, how fast, and with what error.
+ */
+export function useDeviceProbe() {
+  const [results, setResults] = useState<Record<string, DeviceProbeResult>>({});
+  const [isProbing, setIsProbing] = useState(false);
+
+  const probeAll = useCallback(async () => {
+    const deviceIds = useRoomStore.getState().devices.map(device => device.id);
+    setIsProbing(true);
+    setResults(Object.fromEntries(deviceIds.map(deviceId => [deviceId, {
+      deviceId, status: 'pending' as const, latencyMs: null, httpStatus: null, message: null, deviceConnected: null,
+    }])));
+
+    const queue = [...deviceIds];
+    const worker = async () => {
+      for (let deviceId = queue.shift(); deviceId; deviceId = queue.shift()) {
+        const result = await probeDevice(deviceId);
+        setResults(previous => ({ ...previous, [deviceId]: result }));
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: Math.min(PROBE_CONCURRENCY, deviceIds.length) }, worker));
+    } finally {
+      setIsProbing(false);
+    }
+  }, []);
+
+  return { results, isProbing, probeAll };
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
 import { BaseDeviceState, StateUpdateCallback, StateSubscription } from '../types/BaseDeviceState';
-import { useDeviceState as useDeviceStateQuery, useExecuteDeviceAction } from './useApi';
+import { useDeviceState as useDeviceStateQuery, useExecuteDeviceAction, queryKeys } from './useApi';
 import { createDefaultDeviceState, mapBackendDataToState, createStateUpdate } from '../utils/stateUtils';
 
 interface EnhancedDeviceStateHook {
@@ -105,7 +105,7 @@ export function useDeviceState(deviceId: string): EnhancedDeviceStateHook {
     
     // Invalidate React Query cache to trigger refetch
     if (updates.device_id || updates.device_name || updates.last_command || updates.error) {
-      queryClient.invalidateQueries({ queryKey: ['devices', deviceId, 'state'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.devices.state(deviceId) });
     }
   }, [deviceId, queryClient]);
   
@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from 'react';
+import { getExternalChanges, subscribeExternalChanges, type ExternalChange } from '../lib/externalChanges';
+
+/**
+ * The latest change a physical remote, wb-rules or another client made to a device, while it is
+ * still recent enough to be marked; null otherwise
+ */
+export function useExternalChange(deviceId?: string | null): ExternalChange | null {
+  return useSyncExternalStore(
+    subscribeExternalChanges,
+    () => getExternalChanges().find(change => change.deviceId === deviceId) ?? null
+  );
+}
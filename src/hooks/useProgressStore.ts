@@ -1,6 +1,6 @@
 import { useCallback, useEffect, useState } from 'react';
 
-interface ProgressMessage {
+export interface ProgressMessage {
   id: string;
   deviceId?: string;
   deviceName?: string;
@@ -0,0 +1,105 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { getAllBackends, getBackend, primaryBackendId } from '../lib/backends';
+import type { ChannelStatus, RealtimeChannel, RealtimeEventHandler, RealtimeStatus } from '../types/realtime';
+
+const CHANNELS: RealtimeChannel[] = ['devices', 'scenarios', 'system'];
+
+/**
+ * Subscribe a handler to every event on a realtime channel of every backend.
+ * The handler may change between renders without resubscribing.
+ */
+export function useRealtimeEvents<C extends RealtimeChannel>(
+  channel: C,
+  handler: RealtimeEventHandler<C>,
+  enabled: boolean = true
+): void {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    const unsubscribers = getAllBackends().map(backend =>
+      backend.realtime.subscribe(channel, (event) => handlerRef.current(event))
+    );
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [channel, enabled]);
+}
+
+// A channel counts as connected only when it is connected on every backend
+const combineChannel = (statuses: ChannelStatus[], labels: string[]): ChannelStatus => {
+  const failed = statuses.findIndex(status => status.error);
+  const eventTimes = statuses.map(status => status.lastEventAt).filter((at): at is number => at !== null);
+  return {
+    connected: statuses.every(status => status.connected),
+    error: failed === -1
+      ? null
+      : statuses.length > 1 ? `${labels[failed]}: ${statuses[failed].error}` : statuses[failed].error,
+    reconnectAttempts: Math.max(...statuses.map(status => status.reconnectAttempts)),
+    retriesExhausted: statuses.some(status => status.retriesExhausted),
+    lastEventId: statuses[0].lastEventId,
+    lastEventAt: eventTimes.length > 0 ? Math.max(...eventTimes) : null,
+    invalidEvents: statuses.reduce((total, status) => total + status.invalidEvents, 0),
+    lastInvalidReason: statuses.find(status => status.lastInvalidReason)?.lastInvalidReason ?? null,
+  };
+};
+
+// useSyncExternalStore needs a stable snapshot, so the combined status is only rebuilt when a backend's changes
+let combinedSources: RealtimeStatus[] = [];
+let combinedStatus: RealtimeStatus | null = null;
+
+const getCombinedStatus = (): RealtimeStatus => {
+  const backends = getAllBackends();
+  const sources = backends.map(backend => backend.realtime.getStatus());
+  if (combinedStatus && sources.length === combinedSources.length && sources.every((s, i) => s === combinedSources[i])) {
+    return combinedStatus;
+  }
+  if (sources.length === 1) {
+    combinedStatus = sources[0];
+  } else {
+    const labels = backends.map(backend => backend.config.label);
+    combinedStatus = Object.fromEntries(
+      CHANNELS.map(channel => [channel, combineChannel(sources.map(source => source[channel]), labels)])
+    ) as RealtimeStatus;
+  }
+  combinedSources = sources;
+  return combinedStatus;
+};
+
+const subscribeStatus = (onChange: () => void) => {
+  const unsubscribers = getAllBackends().map(backend => backend.realtime.onStatusChange(onChange));
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+};
+
+/**
+ * Connection status of all realtime channels, combined across backends
+ */
+export function useRealtimeStatus(): RealtimeStatus {
+  return useSyncExternalStore(subscribeStatus, getCombinedStatus);
+}
+
+/**
+ * Connection status of the realtime channels of a single backend
+ */
+export function useBackendRealtimeStatus(backendId: string = primaryBackendId): RealtimeStatus {
+  const { realtime } = getBackend(backendId);
+  return useSyncExternalStore(
+    (onChange) => realtime.onStatusChange(onChange),
+    () => realtime.getStatus()
+  );
+}
+
+// How state reaches the UI: pushed over SSE, or polled every statePollIntervalSec
+export type StateUpdateMode = 'realtime' | 'polling';
+
+/**
+ * Realtime is down once every channel has failed - with an error or after its retries ran out.
+ * Channels that are connecting for the first time do not count as down.
+ */
+export const isRealtimeDown = (status: RealtimeStatus): boolean =>
+  CHANNELS.every(channel => !status[channel].connected && (status[channel].error !== null || status[channel].retriesExhausted));
+
+export function useStateUpdateMode(backendId: string = primaryBackendId): StateUpdateMode {
+  return isRealtimeDown(useBackendRealtimeStatus(backendId)) ? 'polling' : 'realtime';
+}
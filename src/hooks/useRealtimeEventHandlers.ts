@@ -0,0 +1,47 @@
+import { useEffect, useRef, useState } from 'react';
+import { notifyManager } from '@tanstack/react-query';
+import { realtimeEventRegistry, type QueuedRealtimeEvent, type RealtimeEventContext } from '../lib/realtime/eventRegistry';
+import { registerDefaultEventHandlers } from '../lib/realtime/handlers';
+import { FrameBatcher } from '../lib/realtime/FrameBatcher';
+import { useLogStore } from '../stores/useLogStore';
+import { useNotificationStore } from '../stores/useNotificationStore';
+import { useScenarioTimelineStore } from '../stores/useScenarioTimelineStore';
+import { useProgressStore } from './useProgressStore';
+import { useApplyDeviceStateChange } from './useApi';
+import { useRealtimeEvents } from './useRealtime';
+
+/**
+ * Dispatch every realtime event of every backend to the handlers in realtimeEventRegistry,
+ * with the built-in handlers registered while mounted. Events are buffered and dispatched once
+ * per animation frame, so a burst (a scenario starting up) re-renders once rather than per event.
+ */
+export function useRealtimeEventHandlers() {
+  const { addLog } = useLogStore();
+  const { addMessage } = useProgressStore();
+  const addNotification = useNotificationStore(state => state.addNotification);
+  const addScenarioTimelineEntry = useScenarioTimelineStore(state => state.addTimelineEntry);
+  const applyDeviceStateChange = useApplyDeviceStateChange();
+
+  const context: RealtimeEventContext = {
+    applyDeviceStateChange,
+    addProgressMessage: addMessage,
+    addLog,
+    addNotification,
+    addScenarioTimelineEntry,
+  };
+  const contextRef = useRef(context);
+  contextRef.current = context;
+
+  const [batcher] = useState(() => new FrameBatcher<QueuedRealtimeEvent>(events => {
+    // One cache notification per query for the whole batch
+    notifyManager.batch(() => realtimeEventRegistry.dispatchBatch(events, contextRef.current));
+  }));
+
+  // Nothing buffered is lost on unmount (cleanups run in order, so before the handlers go)
+  useEffect(() => () => batcher.flush(), [batcher]);
+  useEffect(() => registerDefaultEventHandlers(realtimeEventRegistry), []);
+
+  useRealtimeEvents('devices', event => batcher.push({ channel: 'devices', event }));
+  useRealtimeEvents('scenarios', event => batcher.push({ channel: 'scenarios', event }));
+  useRealtimeEvents('system', event => batcher.push({ channel: 'system', event }));
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import { useExecuteDeviceAction, useDeviceState as useDeviceStateQuery } from './useApi';
+import { useQueryClient } from '@tanstack/react-query';
+import { useExecuteDeviceAction, useDeviceState as useDeviceStateQuery, deviceQueries } from './useApi';
 import type { DropdownOption, RemoteDeviceStructure } from '../types/RemoteControlLayout';
 
 // NOTE: This file uses optimized dependency arrays to prevent infinite re-renders.
@@ -28,7 +29,7 @@ export function useInputsData(deviceStructure: RemoteDeviceStructure): UseInputs
   const [inputs, setInputs] = useState<DropdownOption[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const executeActionQuery = useExecuteDeviceAction();
+  const queryClient = useQueryClient();
   
   // Get device state for power checking (for non-WirenboardIR devices)
   const { data: deviceState } = useDeviceStateQuery(deviceStructure.deviceId);
@@ -76,14 +77,7 @@ export function useInputsData(deviceStructure: RemoteDeviceStructure): UseInputs
 
   // Power state checking is working correctly
 
-  // Stabilize executeAction with useCallback to prevent dependency changes
-  const executeAction = useCallback(
-    (params: { deviceId: string; action: { action: string; params: {} } }) => 
-      executeActionQuery.mutateAsync(params),
-    [executeActionQuery.mutateAsync]
-  );
-
-  const fetchInputs = useCallback(async () => {
+  const fetchInputs = useCallback(async (force = false) => {
     // Check device power state before making API calls
 
     setLoading(true);
@@ -127,28 +121,16 @@ export function useInputsData(deviceStructure: RemoteDeviceStructure): UseInputs
           return;
         }
 
-        // 📺 Execute get_available_inputs API call (only for powered-on devices)
-        console.log(`[${deviceId}] Calling get_available_inputs API`);
-        const response = await executeAction({
-          deviceId,
-          action: { action: 'get_available_inputs', params: {} }
-        });
+        // 📺 get_available_inputs (only for powered-on devices), served from the cache when a room prefetch warmed it
+        const data = await queryClient.fetchQuery({ ...deviceQueries.inputs(deviceId), staleTime: force ? 0 : undefined });
+        const inputOptions: DropdownOption[] = data.map((input: any) => ({
+          id: input.input_id,
+          displayName: input.input_name,
+          description: input.input_name
+        }));
 
-        if (response.success && Array.isArray(response.data)) {
-          const inputOptions: DropdownOption[] = response.data.map((input: any) => ({
-            id: input.input_id,
-            displayName: input.input_name,
-            description: input.input_name
-          }));
-          
-          console.log(`✅ [${deviceId}] Successfully fetched ${inputOptions.length} inputs`);
-          setInputs(inputOptions);
-        } else {
-          const errorMsg = response.error || 'Failed to fetch inputs';
-          console.error(`❌ [${deviceId}] Inputs API failed:`, errorMsg);
-          setError(errorMsg);
-          setInputs([]);
-        }
+        console.log(`✅ [${deviceId}] Successfully fetched ${inputOptions.length} inputs`);
+        setInputs(inputOptions);
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -165,14 +147,14 @@ export function useInputsData(deviceStructure: RemoteDeviceStructure): UseInputs
     isWirenboardIR,
     usesCommands,
     inputsFromCommands,
-    executeAction,
+    queryClient,
     devicePower,
     deviceConnected,
     hasDeviceState
   ]);
 
   const refetch = useCallback(() => {
-    fetchInputs();
+    fetchInputs(true);
   }, [fetchInputs]);
 
   useEffect(() => {
@@ -190,7 +172,7 @@ export function useAppsData(deviceStructure: RemoteDeviceStructure): UseAppsData
   const [apps, setApps] = useState<DropdownOption[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const executeActionQuery = useExecuteDeviceAction();
+  const queryClient = useQueryClient();
   
   // Get device state for power checking (for network-connected devices)
   const { data: deviceState } = useDeviceStateQuery(deviceStructure.deviceId);
@@ -228,14 +210,7 @@ export function useAppsData(deviceStructure: RemoteDeviceStructure): UseAppsData
 
   // Power state checking is working correctly
 
-  // Stabilize executeAction with useCallback to prevent dependency changes
-  const executeAction = useCallback(
-    (params: { deviceId: string; action: { action: string; params: {} } }) => 
-      executeActionQuery.mutateAsync(params),
-    [executeActionQuery.mutateAsync]
-  );
-
-  const fetchApps = useCallback(async () => {
+  const fetchApps = useCallback(async (force = false) => {
     // Check device power state before making API calls
 
     setLoading(true);
@@ -277,28 +252,16 @@ export function useAppsData(deviceStructure: RemoteDeviceStructure): UseAppsData
         return;
       }
 
-      // 📱 Execute get_available_apps API call (only for powered-on devices)
-      console.log(`[${deviceId}] Calling get_available_apps API`);
-      const response = await executeAction({
-        deviceId,
-        action: { action: 'get_available_apps', params: {} }
-      });
+      // 📱 get_available_apps (only for powered-on devices), served from the cache when a room prefetch warmed it
+      const data = await queryClient.fetchQuery({ ...deviceQueries.apps(deviceId), staleTime: force ? 0 : undefined });
+      const appOptions: DropdownOption[] = data.map((app: any) => ({
+        id: app.app_id,
+        displayName: app.app_name,
+        description: app.app_name
+      }));
 
-      if (response.success && Array.isArray(response.data)) {
-        const appOptions: DropdownOption[] = response.data.map((app: any) => ({
-          id: app.app_id,
-          displayName: app.app_name,
-          description: app.app_name
-        }));
-        
-        console.log(`✅ [${deviceId}] Successfully fetched ${appOptions.length} apps`);
-        setApps(appOptions);
-      } else {
-        const errorMsg = response.error || 'Failed to fetch apps';
-        console.error(`❌ [${deviceId}] Apps API failed:`, errorMsg);
-        setError(errorMsg);
-        setApps([]);
-      }
+      console.log(`✅ [${deviceId}] Successfully fetched ${appOptions.length} apps`);
+      setApps(appOptions);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error(`❌ [${deviceId}] Error in fetchApps:`, errorMessage);
@@ -312,14 +275,14 @@ export function useAppsData(deviceStructure: RemoteDeviceStructure): UseAppsData
     deviceId,
     hasAppsCapability,
     usesAppsAPI,
-    executeAction,
+    queryClient,
     appDevicePower,
     appDeviceConnected,
     appHasDeviceState
   ]);
 
   const refetch = useCallback(() => {
-    fetchApps();
+    fetchApps(true);
   }, [fetchApps]);
 
   useEffect(() => {
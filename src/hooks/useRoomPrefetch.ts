@@ -0,0 +1,65 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import type { BaseDeviceConfig } from '../types/api';
+import type { BaseDeviceState } from '../types/BaseDeviceState';
+import { runtimeConfig } from '../config/runtime';
+import { useRoomStore } from '../stores/useRoomStore';
+import { preloadDevicePage } from '../pages/devices/index.gen';
+import { preloadScenarioPage } from '../pages/scenarios/index.gen';
+import { deviceQueries, queryKeys } from './useApi';
+
+const hasCommand = (config: BaseDeviceConfig | undefined, action: string) =>
+  Object.entries(config?.commands ?? {}).some(([name, command]) => name === action || command.action === action);
+
+/**
+ * Warms everything a room's pages need as soon as the room is selected: the page chunks of its
+ * devices and scenarios, the state of every device, and the input and app lists of devices that
+ * are powered on, so switching between them renders from cache. Fresh cached data is not refetched.
+ */
+export function useRoomPrefetch() {
+  const queryClient = useQueryClient();
+  const selectedRoomId = useRoomStore(state => state.selectedRoomId);
+  const rooms = useRoomStore(state => state.rooms);
+  const devices = useRoomStore(state => state.devices);
+
+  useEffect(() => {
+    if (!selectedRoomId || !runtimeConfig.features.roomPrefetch) {
+      return;
+    }
+
+    let cancelled = false;
+    const { getFilteredDevices, getFilteredScenarios } = useRoomStore.getState();
+
+    getFilteredScenarios().forEach(scenario => {
+      preloadScenarioPage(scenario.id).catch(() => undefined);
+    });
+
+    getFilteredDevices().forEach(device => {
+      preloadDevicePage(device.id).catch(() => undefined);
+
+      queryClient.fetchQuery(deviceQueries.state(device.id))
+        .then((state: BaseDeviceState & { power?: unknown; connected?: unknown }) => {
+          // The lists are only answered by devices that are on, like in useInputsData / useAppsData
+          if (cancelled || state.power !== 'on' || state.connected !== true) {
+            return;
+          }
+          const config = queryClient.getQueryData<Record<string, BaseDeviceConfig>>(
+            queryKeys.devices.configs(device.backendId)
+          )?.[device.id];
+          if (hasCommand(config, 'get_available_inputs')) {
+            queryClient.prefetchQuery(deviceQueries.inputs(device.id));
+          }
+          if (hasCommand(config, 'get_available_apps')) {
+            queryClient.prefetchQuery(deviceQueries.apps(device.id));
+          }
+        })
+        .catch(() => {
+          // The device page fetches again and shows the error when opened
+        });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [queryClient, selectedRoomId, rooms, devices]);
+}
@@ -0,0 +1,54 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  downloadRecording,
+  getSessionState,
+  startRecording,
+  startReplay,
+  stopRecording,
+  stopReplay,
+  subscribeSession,
+  type SessionRecording,
+} from '../lib/sessionRecorder';
+import { useLogStore } from '../stores/useLogStore';
+
+/**
+ * Session recorder state and controls. Stopping a recording downloads it; stopping a replay
+ * refetches everything so the replayed state gives way to the live one.
+ */
+export function useSessionRecorder() {
+  const queryClient = useQueryClient();
+  const { addLog } = useLogStore();
+  const state = useSyncExternalStore(subscribeSession, getSessionState);
+
+  const start = useCallback(() => {
+    startRecording();
+    addLog({ level: 'info', message: 'Session recording started' });
+  }, [addLog]);
+
+  const stop = useCallback(() => {
+    const recording = stopRecording();
+    if (recording) {
+      downloadRecording(recording);
+      addLog({
+        level: recording.truncated ? 'warn' : 'info',
+        message: recording.truncated
+          ? `Session recording stopped after ${recording.entries.length} entries (limit reached)`
+          : `Session recording saved (${recording.entries.length} entries)`,
+      });
+    }
+  }, [addLog]);
+
+  const playRecording = useCallback((recording: SessionRecording, name: string, speed: number) => {
+    startReplay(recording, name, speed);
+    addLog({ level: 'info', message: `Replaying ${name} at ${speed}x, live realtime paused` });
+  }, [addLog]);
+
+  const backToLive = useCallback(() => {
+    stopReplay();
+    queryClient.invalidateQueries();
+    addLog({ level: 'info', message: 'Replay stopped, live realtime resumed' });
+  }, [queryClient, addLog]);
+
+  return { ...state, start, stop, playRecording, backToLive };
+}
@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+import { loadStateHistory } from '../lib/stateHistory';
+
+// How often an open history view picks up newly recorded samples
+const REFRESH_INTERVAL_MS = 5000;
+
+/**
+ * Recorded state history of a device (see lib/stateHistory), kept current while shown
+ */
+export function useStateHistory(deviceId: string) {
+  return useQuery({
+    // Outside the backend-scoped keys: local data, not persisted with the query cache
+    queryKey: ['state-history', deviceId],
+    queryFn: () => loadStateHistory(deviceId),
+    enabled: !!deviceId,
+    staleTime: 0,
+    refetchInterval: REFRESH_INTERVAL_MS,
+  });
+}
@@ -0,0 +1,93 @@
+import { useEffect, useRef } from 'react';
+import { useQueryClient, type QueryKey } from '@tanstack/react-query';
+import { runtimeConfig } from '../config/runtime';
+import { getAllBackends, getDeviceBackendId, getScenarioBackendId } from '../lib/backends';
+import { useRoomStore } from '../stores/useRoomStore';
+import { useLogStore } from '../stores/useLogStore';
+import { isRealtimeDown } from './useRealtime';
+import { queryKeys } from './useApi';
+
+/**
+ * Falls back to polling when realtime is down: while every SSE channel of a backend has failed,
+ * the state of the visible device, scenario and the devices of the selected room on that backend
+ * is refetched every `statePollIntervalSec`. Polling stops as soon as any channel reconnects.
+ * Only queries something is rendering are refetched.
+ */
+export function useStatePollingFallback() {
+  const queryClient = useQueryClient();
+  const { addLog } = useLogStore();
+  const selectedDeviceId = useRoomStore(state => state.selectedDeviceId);
+  const selectedScenarioId = useRoomStore(state => state.selectedScenarioId);
+  const selectedRoomId = useRoomStore(state => state.selectedRoomId);
+  const devices = useRoomStore(state => state.devices);
+  // Last mode per backend, kept across selection changes so transitions are logged once
+  const pollingRef = useRef(new Map<string, boolean>());
+
+  useEffect(() => {
+    const targets: Array<{ backendId: string; queryKey: QueryKey }> = [];
+    if (selectedDeviceId) {
+      targets.push({ backendId: getDeviceBackendId(selectedDeviceId), queryKey: queryKeys.devices.state(selectedDeviceId) });
+    }
+    if (selectedScenarioId) {
+      const backendId = getScenarioBackendId(selectedScenarioId);
+      targets.push({ backendId, queryKey: queryKeys.scenarios.specificState(selectedScenarioId) });
+      targets.push({ backendId, queryKey: queryKeys.scenarios.state(backendId) });
+    }
+    if (selectedRoomId) {
+      devices
+        .filter(device => device.roomId === selectedRoomId && device.id !== selectedDeviceId)
+        .forEach(device => targets.push({ backendId: device.backendId, queryKey: queryKeys.devices.state(device.id) }));
+    }
+
+    const intervalMs = runtimeConfig.statePollIntervalSec * 1000;
+    const cleanups = getAllBackends().map(({ config, realtime }) => {
+      const backendTargets = targets.filter(target => target.backendId === config.id);
+      let timer: ReturnType<typeof setInterval> | null = null;
+
+      const refetch = () => {
+        // Nobody is looking; the tab resyncs when it is shown again
+        if (document.hidden) {
+          return;
+        }
+        backendTargets.forEach(({ queryKey }) => {
+          queryClient.refetchQueries({ queryKey, type: 'active' });
+        });
+      };
+
+      const update = () => {
+        const polling = isRealtimeDown(realtime.getStatus());
+        if (polling !== (pollingRef.current.get(config.id) ?? false)) {
+          pollingRef.current.set(config.id, polling);
+          addLog({
+            level: polling ? 'warn' : 'info',
+            message: polling
+              ? `Realtime unavailable (${config.label}), polling state every ${runtimeConfig.statePollIntervalSec}s`
+              : `Realtime restored (${config.label}), polling stopped`,
+            category: 'state',
+          });
+        }
+
+        if (polling && !timer) {
+          refetch();
+          timer = setInterval(refetch, intervalMs);
+        } else if (!polling && timer) {
+          clearInterval(timer);
+          timer = null;
+          // Catch up on anything that changed between the last poll and the reconnect
+          refetch();
+        }
+      };
+
+      update();
+      const unsubscribe = realtime.onStatusChange(update);
+      return () => {
+        unsubscribe();
+        if (timer) {
+          clearInterval(timer);
+        }
+      };
+    });
+
+    return () => cleanups.forEach(cleanup => cleanup());
+  }, [queryClient, addLog, selectedDeviceId, selectedScenarioId, selectedRoomId, devices]);
+}
@@ -0,0 +1,100 @@
+import { useCallback, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { runtimeConfig } from '../config/runtime';
+import { getAllBackends, getDeviceBackendId, getScenarioBackendId } from '../lib/backends';
+import { useRoomStore } from '../stores/useRoomStore';
+import { useLogStore } from '../stores/useLogStore';
+import { queryKeys, useApplyDeviceStateChange } from './useApi';
+
+/**
+ * Suspends realtime streams in tabs that stay hidden (wall tablets with their screen off,
+ * background browser tabs) and resyncs state in bulk once the tab is visible again:
+ * persisted states of all devices from every backend, then the live state of the visible
+ * device and scenario. Switching away only briefly keeps the streams running.
+ */
+export function useVisibilityResync() {
+  const queryClient = useQueryClient();
+  const applyDeviceStateChange = useApplyDeviceStateChange();
+  const { addLog } = useLogStore();
+
+  const resync = useCallback(async () => {
+    const { selectedDeviceId, selectedScenarioId } = useRoomStore.getState();
+
+    await Promise.all(getAllBackends().map(async ({ config, apiClient }) => {
+      try {
+        const states = await apiClient.getAllPersistedStates();
+        queryClient.setQueryData(queryKeys.devices.persistedStates(config.id), states);
+        Object.entries(states).forEach(([deviceId, state]) => {
+          // Only devices something has loaded; the others fetch fresh state when shown
+          if (getDeviceBackendId(deviceId) === config.id && queryClient.getQueryData(queryKeys.devices.state(deviceId))) {
+            applyDeviceStateChange(deviceId, state);
+          }
+        });
+      } catch (error) {
+        addLog({
+          level: 'warn',
+          message: `State resync failed (${config.label}): ${error instanceof Error ? error.message : String(error)}`,
+          category: 'state',
+        });
+      }
+    }));
+
+    // Persisted state may lag behind the device, so what is on screen gets its live state
+    if (selectedDeviceId) {
+      queryClient.refetchQueries({ queryKey: queryKeys.devices.state(selectedDeviceId), type: 'active' });
+    }
+    if (selectedScenarioId) {
+      queryClient.refetchQueries({ queryKey: queryKeys.scenarios.specificState(selectedScenarioId), type: 'active' });
+      queryClient.refetchQueries({ queryKey: queryKeys.scenarios.state(getScenarioBackendId(selectedScenarioId)), type: 'active' });
+    }
+
+    addLog({
+      level: 'info',
+      message: 'Tab visible again, realtime resumed and state resynced',
+      category: 'state',
+    });
+  }, [queryClient, applyDeviceStateChange, addLog]);
+
+  useEffect(() => {
+    if (!runtimeConfig.features.hiddenTabSuspend) {
+      return;
+    }
+    let suspendTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        suspendTimer ??= setTimeout(() => {
+          suspendTimer = null;
+          getAllBackends().forEach(({ realtime }) => realtime.suspend());
+        }, runtimeConfig.hiddenSuspendDelaySec * 1000);
+        return;
+      }
+
+      if (suspendTimer) {
+        // Back before anything was suspended - nothing was missed
+        clearTimeout(suspendTimer);
+        suspendTimer = null;
+        return;
+      }
+      const backends = getAllBackends();
+      // A session replay keeps the streams closed until it is stopped
+      if (backends.some(({ realtime }) => realtime.isReplaying())) {
+        return;
+      }
+      if (backends.some(({ realtime }) => realtime.isSuspended())) {
+        backends.forEach(({ realtime }) => realtime.resume());
+        resync();
+      }
+    };
+
+    // A tab opened in the background starts hidden
+    handleVisibilityChange();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      if (suspendTimer) {
+        clearTimeout(suspendTimer);
+      }
+    };
+  }, [resync]);
+}
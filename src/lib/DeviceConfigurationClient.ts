@@ -27,6 +27,24 @@ export class DeviceConfigurationClient {
       return false;
     }
   }
+  
+  async fetchBackendVersion(): Promise<string | null> {
+    const response = await fetch(`${this.baseUrl}/system`);
+    if (!response.ok) {
+      throw new Error(`API Error: ${response.status} - ${response.statusText}`);
+    }
+    const info = await response.json() as { version?: string | null };
+    return info.version ?? null;
+  }
+
+  async fetchScenarioConfigVersion(scenarioId: string): Promise<string | null> {
+    const response = await fetch(`${this.baseUrl}/scenario/virtual_config/${scenarioId}`);
+    if (!response.ok) {
+      throw new Error(`API Error: ${response.status} - ${response.statusText}`);
+    }
+    const virtualConfig = await response.json() as { version?: string | null };
+    return virtualConfig.version ?? null;
+  }
 }
 
 // Phase 1: Local Configuration Mode Support
@@ -39,6 +57,10 @@ export interface IDeviceConfigurationClient {
   fetchDeviceConfig(deviceId: string): Promise<DeviceConfig>;
   fetchDeviceGroups(deviceId: string): Promise<DeviceGroups>;
   validateConnectivity(): Promise<boolean>;
+  // Build version of the backend the configs come from (/system), null when there is none to ask
+  fetchBackendVersion(): Promise<string | null>;
+  // Version of a scenario's virtual config, null when it has none
+  fetchScenarioConfigVersion(scenarioId: string): Promise<string | null>;
 }
 
 /**
@@ -83,6 +105,22 @@ export class LocalDeviceConfigurationClient implements IDeviceConfigurationClien
     return deriveGroupsFromConfig(config);
   }
   
+  async fetchBackendVersion(): Promise<string | null> {
+    // Local config files carry no backend build version; the pages are still stamped with the
+    // API version of the snapshot (schemaVersion)
+    return null;
+  }
+
+  async fetchScenarioConfigVersion(scenarioId: string): Promise<string | null> {
+    const mapping = await this.loadMapping();
+    for (const classInfo of Object.values(mapping)) {
+      if (classInfo.resolverType === 'scenario_virtual_device' && classInfo.scenarioConfigPath) {
+        return new ScenarioVirtualDeviceResolver(classInfo.scenarioConfigPath).getScenarioVersion(scenarioId);
+      }
+    }
+    return null;
+  }
+  
   async validateConnectivity(): Promise<boolean> {
     try {
       // Check if mapping file exists
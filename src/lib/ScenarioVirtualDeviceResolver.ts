@@ -8,6 +8,8 @@ export interface ScenarioConfig {
   description: string;
   room_id: string;
   roles: Record<string, string>; // role -> device_id mapping
+  // Reported by the backend with the virtual config (ScenarioVirtualConfigResponse.version)
+  version?: string;
   devices: string[];
   startup_sequence: any[];
   shutdown_sequence: any[];
@@ -106,6 +108,14 @@ export class ScenarioVirtualDeviceResolver {
     }
   }
 
+  /**
+   * Version of a scenario config, null when the file does not state one
+   */
+  async getScenarioVersion(scenarioId: string): Promise<string | null> {
+    const scenarioConfig = await this.parseScenarioConfig(path.join(this.scenarioConfigPath, `${scenarioId}.json`));
+    return scenarioConfig.version ?? null;
+  }
+
   private async parseScenarioConfig(filePath: string): Promise<ScenarioConfig> {
     const content = await fs.readFile(filePath, 'utf8');
     const config = JSON.parse(content) as ScenarioConfig;
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { ActionScheduler, sumDeltas, type ActionParams } from '../actionScheduler';
+
+const INTERVAL_MS = 100;
+
+// A send whose commands settle when the test says so
+const createSend = () => {
+  const settles: Array<() => void> = [];
+  const send = jest.fn((_params: ActionParams) => new Promise<void>(resolve => settles.push(resolve)));
+  const sent = () => send.mock.calls.map(([params]) => params);
+  // Settles the oldest command in flight, once it has gone out
+  const settle = async () => {
+    await jest.advanceTimersByTimeAsync(0);
+    settles.shift()?.();
+    await jest.advanceTimersByTimeAsync(0);
+  };
+  return { send, sent, settle };
+};
+
+describe('ActionScheduler', () => {
+  let scheduler: ActionScheduler;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    scheduler = new ActionScheduler(INTERVAL_MS);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('sends the first command at once and coalesces the rest to the latest value', async () => {
+    const { send, sent, settle } = createSend();
+
+    [10, 20, 30, 40].forEach(level => scheduler.schedule({ deviceId: 'amp', action: 'set_volume', params: { level }, send }));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sent()).toEqual([{ level: 10 }]);
+
+    // The latest value goes out once the first command settled and the interval passed
+    await settle();
+    await jest.advanceTimersByTimeAsync(INTERVAL_MS);
+    expect(sent()).toEqual([{ level: 10 }, { level: 40 }]);
+  });
+
+  it('spaces commands to one device by the interval', async () => {
+    const { send, sent, settle } = createSend();
+
+    scheduler.schedule({ deviceId: 'amp', action: 'set_volume', params: { level: 10 }, send });
+    await settle();
+    scheduler.schedule({ deviceId: 'amp', action: 'set_bass', params: { level: 2 }, send });
+    await jest.advanceTimersByTimeAsync(INTERVAL_MS - 1);
+    expect(sent()).toEqual([{ level: 10 }]);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(sent()).toEqual([{ level: 10 }, { level: 2 }]);
+  });
+
+  it('delivers the final value after a failed send', async () => {
+    const send = jest.fn((_params: ActionParams) => Promise.reject(new Error('Device busy')));
+
+    scheduler.schedule({ deviceId: 'amp', action: 'set_volume', params: { level: 10 }, send });
+    scheduler.schedule({ deviceId: 'amp', action: 'set_volume', params: { level: 50 }, send });
+    await jest.advanceTimersByTimeAsync(INTERVAL_MS);
+
+    expect(send.mock.calls.map(([params]) => params)).toEqual([{ level: 10 }, { level: 50 }]);
+  });
+
+  it('sums pointer deltas with a merge', async () => {
+    const { send, sent, settle } = createSend();
+
+    [{ dx: 1, dy: 0 }, { dx: 2, dy: -1 }, { dx: 3, dy: -2 }].forEach(params =>
+      scheduler.schedule({ deviceId: 'tv', action: 'move_cursor', params, send, merge: sumDeltas })
+    );
+    await settle();
+    await jest.advanceTimersByTimeAsync(INTERVAL_MS);
+
+    expect(sent()).toEqual([{ dx: 1, dy: 0 }, { dx: 5, dy: -3 }]);
+  });
+
+  it('drops the commands waiting for a cancelled device only', async () => {
+    const { send, sent, settle } = createSend();
+
+    scheduler.schedule({ deviceId: 'amp', action: 'set_volume', params: { level: 10 }, send });
+    scheduler.schedule({ deviceId: 'amp', action: 'set_volume', params: { level: 40 }, send });
+    scheduler.schedule({ deviceId: 'tv', action: 'set_volume', params: { level: 5 }, send });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(scheduler.cancel('amp')).toBe(true);
+    await settle();
+    await settle();
+    await jest.advanceTimersByTimeAsync(INTERVAL_MS * 2);
+
+    expect(sent()).toEqual([{ level: 10 }, { level: 5 }]);
+    expect(scheduler.cancel('amp')).toBe(false);
+  });
+
+  it('drops a command waiting for the interval when cancelled', async () => {
+    const { send, sent, settle } = createSend();
+
+    scheduler.schedule({ deviceId: 'amp', action: 'set_volume', params: { level: 10 }, send });
+    await settle();
+    scheduler.schedule({ deviceId: 'amp', action: 'set_volume', params: { level: 20 }, send });
+
+    expect(scheduler.cancel('amp')).toBe(true);
+    await jest.advanceTimersByTimeAsync(INTERVAL_MS);
+    expect(sent()).toEqual([{ level: 10 }]);
+
+    // The device takes new commands afterwards
+    scheduler.schedule({ deviceId: 'amp', action: 'set_volume', params: { level: 30 }, send });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sent()).toEqual([{ level: 10 }, { level: 30 }]);
+  });
+});
@@ -0,0 +1,31 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { getDeviceBackendId, isDeviceOwnerKnown, isScenarioOwnerKnown } from '../backends';
+import { runtimeConfig } from '../../config/runtime';
+import { useRoomStore } from '../../stores/useRoomStore';
+
+const device = (id: string, backendId: string) => ({ id, name: { en: id, ru: id }, roomId: 'living', type: 'LgTv', backendId });
+
+describe('backend ownership', () => {
+  const backends = runtimeConfig.backends;
+
+  afterEach(() => {
+    runtimeConfig.backends = backends;
+    useRoomStore.setState({ devices: [], scenarios: [] });
+  });
+
+  it('knows the owner of anything when there is one backend', () => {
+    expect(isDeviceOwnerKnown('tv')).toBe(true);
+    expect(isScenarioOwnerKnown('movie')).toBe(true);
+  });
+
+  it('waits for the lists before it knows the owner among several backends', () => {
+    runtimeConfig.backends = [...backends, { id: 'kitchen', label: 'Kitchen', apiBaseUrl: '/kitchen', sseBaseUrl: '/kitchen' }];
+    expect(isDeviceOwnerKnown('hood')).toBe(false);
+    expect(isScenarioOwnerKnown('cooking')).toBe(false);
+
+    useRoomStore.setState({ devices: [device('hood', 'kitchen')] });
+
+    expect(isDeviceOwnerKnown('hood')).toBe(true);
+    expect(getDeviceBackendId('hood')).toBe('kitchen');
+  });
+});
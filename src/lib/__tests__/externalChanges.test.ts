@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { QueryClient } from '@tanstack/react-query';
+import { getExternalChanges, noteOwnCommand, watchExternalChanges } from '../externalChanges';
+import type { LastCommand } from '../../types/BaseDeviceState';
+
+jest.mock('idb-keyval', () => ({
+  createStore: jest.fn(),
+}));
+
+const stateKey = (deviceId: string) => ['backend', 'default', 'devices', deviceId, 'state'];
+
+const TIMEOUT_MS = 10_000;
+
+describe('watchExternalChanges', () => {
+  let queryClient: QueryClient;
+  let stopWatching: () => void;
+  let commandCount = 0;
+
+  // State echoing a command issued through the backend API, as it does for commands sent from here
+  const pushCommand = (deviceId: string, action: string, params: LastCommand['params'], volume: number) => {
+    commandCount += 1;
+    queryClient.setQueryData(stateKey(deviceId), {
+      device_id: deviceId,
+      device_name: deviceId,
+      volume,
+      last_command: { action, params, source: 'api', timestamp: `command-${commandCount}` },
+    });
+  };
+
+  const changedDevices = () => getExternalChanges().map(change => change.deviceId);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    queryClient = new QueryClient();
+    stopWatching = watchExternalChanges(queryClient);
+  });
+
+  afterEach(() => {
+    stopWatching();
+    jest.runOnlyPendingTimers();
+    jest.useRealTimers();
+  });
+
+  it('takes the echo of a command sent from here for our own', () => {
+    pushCommand('tv', 'set_volume', { level: 10 }, 10);
+    noteOwnCommand('tv', { action: 'set_volume', params: { level: 20 } }, TIMEOUT_MS);
+
+    pushCommand('tv', 'set_volume', { level: 20 }, 20);
+
+    expect(changedDevices()).toEqual([]);
+  });
+
+  it('flags a command of the same action with another value', () => {
+    pushCommand('amp', 'set_volume', { level: 10 }, 10);
+    noteOwnCommand('amp', { action: 'set_volume', params: { level: 20 } }, TIMEOUT_MS);
+
+    pushCommand('amp', 'set_volume', { level: 35 }, 35);
+    expect(changedDevices()).toEqual(['amp']);
+
+    // Our own command still excuses its echo
+    pushCommand('amp', 'set_volume', { level: 20 }, 20);
+    expect(getExternalChanges()).toHaveLength(1);
+  });
+
+  it('lets a command excuse a single echo', () => {
+    pushCommand('hood', 'power_on', null, 0);
+    noteOwnCommand('hood', { action: 'power_on' }, TIMEOUT_MS);
+
+    pushCommand('hood', 'power_on', {}, 0);
+    expect(changedDevices()).toEqual([]);
+
+    pushCommand('hood', 'power_on', null, 0);
+    expect(changedDevices()).toEqual(['hood']);
+  });
+
+  it('stops taking commands for our own once the action has timed out', () => {
+    pushCommand('projector', 'power_on', null, 0);
+    noteOwnCommand('projector', { action: 'power_on' }, TIMEOUT_MS);
+
+    jest.advanceTimersByTime(TIMEOUT_MS + 10_000);
+    pushCommand('projector', 'power_on', null, 0);
+
+    expect(changedDevices()).toEqual(['projector']);
+  });
+});
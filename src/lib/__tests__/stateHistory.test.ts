@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { QueryClient } from '@tanstack/react-query';
+import {
+  buildStateTimeline,
+  clearStateHistory,
+  loadStateHistory,
+  recordStateHistory,
+  writeUnconfirmedState,
+  type StateHistorySample,
+} from '../stateHistory';
+
+// No IndexedDB under jsdom: nothing is stored, samples stay pending in memory
+jest.mock('idb-keyval', () => ({
+  createStore: jest.fn(),
+  get: jest.fn(async () => undefined),
+  set: jest.fn(async () => undefined),
+  update: jest.fn(async () => undefined),
+  del: jest.fn(async () => undefined),
+  delMany: jest.fn(async () => undefined),
+  keys: jest.fn(async () => []),
+}));
+
+const stateKey = (deviceId: string) => ['backend', 'default', 'devices', deviceId, 'state'];
+
+describe('recordStateHistory', () => {
+  let queryClient: QueryClient;
+  let stopRecording: () => void;
+
+  beforeEach(async () => {
+    await clearStateHistory('tv');
+    queryClient = new QueryClient();
+    stopRecording = recordStateHistory(queryClient);
+    queryClient.setQueryData(stateKey('tv'), { device_id: 'tv', device_name: 'TV', power: true, volume: 10 });
+  });
+
+  afterEach(() => {
+    stopRecording();
+  });
+
+  it('records state pushed into the cache', async () => {
+    queryClient.setQueryData(stateKey('tv'), { device_id: 'tv', device_name: 'TV', power: true, volume: 15 });
+
+    const samples = await loadStateHistory('tv');
+    expect(samples.map(sample => sample.values)).toEqual([{ power: true, volume: 10 }, { volume: 15 }]);
+    expect(samples.every(sample => sample.source === 'event')).toBe(true);
+  });
+
+  it('leaves a prediction and its rollback out of the history', async () => {
+    writeUnconfirmedState('tv', () => {
+      queryClient.setQueryData(stateKey('tv'), (current: object | undefined) => ({ ...current, volume: 15 }));
+    });
+    writeUnconfirmedState('tv', () => {
+      queryClient.setQueryData(stateKey('tv'), (current: object | undefined) => ({ ...current, volume: 10 }));
+    });
+
+    const samples = await loadStateHistory('tv');
+    expect(samples.map(sample => sample.values)).toEqual([{ power: true, volume: 10 }]);
+  });
+
+  it('records the state the device reports after a prediction', async () => {
+    writeUnconfirmedState('tv', () => {
+      queryClient.setQueryData(stateKey('tv'), (current: object | undefined) => ({ ...current, volume: 15 }));
+    });
+    queryClient.setQueryData(stateKey('tv'), { device_id: 'tv', device_name: 'TV', power: true, volume: 15 });
+
+    const samples = await loadStateHistory('tv');
+    expect(samples.map(sample => sample.values)).toEqual([{ power: true, volume: 10 }, { volume: 15 }]);
+  });
+});
+
+describe('buildStateTimeline', () => {
+  const samples: StateHistorySample[] = [
+    { at: 1000, source: 'baseline', values: { power: false, volume: 5 } },
+    { at: 2000, source: 'event', values: { power: true } },
+    { at: 3000, source: 'poll', values: { volume: 12 } },
+    { at: 4000, source: 'event', values: { volume: 12, input: 'hdmi1' } },
+  ];
+
+  it('lists the changes since the given time with the value they replaced', () => {
+    const { changes } = buildStateTimeline(samples, 1500);
+
+    expect(changes).toEqual([
+      { at: 2000, field: 'power', from: false, to: true, source: 'event' },
+      { at: 3000, field: 'volume', from: 5, to: 12, source: 'poll' },
+      { at: 4000, field: 'input', from: undefined, to: 'hdmi1', source: 'event' },
+    ]);
+  });
+
+  it('starts numeric series with the value in effect at the given time', () => {
+    const { series } = buildStateTimeline(samples, 1500);
+
+    expect(series).toEqual([{ field: 'volume', points: [{ at: 1500, value: 5 }, { at: 3000, value: 12 }] }]);
+  });
+
+  it('shows the latest values when nothing changed since the given time', () => {
+    const { changes, series } = buildStateTimeline(samples, 5000);
+
+    expect(changes).toEqual([]);
+    expect(series).toEqual([{ field: 'volume', points: [{ at: 5000, value: 12 }] }]);
+  });
+});
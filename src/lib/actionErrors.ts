@@ -0,0 +1,99 @@
+import axios from 'axios';
+
+/**
+ * Thrown by useExecuteDeviceAction when the backend could not be reached
+ * and the action was stored in the outbox for replay instead.
+ */
+export class ActionQueuedError extends Error {
+  readonly outboxEntryId: string;
+
+  constructor(action: string, outboxEntryId: string) {
+    super(`Backend unreachable - "${action}" queued for replay`);
+    this.name = 'ActionQueuedError';
+    this.outboxEntryId = outboxEntryId;
+  }
+}
+
+/**
+ * Thrown by useExecuteDeviceAction when the backend did not answer within the action's timeout.
+ * The device may still have executed the command, so this is not reported as a failure.
+ */
+export class ActionTimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(action: string, timeoutMs: number) {
+    super(`"${action}" timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'ActionTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Thrown by useExecuteDeviceAction when the user cancelled a pending action.
+ */
+export class ActionCancelledError extends Error {
+  constructor(action: string) {
+    super(`"${action}" cancelled`);
+    this.name = 'ActionCancelledError';
+  }
+}
+
+/**
+ * Thrown by useExecuteDeviceAction when the backend answered but the command failed, either
+ * with an HTTP error or with `success: false`. Transient failures may succeed when repeated.
+ */
+export class ActionFailedError extends Error {
+  readonly deviceId: string;
+  readonly action: string;
+  readonly transient: boolean;
+  // HTTP status of the failed request (null when the backend reported the failure in the response)
+  readonly status: number | null;
+
+  constructor(deviceId: string, action: string, message: string, { transient, status }: { transient: boolean; status: number | null }) {
+    super(message);
+    this.name = 'ActionFailedError';
+    this.deviceId = deviceId;
+    this.action = action;
+    this.transient = transient;
+    this.status = status;
+  }
+}
+
+// Statuses that say "not right now" rather than "never"
+const TRANSIENT_STATUSES = [408, 425, 429, 500];
+
+// Backend error messages of commands that did not reach the device this time
+const TRANSIENT_MESSAGE_PATTERN = /time(d)? ?out|busy|temporar|unavailable|try again|no response|not respond|connection (reset|refused|lost)|econnreset|etimedout|ehostunreach/i;
+
+/**
+ * Classify an HTTP error or a `CommandResponse.error` message as transient or permanent
+ */
+export function isTransientActionFailure(failure: { status: number | null; message?: string | null }): boolean {
+  if (failure.status !== null && TRANSIENT_STATUSES.includes(failure.status)) {
+    return true;
+  }
+  // Other HTTP errors (unknown device or action, bad params) will not change when repeated
+  if (failure.status !== null) {
+    return false;
+  }
+  return !!failure.message && TRANSIENT_MESSAGE_PATTERN.test(failure.message);
+}
+
+/**
+ * True when an action failed because the backend is unreachable (browser offline,
+ * no HTTP response, or a gateway error from the proxy) rather than rejected by the backend.
+ */
+export function isBackendUnreachable(error: unknown): boolean {
+  // Aborted requests (timeout or user cancel) have no response either, but were ours to stop
+  if (error instanceof ActionTimeoutError || error instanceof ActionCancelledError || axios.isCancel(error)) {
+    return false;
+  }
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return true;
+  }
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    return status === undefined || status === 502 || status === 503 || status === 504;
+  }
+  return false;
+}
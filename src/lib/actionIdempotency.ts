@@ -0,0 +1,30 @@
+// Classifies device actions by whether sending them twice has the same effect as sending them once.
+// Unknown actions are treated as non-idempotent so they are never repeated without the user.
+
+const IDEMPOTENT_PATTERNS: RegExp[] = [
+  /^set_/,
+  /^get_/,
+  /^power_(on|off)$/,
+  /^launch_app$/,
+  /^(play|pause|stop)$/,
+  /^(mute|unmute)_(on|off)$/,
+  /^unmute$/,
+];
+
+const NON_IDEMPOTENT_PATTERNS: RegExp[] = [
+  /toggle/,
+  /_(up|down)$/,
+  /^(next|previous|prev)/,
+  /^mute$/,
+  /^play_pause$/,
+  /^move/,
+];
+
+export function isIdempotentAction(action: string): boolean {
+  const name = action.toLowerCase();
+
+  if (NON_IDEMPOTENT_PATTERNS.some(pattern => pattern.test(name))) {
+    return false;
+  }
+  return IDEMPOTENT_PATTERNS.some(pattern => pattern.test(name));
+}
@@ -0,0 +1,119 @@
+import { runtimeConfig } from '../config/runtime';
+
+export type ActionParams = Record<string, any>;
+
+export interface ScheduledAction {
+  deviceId: string;
+  action: string;
+  params: ActionParams;
+  // Sends the command; the next one for the same device and action waits until it settles
+  send: (params: ActionParams) => unknown;
+  // Combines a waiting command with a newer one; by default the newer one replaces it
+  merge?: (pending: ActionParams, next: ActionParams) => ActionParams;
+}
+
+interface ActionSlot {
+  deviceId: string;
+  pending: Omit<ScheduledAction, 'deviceId' | 'action'> | null;
+  inFlight: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Paces continuous commands (slider drags, pointer moves) so they do not flood the backend
+ * and IR blasters. Per device and action at most one command is in flight; everything
+ * scheduled meanwhile is coalesced into a single pending command that is sent once the
+ * in-flight one settles. Commands to one device are also spaced at least `minIntervalMs`
+ * apart. The last value scheduled is always delivered.
+ */
+export class ActionScheduler {
+  private slots = new Map<string, ActionSlot>();
+  private lastSentAt = new Map<string, number>();
+
+  constructor(private minIntervalMs: number) {}
+
+  schedule({ deviceId, action, params, send, merge }: ScheduledAction): void {
+    const key = `${deviceId}:${action}`;
+    let slot = this.slots.get(key);
+    if (!slot) {
+      slot = { deviceId, pending: null, inFlight: false, timer: null };
+      this.slots.set(key, slot);
+    }
+
+    slot.pending = {
+      params: slot.pending && merge ? merge(slot.pending.params, params) : params,
+      send,
+      merge,
+    };
+    this.flush(key, deviceId);
+  }
+
+  /**
+   * Drop the commands still waiting for a device, so nothing more goes out after its actions
+   * were cancelled. Commands in flight are cancelled by whoever sent them. Returns false when
+   * nothing was waiting.
+   */
+  cancel(deviceId: string): boolean {
+    let dropped = false;
+    this.slots.forEach((slot, key) => {
+      if (slot.deviceId !== deviceId) {
+        return;
+      }
+      dropped ||= slot.pending !== null;
+      slot.pending = null;
+      if (slot.timer) {
+        clearTimeout(slot.timer);
+        slot.timer = null;
+      }
+      if (!slot.inFlight) {
+        this.slots.delete(key);
+      }
+    });
+    return dropped;
+  }
+
+  private flush(key: string, deviceId: string): void {
+    const slot = this.slots.get(key);
+    if (!slot || slot.inFlight || slot.timer) {
+      return;
+    }
+    if (!slot.pending) {
+      this.slots.delete(key);
+      return;
+    }
+
+    const wait = (this.lastSentAt.get(deviceId) ?? 0) + this.minIntervalMs - Date.now();
+    if (wait > 0) {
+      slot.timer = setTimeout(() => {
+        slot.timer = null;
+        this.flush(key, deviceId);
+      }, wait);
+      return;
+    }
+
+    const { params, send } = slot.pending;
+    slot.pending = null;
+    slot.inFlight = true;
+    this.lastSentAt.set(deviceId, Date.now());
+
+    // Failures are reported by whoever sends; the scheduler only needs to know it settled
+    Promise.resolve()
+      .then(() => send(params))
+      .catch(() => undefined)
+      .finally(() => {
+        slot.inFlight = false;
+        this.flush(key, deviceId);
+      });
+  }
+}
+
+// Relative pointer moves add up instead of replacing each other
+export const sumDeltas = (pending: ActionParams, next: ActionParams): ActionParams =>
+  Object.fromEntries(
+    Object.keys({ ...pending, ...next }).map(name => [
+      name,
+      typeof next[name] === 'number' && typeof pending[name] === 'number' ? pending[name] + next[name] : next[name] ?? pending[name],
+    ])
+  );
+
+export const actionScheduler = new ActionScheduler(runtimeConfig.continuousActionIntervalSec * 1000);
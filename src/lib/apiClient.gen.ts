@@ -0,0 +1,137 @@
+// Auto-generated from config/openapi.json by src/scripts/generate-api-types.ts - DO NOT EDIT
+// Update the snapshot and run `npm run gen:api`; `npm run check:api` reports drift
+
+import type { AxiosInstance, AxiosRequestConfig } from 'axios';
+import type { BaseDeviceState } from '../types/BaseDeviceState';
+import type {
+  ActionRequest,
+  BaseDeviceConfig,
+  CommandResponse,
+  DeviceAction,
+  DeviceState,
+  Group,
+  GroupActionsResponse,
+  GroupedActionsResponse,
+  MQTTMessage,
+  MQTTPublishResponse,
+  PersistedStatesResponse,
+  ReloadResponse,
+  RoomDefinitionResponse,
+  ScenarioDefinition,
+  ScenarioResponse,
+  ScenarioState,
+  ScenarioVirtualConfigResponse,
+  ScenarioVirtualConfigsResponse,
+  ShutdownScenarioRequest,
+  StartScenarioRequest,
+  SwitchScenarioRequest,
+  SystemConfig,
+  SystemInfo,
+} from '../types/api';
+
+// API version of the snapshot (info.version); generated pages are stamped with it
+export const API_SCHEMA_VERSION = '1.0.0';
+
+export const createApiClient = (http: AxiosInstance) => ({
+  /** Get System Info - GET /system */
+  getSystemInfo: (config?: AxiosRequestConfig) =>
+    http.get<SystemInfo>('/system', config).then(res => res.data),
+
+  /** Get System Config - GET /config/system */
+  getSystemConfig: (config?: AxiosRequestConfig) =>
+    http.get<SystemConfig>('/config/system', config).then(res => res.data),
+
+  /** Reload System - POST /reload */
+  reloadSystem: (config?: AxiosRequestConfig) =>
+    http.post<ReloadResponse>('/reload', undefined, config).then(res => res.data),
+
+  /** Get Device Config - GET /config/device/{device_id} */
+  getDeviceConfig: (deviceId: string, config?: AxiosRequestConfig) =>
+    http.get<BaseDeviceConfig>(`/config/device/${deviceId}`, config).then(res => res.data),
+
+  /** Get All Device Configs - GET /config/devices */
+  getAllDeviceConfigs: (config?: AxiosRequestConfig) =>
+    http.get<{ [key: string]: BaseDeviceConfig }>('/config/devices', config).then(res => res.data),
+
+  /** Get Device State - GET /devices/{device_id}/state */
+  getDeviceState: (deviceId: string, config?: AxiosRequestConfig) =>
+    http.get<BaseDeviceState>(`/devices/${deviceId}/state`, config).then(res => res.data),
+
+  /** Get Device Persisted State - GET /devices/{device_id}/persisted_state */
+  getDevicePersistedState: (deviceId: string, config?: AxiosRequestConfig) =>
+    http.get<DeviceState>(`/devices/${deviceId}/persisted_state`, config).then(res => res.data),
+
+  /** Get All Persisted States - GET /devices/persisted_states */
+  getAllPersistedStates: (config?: AxiosRequestConfig) =>
+    http.get<PersistedStatesResponse>('/devices/persisted_states', config).then(res => res.data),
+
+  /** Execute Device Action - POST /devices/{device_id}/action */
+  executeDeviceAction: (deviceId: string, body: DeviceAction, config?: AxiosRequestConfig) =>
+    http.post<CommandResponse>(`/devices/${deviceId}/action`, body, config).then(res => res.data),
+
+  /** Get Device Groups - GET /devices/{device_id}/groups */
+  getDeviceGroups: (deviceId: string, config?: AxiosRequestConfig) =>
+    http.get<GroupedActionsResponse>(`/devices/${deviceId}/groups`, config).then(res => res.data),
+
+  /** Get Group Actions - GET /devices/{device_id}/groups/{group_id}/actions */
+  getGroupActions: (deviceId: string, groupId: string, config?: AxiosRequestConfig) =>
+    http.get<GroupActionsResponse>(`/devices/${deviceId}/groups/${groupId}/actions`, config).then(res => res.data),
+
+  /** List Groups - GET /groups */
+  listGroups: (config?: AxiosRequestConfig) =>
+    http.get<Array<Group>>('/groups', config).then(res => res.data),
+
+  /** List Rooms - GET /room/list */
+  listRooms: (config?: AxiosRequestConfig) =>
+    http.get<Array<RoomDefinitionResponse>>('/room/list', config).then(res => res.data),
+
+  /** Get Room - GET /room/{room_id} */
+  getRoom: (roomId: string, config?: AxiosRequestConfig) =>
+    http.get<RoomDefinitionResponse>(`/room/${roomId}`, config).then(res => res.data),
+
+  /** List Scenario Definitions - GET /scenario/definition */
+  listScenarioDefinitions: (query?: { room?: string | null }, config?: AxiosRequestConfig) =>
+    http.get<Array<ScenarioDefinition>>('/scenario/definition', { ...config, params: query }).then(res => res.data),
+
+  /** Get Scenario Definition - GET /scenario/definition/{scenario_id} */
+  getScenarioDefinition: (scenarioId: string, config?: AxiosRequestConfig) =>
+    http.get<ScenarioDefinition>(`/scenario/definition/${scenarioId}`, config).then(res => res.data),
+
+  /** Get Scenario State - GET /scenario/state */
+  getScenarioState: (config?: AxiosRequestConfig) =>
+    http.get<ScenarioState>('/scenario/state', config).then(res => res.data),
+
+  /** Get Specific Scenario State - GET /scenario/{scenario_id}/state */
+  getSpecificScenarioState: (scenarioId: string, config?: AxiosRequestConfig) =>
+    http.get<ScenarioState>(`/scenario/${scenarioId}/state`, config).then(res => res.data),
+
+  /** Switch Scenario - POST /scenario/switch */
+  switchScenario: (body: SwitchScenarioRequest, config?: AxiosRequestConfig) =>
+    http.post<ScenarioResponse>('/scenario/switch', body, config).then(res => res.data),
+
+  /** Execute Role Action - POST /scenario/role_action */
+  executeRoleAction: (body: ActionRequest, config?: AxiosRequestConfig) =>
+    http.post<ScenarioResponse>('/scenario/role_action', body, config).then(res => res.data),
+
+  /** Start Scenario - POST /scenario/start */
+  startScenario: (body: StartScenarioRequest, config?: AxiosRequestConfig) =>
+    http.post<ScenarioResponse>('/scenario/start', body, config).then(res => res.data),
+
+  /** Shutdown Scenario - POST /scenario/shutdown */
+  shutdownScenario: (body: ShutdownScenarioRequest, config?: AxiosRequestConfig) =>
+    http.post<ScenarioResponse>('/scenario/shutdown', body, config).then(res => res.data),
+
+  /** Get Scenario Virtual Config - GET /scenario/virtual_config/{scenario_id} */
+  getScenarioVirtualConfig: (scenarioId: string, config?: AxiosRequestConfig) =>
+    http.get<ScenarioVirtualConfigResponse>(`/scenario/virtual_config/${scenarioId}`, config).then(res => res.data),
+
+  /** Get Scenario Virtual Configs - GET /scenario/virtual_configs */
+  getScenarioVirtualConfigs: (config?: AxiosRequestConfig) =>
+    http.get<ScenarioVirtualConfigsResponse>('/scenario/virtual_configs', config).then(res => res.data),
+
+  /** Publish MQTT Message - POST /publish */
+  publishMqttMessage: (body: MQTTMessage, config?: AxiosRequestConfig) =>
+    http.post<MQTTPublishResponse>('/publish', body, config).then(res => res.data),
+});
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,39 @@
+import axios from 'axios';
+import { runtimeConfig } from '../config/runtime';
+import { createApiClient } from './apiClient.gen';
+import { getAuthorizationHeader, handleUnauthorized } from './auth';
+
+export type { ApiClient } from './apiClient.gen';
+
+// axios instance for one backend's REST API, with credentials attached
+export const createHttpClient = (baseURL: string) => {
+  const http = axios.create({
+    baseURL,
+    // No global timeout - device actions get their own in useExecuteDeviceAction (see deviceHandlers/actionTimeouts)
+  });
+
+  // Attach stored credentials unless the caller set its own (the login screen verifies new ones this way)
+  http.interceptors.request.use((config) => {
+    const authorization = getAuthorizationHeader();
+    if (authorization && !config.headers.Authorization) {
+      config.headers.Authorization = authorization;
+    }
+    return config;
+  });
+
+  http.interceptors.response.use(undefined, (error) => {
+    if (axios.isAxiosError(error) && error.response?.status === 401) {
+      handleUnauthorized();
+    }
+    return Promise.reject(error);
+  });
+
+  return http;
+};
+
+// Shared axios instance for the primary backend's REST API
+// Uses relative URLs when VITE_API_BASE_URL is empty (for nginx proxy)
+export const api = createHttpClient(runtimeConfig.apiBaseUrl);
+
+// Typed endpoints generated from config/openapi.json (npm run gen:api)
+export const apiClient = createApiClient(api);
@@ -0,0 +1,50 @@
+import axios from 'axios';
+import { runtimeConfig } from '../config/runtime';
+import { useAuthStore, type AuthCredentials } from '../stores/useAuthStore';
+
+export const isAuthEnabled = (): boolean => runtimeConfig.authMode !== 'none';
+
+export const formatAuthorizationHeader = ({ scheme, value }: AuthCredentials): string =>
+  `${scheme === 'bearer' ? 'Bearer' : 'Basic'} ${value}`;
+
+/**
+ * Authorization header for the stored credentials, or null when auth is disabled or nobody is logged in
+ */
+export function getAuthorizationHeader(): string | null {
+  const { credentials } = useAuthStore.getState();
+  return isAuthEnabled() && credentials ? formatAuthorizationHeader(credentials) : null;
+}
+
+/**
+ * Called when any channel (REST or SSE) answers 401: drop the credentials so the login screen shows
+ */
+export function handleUnauthorized(): void {
+  if (!isAuthEnabled() || !useAuthStore.getState().credentials) {
+    return;
+  }
+  useAuthStore.getState().logout('Your session has expired. Please sign in again.');
+}
+
+/**
+ * Build credentials for the configured auth mode from what the user entered on the login screen.
+ * Bearer logins with a token URL exchange username/password for an access token first.
+ */
+export async function createCredentials(input: { username: string; password: string; token: string }): Promise<AuthCredentials> {
+  if (runtimeConfig.authMode === 'basic') {
+    // btoa only handles Latin-1, so encode the UTF-8 bytes first
+    const bytes = new TextEncoder().encode(`${input.username}:${input.password}`);
+    const value = btoa(String.fromCharCode(...bytes));
+    return { scheme: 'basic', value, username: input.username };
+  }
+
+  if (!runtimeConfig.authTokenUrl) {
+    return { scheme: 'bearer', value: input.token.trim() };
+  }
+
+  const form = new URLSearchParams({ grant_type: 'password', username: input.username, password: input.password });
+  const response = await axios.post<{ access_token: string }>(runtimeConfig.authTokenUrl, form);
+  if (!response.data?.access_token) {
+    throw new Error('Token endpoint returned no access_token');
+  }
+  return { scheme: 'bearer', value: response.data.access_token, username: input.username };
+}
@@ -0,0 +1,83 @@
+import type { AxiosInstance } from 'axios';
+import { runtimeConfig, type BackendConfig } from '../config/runtime';
+import { api, apiClient, createHttpClient, type ApiClient } from './apiClient';
+import { createApiClient } from './apiClient.gen';
+import { createRealtimeClient, realtimeClient, type RealtimeClient } from './realtime/RealtimeClient';
+import { createDeviceTransport, deviceTransport, type DeviceTransport } from './transport';
+import { useRoomStore } from '../stores/useRoomStore';
+
+export interface BackendConnection {
+  config: BackendConfig;
+  api: AxiosInstance;
+  apiClient: ApiClient;
+  realtime: RealtimeClient;
+  transport: DeviceTransport;
+}
+
+export const primaryBackendId = runtimeConfig.backends[0].id;
+
+const connections = new Map<string, BackendConnection>();
+
+const connect = (config: BackendConfig): BackendConnection => {
+  // The primary backend reuses the shared singletons so there is one connection per backend
+  if (config.id === primaryBackendId) {
+    return { config, api, apiClient, realtime: realtimeClient, transport: deviceTransport };
+  }
+  const http = createHttpClient(config.apiBaseUrl);
+  const client = createApiClient(http);
+  return {
+    config,
+    api: http,
+    apiClient: client,
+    realtime: createRealtimeClient(config.sseBaseUrl),
+    transport: createDeviceTransport(client, config.mqttUrl),
+  };
+};
+
+/**
+ * Connection to a backend from the registry; unknown IDs resolve to the primary backend
+ */
+export function getBackend(backendId: string = primaryBackendId): BackendConnection {
+  const config = runtimeConfig.backends.find(backend => backend.id === backendId) ?? runtimeConfig.backends[0];
+  let connection = connections.get(config.id);
+  if (!connection) {
+    connection = connect(config);
+    connections.set(config.id, connection);
+  }
+  return connection;
+}
+
+export function getAllBackends(): BackendConnection[] {
+  return runtimeConfig.backends.map(backend => getBackend(backend.id));
+}
+
+// Ownership comes from useDataSync, which tags every room, device and scenario with the backend
+// it was loaded from. Until then the primary backend is assumed; see isDeviceOwnerKnown.
+export function getDeviceBackendId(deviceId: string): string {
+  return useRoomStore.getState().devices.find(device => device.id === deviceId)?.backendId ?? primaryBackendId;
+}
+
+export function getScenarioBackendId(scenarioId: string): string {
+  return useRoomStore.getState().scenarios.find(scenario => scenario.id === scenarioId)?.backendId ?? primaryBackendId;
+}
+
+export function getRoomBackendId(roomId: string): string {
+  return useRoomStore.getState().rooms.find(room => room.id === roomId)?.backendId ?? primaryBackendId;
+}
+
+// With one backend it owns everything. With several, the owner is known once useDataSync has
+// loaded the lists; queries for a device, scenario or room wait for that (see useApi), or they
+// would ask the primary backend and be cached under its key.
+const hasSingleBackend = () => runtimeConfig.backends.length === 1;
+
+export const isDeviceOwnerKnown = (deviceId: string, devices = useRoomStore.getState().devices): boolean =>
+  hasSingleBackend() || devices.some(device => device.id === deviceId);
+
+export const isScenarioOwnerKnown = (scenarioId: string, scenarios = useRoomStore.getState().scenarios): boolean =>
+  hasSingleBackend() || scenarios.some(scenario => scenario.id === scenarioId);
+
+export const isRoomOwnerKnown = (roomId: string, rooms = useRoomStore.getState().rooms): boolean =>
+  hasSingleBackend() || rooms.some(room => room.id === roomId);
+
+export const getDeviceBackend = (deviceId: string) => getBackend(getDeviceBackendId(deviceId));
+export const getScenarioBackend = (scenarioId: string) => getBackend(getScenarioBackendId(scenarioId));
@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { DEFAULT_ACTION_RETRY_POLICY, getRetryDelay, resolveActionRetryPolicy } from '../actionRetries';
+
+describe('resolveActionRetryPolicy', () => {
+  it('never retries non-idempotent actions, whatever the device class allows', () => {
+    ['power_toggle', 'volume_up', 'channel_down', 'mute', 'play_pause', 'next_track', 'move_cursor'].forEach(action => {
+      expect(resolveActionRetryPolicy('WirenboardIRDevice', action).maxAttempts).toBe(1);
+      expect(resolveActionRetryPolicy(undefined, action).maxAttempts).toBe(1);
+    });
+  });
+
+  it('never retries actions it cannot classify', () => {
+    expect(resolveActionRetryPolicy('BroadlinkKitchenHood', 'hood_light').maxAttempts).toBe(1);
+  });
+
+  it('retries idempotent actions by the policy of the device class', () => {
+    expect(resolveActionRetryPolicy('WirenboardIRDevice', 'power_on')).toEqual({ maxAttempts: 3, baseDelayMs: 300, maxDelayMs: 1_500 });
+    expect(resolveActionRetryPolicy('ScenarioDevice', 'power_on').maxAttempts).toBe(1);
+    expect(resolveActionRetryPolicy('UnknownDevice', 'set_volume')).toEqual(DEFAULT_ACTION_RETRY_POLICY);
+  });
+
+  it('applies per-action overrides on top of the class policy', () => {
+    expect(resolveActionRetryPolicy('LgTv', 'power_on')).toEqual({ maxAttempts: 3, baseDelayMs: 2_000, maxDelayMs: 4_000 });
+    expect(resolveActionRetryPolicy('LgTv', 'set_input')).toEqual({ maxAttempts: 2, baseDelayMs: 1_000, maxDelayMs: 4_000 });
+  });
+});
+
+describe('getRetryDelay', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('doubles the delay per failure up to the maximum', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    const settings = { maxAttempts: 5, baseDelayMs: 300, maxDelayMs: 1_000 };
+
+    expect([1, 2, 3, 4].map(failures => getRetryDelay(settings, failures))).toEqual([300, 600, 1_000, 1_000]);
+  });
+
+  it('adds up to 20% jitter', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.999);
+
+    expect(getRetryDelay({ maxAttempts: 3, baseDelayMs: 1_000, maxDelayMs: 4_000 }, 1)).toBe(1_200);
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, expect, it } from '@jest/globals';
+import { predictDeviceState } from '../statePredictions';
+
+describe('predictDeviceState', () => {
+  it('predicts the main zone volume of an EMotivaXMC2 when no zone is given', () => {
+    expect(predictDeviceState('EMotivaXMC2', 'set_volume', { level: -30 }, {})).toEqual({ volume: -30 });
+    expect(predictDeviceState('EMotivaXMC2', 'set_volume', { level: -30, zone: 1 }, {})).toEqual({ volume: -30 });
+  });
+
+  it('predicts the zone 2 volume of an EMotivaXMC2 only when zone 2 is addressed', () => {
+    expect(predictDeviceState('EMotivaXMC2', 'set_volume', { level: -40, zone: 2 }, {})).toEqual({ zone2Volume: -40 });
+  });
+
+  it('predicts nothing without a level or a rule', () => {
+    expect(predictDeviceState('EMotivaXMC2', 'set_volume', { zone: 2 }, {})).toBeNull();
+    expect(predictDeviceState('WirenboardIRDevice', 'power_on', {}, {})).toBeNull();
+  });
+});
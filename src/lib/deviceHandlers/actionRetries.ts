@@ -0,0 +1,58 @@
+// Action retry policies per device class
+// Used by useExecuteDeviceAction to repeat device actions that failed transiently
+// (IR blaster busy, Broadlink not answering). Only idempotent actions are ever retried:
+// repeating a toggle could undo what the first attempt already did.
+
+import { isIdempotentAction } from '../actionIdempotency';
+
+export interface ActionRetrySettings {
+  // Total attempts including the first one (1 = never retried)
+  maxAttempts: number;
+  // Delay before the first retry; doubles with every further attempt
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface ActionRetryPolicy extends ActionRetrySettings {
+  // Per-action overrides
+  actions?: Record<string, Partial<ActionRetrySettings>>;
+}
+
+// Applies to device classes without a policy of their own
+export const DEFAULT_ACTION_RETRY_POLICY: ActionRetrySettings = { maxAttempts: 2, baseDelayMs: 1_000, maxDelayMs: 4_000 };
+
+// IR codes get lost in transit, so IR devices retry quickly and more often; scenarios run
+// sequences on the backend that are not safe to start twice
+export const ACTION_RETRY_POLICIES: Record<string, ActionRetryPolicy> = {
+  WirenboardIRDevice: { maxAttempts: 3, baseDelayMs: 300, maxDelayMs: 1_500 },
+  BroadlinkKitchenHood: { maxAttempts: 3, baseDelayMs: 500, maxDelayMs: 2_000 },
+  RevoxA77ReelToReel: { maxAttempts: 3, baseDelayMs: 300, maxDelayMs: 1_500 },
+  LgTv: { maxAttempts: 2, baseDelayMs: 1_000, maxDelayMs: 4_000, actions: { power_on: { maxAttempts: 3, baseDelayMs: 2_000 } } },
+  ScenarioDevice: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+};
+
+const NO_RETRY: ActionRetrySettings = { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 };
+
+/**
+ * Resolve how often and how patiently a failed action may be retried
+ */
+export function resolveActionRetryPolicy(deviceClass: string | undefined, action: string): ActionRetrySettings {
+  if (!isIdempotentAction(action)) {
+    return NO_RETRY;
+  }
+
+  const policy = deviceClass ? ACTION_RETRY_POLICIES[deviceClass] : undefined;
+  if (!policy) {
+    return DEFAULT_ACTION_RETRY_POLICY;
+  }
+  const { actions, ...settings } = policy;
+  return { ...settings, ...actions?.[action] };
+}
+
+/**
+ * Backoff before the retry that follows `failures` failed attempts, with up to 20% jitter
+ */
+export function getRetryDelay({ baseDelayMs, maxDelayMs }: ActionRetrySettings, failures: number): number {
+  const delay = Math.min(baseDelayMs * 2 ** Math.max(0, failures - 1), maxDelayMs);
+  return Math.round(delay * (1 + Math.random() * 0.2));
+}
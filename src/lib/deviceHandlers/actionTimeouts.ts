@@ -0,0 +1,52 @@
+// Action timeout policies per device class
+// Used by useExecuteDeviceAction to abort device actions the backend never answers.
+// A command in the device config can override its class default with `timeout_ms`.
+
+import type { BaseCommandConfig, BaseDeviceConfig } from '../../types/api';
+import type { CommandConfigExtensions } from '../../types/DeviceConfig';
+
+// Applies to device classes without a policy of their own
+export const DEFAULT_ACTION_TIMEOUT_MS = 10_000;
+
+export interface ActionTimeoutPolicy {
+  // Timeout for any action of the class without a more specific entry
+  defaultMs: number;
+  // Per-action overrides, for commands known to take longer (power sequencing, app launches)
+  actions?: Record<string, number>;
+}
+
+// IR devices (WirenboardIRDevice, BroadlinkKitchenHood, RevoxA77ReelToReel) only fire a code and
+// return at once; network devices may have to wake up or wait for the app they launch
+export const ACTION_TIMEOUT_POLICIES: Record<string, ActionTimeoutPolicy> = {
+  WirenboardIRDevice: { defaultMs: 5_000 },
+  BroadlinkKitchenHood: { defaultMs: 5_000 },
+  RevoxA77ReelToReel: { defaultMs: 5_000 },
+  LgTv: { defaultMs: 10_000, actions: { power_on: 30_000, launch_app: 20_000 } },
+  AppleTVDevice: { defaultMs: 10_000, actions: { power_on: 20_000, launch_app: 20_000 } },
+  AuralicDevice: { defaultMs: 10_000, actions: { power_on: 30_000 } },
+  EMotivaXMC2: { defaultMs: 10_000, actions: { power_on: 30_000, power_off: 20_000 } },
+  ScenarioDevice: { defaultMs: 60_000 },
+};
+
+/**
+ * Resolve how long an action may take before it is aborted.
+ * A `timeout_ms` on the command in the device config wins over the class policy.
+ */
+export function resolveActionTimeout(
+  deviceClass: string | undefined,
+  action: string,
+  config?: BaseDeviceConfig | null
+): number {
+  const commands = config?.commands ? Object.entries(config.commands) : [];
+  const command: (BaseCommandConfig & CommandConfigExtensions) | undefined =
+    commands.find(([name, cmd]) => name === action || cmd.action === action)?.[1];
+  if (typeof command?.timeout_ms === 'number' && command.timeout_ms > 0) {
+    return command.timeout_ms;
+  }
+
+  const policy = deviceClass ? ACTION_TIMEOUT_POLICIES[deviceClass] : undefined;
+  if (!policy) {
+    return DEFAULT_ACTION_TIMEOUT_MS;
+  }
+  return policy.actions?.[action] ?? policy.defaultMs;
+}
@@ -0,0 +1,85 @@
+// Optimistic state predictions per device class
+// Used by useExecuteDeviceAction to update the UI before the backend responds.
+// A prediction returns the state fields the action is expected to change, or null when it
+// cannot tell (the UI then simply waits for the backend). Only declare what is certain.
+
+export type DeviceStateSnapshot = Record<string, any>;
+export type ActionParams = Record<string, any>;
+export type StatePrediction = (state: DeviceStateSnapshot, params: ActionParams) => DeviceStateSnapshot | null;
+export type StatePredictionRules = Record<string, StatePrediction>;
+
+const numberParam = (params: ActionParams, ...names: string[]): number | null => {
+  for (const name of names) {
+    const value = params[name];
+    if (typeof value === 'number' && !Number.isNaN(value)) {
+      return value;
+    }
+  }
+  return null;
+};
+
+const powerRules: StatePredictionRules = {
+  power_on: () => ({ power: 'on' }),
+  power_off: () => ({ power: 'off' }),
+};
+
+const volumeRules: StatePredictionRules = {
+  set_volume: (_state, params) => {
+    const level = numberParam(params, 'level', 'volume');
+    return level === null ? null : { volume: level };
+  },
+  mute: (state) => (typeof state.mute === 'boolean' ? { mute: !state.mute } : null),
+  mute_on: () => ({ mute: true }),
+  mute_off: () => ({ mute: false }),
+};
+
+const appRules: StatePredictionRules = {
+  launch_app: (_state, params) => (params.app_name ? { current_app: params.app_name } : null),
+};
+
+const inputRules: StatePredictionRules = {
+  set_input: (_state, params) => (params.input ? { input_source: params.input } : null),
+};
+
+// Zone 2 is addressed with `zone: 2`; without a zone the backend acts on the main zone
+const emotivaRules: StatePredictionRules = {
+  ...volumeRules,
+  ...inputRules,
+  power_on: (_state, params) => (params.zone === 2 ? { zone2_power: 'on' } : { power: 'on' }),
+  power_off: (_state, params) => (params.zone === 2 ? { zone2_power: 'off' } : { power: 'off' }),
+  zone2_power_toggle: (state) => (state.zone2_power === 'on' || state.zone2_power === 'off'
+    ? { zone2_power: state.zone2_power === 'on' ? 'off' : 'on' }
+    : null),
+  set_volume: (_state, params) => {
+    const level = numberParam(params, 'level', 'volume');
+    if (level === null) return null;
+    return params.zone === 2 ? { zone2Volume: level } : { volume: level };
+  },
+};
+
+// IR-controlled devices (WirenboardIRDevice, BroadlinkKitchenHood, RevoxA77ReelToReel) report no
+// reliable state, so they have no predictions
+export const STATE_PREDICTION_RULES: Record<string, StatePredictionRules> = {
+  LgTv: { ...powerRules, ...volumeRules, ...appRules, ...inputRules },
+  AppleTVDevice: { ...powerRules, ...volumeRules, ...appRules },
+  AuralicDevice: { ...powerRules, ...volumeRules },
+  EMotivaXMC2: emotivaRules,
+};
+
+/**
+ * Predict the state fields an action will change on a device of the given class.
+ * Returns null when there is no rule for the action or the rule cannot predict the outcome.
+ */
+export function predictDeviceState(
+  deviceClass: string,
+  action: string,
+  params: ActionParams | null | undefined,
+  state: DeviceStateSnapshot
+): DeviceStateSnapshot | null {
+  const rule = STATE_PREDICTION_RULES[deviceClass]?.[action];
+  if (!rule) {
+    return null;
+  }
+  const prediction = rule(state, params ?? {});
+  return prediction && Object.keys(prediction).length > 0 ? prediction : null;
+}
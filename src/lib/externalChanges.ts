@@ -0,0 +1,164 @@
+import type { QueryClient } from '@tanstack/react-query';
+import { getStateQueryDeviceId } from './stateHistory';
+import { useLogStore } from '../stores/useLogStore';
+import type { BaseDeviceState, LastCommand } from '../types/BaseDeviceState';
+import type { DeviceAction } from '../types/api';
+
+// Source this UI puts on the commands it writes into the cache itself
+const OWN_SOURCE = 'frontend';
+// The backend may echo a command sent from here with a source of its own (api, mqtt), so a
+// command with the same action and params counts as ours until the action has timed out, plus
+// this long for its state to arrive
+const OWN_COMMAND_ECHO_GRACE_MS = 5_000;
+// How long a change stays marked on the remote and in the state panel
+const EXTERNAL_CHANGE_NOTICE_MS = 8_000;
+
+// Identity and bookkeeping fields, not state
+const IGNORED_FIELDS = new Set(['device_id', 'device_name', 'last_command', 'error']);
+
+export interface ExternalChange {
+  id: number;
+  deviceId: string;
+  action: string;
+  // Who issued the command: a physical remote, wb-rules, another client...
+  source: string;
+  // State fields that changed along with the command
+  fields: string[];
+  at: number;
+}
+
+// Commands sent from here, oldest first; each one excuses a single matching echo
+const ownCommands: Array<{ deviceId: string; action: string; params: string; expiresAt: number }> = [];
+// Last command and state seen per device in this session
+const lastCommands = new Map<string, string>();
+const lastStates = new Map<string, Record<string, unknown>>();
+
+let changes: ExternalChange[] = [];
+let nextChangeId = 1;
+const listeners = new Set<() => void>();
+
+const setChanges = (next: ExternalChange[]) => {
+  changes = next;
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Changes made outside this UI in the last few seconds, oldest first
+ */
+export const getExternalChanges = (): readonly ExternalChange[] => changes;
+
+export function subscribeExternalChanges(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Params as compared with an echo: key order does not matter, and no params equals empty ones
+const paramsSignature = (params: DeviceAction['params']) =>
+  JSON.stringify(Object.keys(params ?? {}).sort().map(key => [key, params![key]]));
+
+const dropExpiredOwnCommands = (now: number) => {
+  for (let index = ownCommands.length - 1; index >= 0; index--) {
+    if (ownCommands[index].expiresAt < now) {
+      ownCommands.splice(index, 1);
+    }
+  }
+};
+
+/**
+ * Remember a command sent from this UI, so the state it causes is not taken for somebody else's.
+ * It is remembered until its echo arrives or timeoutMs (the action timeout) has passed.
+ */
+export function noteOwnCommand(deviceId: string, action: DeviceAction, timeoutMs: number): void {
+  const now = Date.now();
+  dropExpiredOwnCommands(now);
+  ownCommands.push({
+    deviceId,
+    action: action.action,
+    params: paramsSignature(action.params),
+    expiresAt: now + timeoutMs + OWN_COMMAND_ECHO_GRACE_MS,
+  });
+}
+
+const isOwnCommand = (deviceId: string, command: LastCommand) => {
+  if (command.source === OWN_SOURCE) {
+    return true;
+  }
+  dropExpiredOwnCommands(Date.now());
+  const params = paramsSignature(command.params);
+  const index = ownCommands.findIndex(own =>
+    own.deviceId === deviceId && own.action === command.action && own.params === params
+  );
+  if (index === -1) {
+    return false;
+  }
+  ownCommands.splice(index, 1);
+  return true;
+};
+
+const commandSignature = (command: LastCommand) => `${command.timestamp}|${command.action}|${command.source}`;
+
+const changedFields = (previous: Record<string, unknown> | undefined, state: Record<string, unknown>) =>
+  previous
+    ? Object.keys(state).filter(field =>
+      !IGNORED_FIELDS.has(field) && JSON.stringify(previous[field]) !== JSON.stringify(state[field])
+    )
+    : [];
+
+const noteExternalChange = (deviceId: string, state: BaseDeviceState, command: LastCommand, fields: string[]) => {
+  const change: ExternalChange = {
+    id: nextChangeId++,
+    deviceId,
+    action: command.action,
+    source: command.source,
+    fields,
+    at: Date.now(),
+  };
+  // One notice per device: a newer change replaces the one still shown
+  setChanges([...changes.filter(entry => entry.deviceId !== deviceId), change]);
+  setTimeout(() => setChanges(changes.filter(entry => entry.id !== change.id)), EXTERNAL_CHANGE_NOTICE_MS);
+
+  useLogStore.getState().addLog({
+    level: 'info',
+    message: `${state.device_name || deviceId}: ${command.action} by ${command.source}`,
+    category: 'external',
+    deviceId,
+    source: command.source,
+    details: { changed: fields, params: command.params ?? undefined, issuedAt: command.timestamp },
+  });
+};
+
+/**
+ * Watch device state reaching the query cache for commands issued somewhere else, going by
+ * `last_command`. The first state seen of a device is taken as is. Returns a function that
+ * stops watching.
+ */
+export function watchExternalChanges(queryClient: QueryClient): () => void {
+  return queryClient.getQueryCache().subscribe(event => {
+    if (event.type !== 'updated' || event.action.type !== 'success') {
+      return;
+    }
+    const deviceId = getStateQueryDeviceId(event.query);
+    const state = event.query.state.data as BaseDeviceState | undefined;
+    if (!deviceId || !state || typeof state !== 'object') {
+      return;
+    }
+
+    const values = state as unknown as Record<string, unknown>;
+    const fields = changedFields(lastStates.get(deviceId), values);
+    lastStates.set(deviceId, values);
+
+    const command = state.last_command;
+    if (!command?.action || !command.source) {
+      return;
+    }
+    const signature = commandSignature(command);
+    const previousSignature = lastCommands.get(deviceId);
+    lastCommands.set(deviceId, signature);
+    if (previousSignature === undefined || previousSignature === signature || isOwnCommand(deviceId, command)) {
+      return;
+    }
+    noteExternalChange(deviceId, state, command, fields);
+  });
+}
@@ -0,0 +1,322 @@
+// OpenAPI Type Generator
+// Generates the API types and the typed REST client from a saved OpenAPI snapshot
+
+export interface OpenApiSchema {
+  $ref?: string;
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  enum?: Array<string | number | boolean | null>;
+  nullable?: boolean;
+  items?: OpenApiSchema;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  additionalProperties?: boolean | OpenApiSchema;
+  anyOf?: OpenApiSchema[];
+  oneOf?: OpenApiSchema[];
+  allOf?: OpenApiSchema[];
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  schema?: OpenApiSchema;
+}
+
+export interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  parameters?: OpenApiParameter[];
+  requestBody?: { required?: boolean; content?: Record<string, { schema?: OpenApiSchema }> };
+  responses?: Record<string, { content?: Record<string, { schema?: OpenApiSchema }> }>;
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info?: { title?: string; version?: string };
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  components?: { schemas?: Record<string, OpenApiSchema> };
+}
+
+export interface OpenApiGeneratorOptions {
+  // Snapshot path as written into the file headers
+  specPath: string;
+  // Schemas maintained by hand elsewhere: schema name -> module exporting it (relative to src/types)
+  externalTypes?: Record<string, string>;
+}
+
+export interface GeneratedApiFiles {
+  types: string;
+  client: string;
+}
+
+export interface DeclarationDrift {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+
+export class OpenApiTypeGenerator {
+  private externalTypes: Record<string, string>;
+
+  constructor(private options: OpenApiGeneratorOptions) {
+    this.externalTypes = options.externalTypes ?? {};
+  }
+
+  generate(spec: OpenApiDocument): GeneratedApiFiles {
+    return {
+      types: this.generateTypes(spec),
+      client: this.generateClient(spec),
+    };
+  }
+
+  /**
+   * Generate one interface (or type alias) per component schema
+   */
+  generateTypes(spec: OpenApiDocument): string {
+    const schemas = spec.components?.schemas ?? {};
+    const declarations: string[] = [];
+    const used = new Set<string>();
+
+    for (const [name, schema] of Object.entries(schemas)) {
+      if (this.externalTypes[name]) {
+        continue;
+      }
+      declarations.push(this.renderDeclaration(name, schema, used));
+    }
+
+    const imports = this.renderExternalImports(used, './');
+    return [
+      this.renderHeader(),
+      ...(imports ? [imports] : []),
+      ...declarations,
+    ].join('\n\n') + '\n';
+  }
+
+  /**
+   * Generate a client factory with one typed method per operation
+   */
+  generateClient(spec: OpenApiDocument): string {
+    const used = new Set<string>();
+    const methods: string[] = [];
+
+    for (const [path, operations] of Object.entries(spec.paths)) {
+      for (const method of HTTP_METHODS) {
+        const operation = operations[method];
+        if (operation) {
+          methods.push(this.renderOperation(path, method, operation, used));
+        }
+      }
+    }
+
+    const localTypes = [...used].filter(name => !this.externalTypes[name]).sort();
+    const imports = [
+      `import type { AxiosInstance, AxiosRequestConfig } from 'axios';`,
+      this.renderExternalImports(used, '../types/'),
+      localTypes.length > 0 ? `import type {\n${localTypes.map(name => `  ${name},`).join('\n')}\n} from '../types/api';` : '',
+    ].filter(Boolean).join('\n');
+
+    return [
+      this.renderHeader(),
+      imports,
+      `// API version of the snapshot (info.version); generated pages are stamped with it\nexport const API_SCHEMA_VERSION = '${spec.info?.version ?? 'unknown'}';`,
+      `export const createApiClient = (http: AxiosInstance) => ({\n${methods.join('\n\n')}\n});`,
+      'export type ApiClient = ReturnType<typeof createApiClient>;',
+    ].join('\n\n') + '\n';
+  }
+
+  /**
+   * Compare generated output with the committed file, by declaration name
+   */
+  diffDeclarations(committed: string, generated: string): DeclarationDrift {
+    const before = this.splitDeclarations(committed);
+    const after = this.splitDeclarations(generated);
+    return {
+      added: [...after.keys()].filter(name => !before.has(name)),
+      removed: [...before.keys()].filter(name => !after.has(name)),
+      changed: [...after.keys()].filter(name => before.has(name) && before.get(name) !== after.get(name)),
+    };
+  }
+
+  private splitDeclarations(content: string): Map<string, string> {
+    const declarations = new Map<string, string>();
+    const blocks = content.split(/\n\s*\n/);
+    for (const block of blocks) {
+      const match = block.match(/^export (?:interface|type) (\w+)/m) ?? block.match(/^ {2}(\w+): \(/m);
+      if (match) {
+        declarations.set(match[1], block.trim());
+      }
+    }
+    return declarations;
+  }
+
+  private renderHeader(): string {
+    return [
+      `// Auto-generated from ${this.options.specPath} by src/scripts/generate-api-types.ts - DO NOT EDIT`,
+      '// Update the snapshot and run `npm run gen:api`; `npm run check:api` reports drift',
+    ].join('\n');
+  }
+
+  private renderExternalImports(used: Set<string>, prefix: string): string {
+    const byModule = new Map<string, string[]>();
+    for (const name of [...used].sort()) {
+      const module = this.externalTypes[name];
+      if (module) {
+        byModule.set(module, [...(byModule.get(module) ?? []), name]);
+      }
+    }
+    return [...byModule.entries()]
+      .map(([module, names]) => `import type { ${names.join(', ')} } from '${prefix}${module.replace(/^\.\//, '')}';`)
+      .join('\n');
+  }
+
+  private renderDeclaration(name: string, schema: OpenApiSchema, used: Set<string>): string {
+    const doc = schema.description ? `/** ${schema.description} */\n` : '';
+
+    if (this.isObjectSchema(schema)) {
+      const members = this.renderMembers(schema, used, '  ');
+      return `${doc}export interface ${name} {\n${members}\n}`;
+    }
+    return `${doc}export type ${name} = ${this.renderType(schema, used, '')};`;
+  }
+
+  private isObjectSchema(schema: OpenApiSchema): boolean {
+    return schema.type === 'object' || !!schema.properties;
+  }
+
+  private renderMembers(schema: OpenApiSchema, used: Set<string>, indent: string): string {
+    const required = new Set(schema.required ?? []);
+    const lines: string[] = [];
+
+    for (const [prop, propSchema] of Object.entries(schema.properties ?? {})) {
+      if (propSchema.description) {
+        lines.push(`${indent}/** ${propSchema.description} */`);
+      }
+      const key = /^[A-Za-z_$][\w$]*$/.test(prop) ? prop : `'${prop}'`;
+      const optional = required.has(prop) ? '' : '?';
+      lines.push(`${indent}${key}${optional}: ${this.renderType(propSchema, used, indent)};`);
+    }
+
+    const extra = schema.additionalProperties;
+    if (extra && lines.length === 0) {
+      const valueType = extra === true ? 'any' : this.renderType(extra, used, indent);
+      lines.push(`${indent}[key: string]: ${valueType};`);
+    }
+    return lines.join('\n');
+  }
+
+  private renderType(schema: OpenApiSchema, used: Set<string>, indent: string): string {
+    const type = this.renderNonNullableType(schema, used, indent);
+    return schema.nullable ? `${type} | null` : type;
+  }
+
+  private renderNonNullableType(schema: OpenApiSchema, used: Set<string>, indent: string): string {
+    if (schema.$ref) {
+      const name = schema.$ref.split('/').pop()!;
+      used.add(name);
+      return name;
+    }
+    const variants = schema.anyOf ?? schema.oneOf;
+    if (variants) {
+      return this.unique(variants.map(variant => this.renderType(variant, used, indent))).join(' | ');
+    }
+    if (schema.allOf) {
+      return schema.allOf.map(part => this.renderType(part, used, indent)).join(' & ');
+    }
+    if (schema.enum) {
+      return schema.enum.map(value => (typeof value === 'string' ? `'${value}'` : String(value))).join(' | ');
+    }
+    if (Array.isArray(schema.type)) {
+      return this.unique(schema.type.map(type => this.renderType({ ...schema, type }, used, indent))).join(' | ');
+    }
+
+    switch (schema.type) {
+      case 'string':
+        return 'string';
+      case 'integer':
+      case 'number':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'null':
+        return 'null';
+      case 'array':
+        return `Array<${schema.items ? this.renderType(schema.items, used, indent) : 'any'}>`;
+      case 'object':
+        if (schema.properties) {
+          return `{\n${this.renderMembers(schema, used, `${indent}  `)}\n${indent}}`;
+        }
+        if (schema.additionalProperties && schema.additionalProperties !== true) {
+          return `{ [key: string]: ${this.renderType(schema.additionalProperties, used, indent)} }`;
+        }
+        return '{ [key: string]: any }';
+      default:
+        return 'any';
+    }
+  }
+
+  private renderOperation(path: string, method: string, operation: OpenApiOperation, used: Set<string>): string {
+    const name = this.operationName(path, method, operation);
+    const pathParams = (operation.parameters ?? []).filter(param => param.in === 'path');
+    const queryParams = (operation.parameters ?? []).filter(param => param.in === 'query');
+    const bodySchema = operation.requestBody?.content?.['application/json']?.schema;
+    const responseSchema = this.successSchema(operation);
+    const responseType = responseSchema ? this.renderType(responseSchema, used, '    ') : 'void';
+
+    const args = pathParams.map(param => `${this.camelCase(param.name)}: string`);
+    if (bodySchema) {
+      args.push(`body: ${this.renderType(bodySchema, used, '    ')}`);
+    }
+    if (queryParams.length > 0) {
+      const fields = queryParams
+        .map(param => `${param.name}${param.required ? '' : '?'}: ${param.schema ? this.renderType(param.schema, used, '    ') : 'string'}`)
+        .join('; ');
+      args.push(`query${queryParams.every(param => !param.required) ? '?' : ''}: { ${fields} }`);
+    }
+    args.push('config?: AxiosRequestConfig');
+
+    const url = pathParams.length > 0
+      ? `\`${path.replace(/\{(\w+)\}/g, (_match, param: string) => `\${${this.camelCase(param)}}`)}\``
+      : `'${path}'`;
+    const requestConfig = queryParams.length > 0 ? '{ ...config, params: query }' : 'config';
+    const hasBody = method === 'post' || method === 'put' || method === 'patch';
+    const callArgs = hasBody
+      ? [url, bodySchema ? 'body' : 'undefined', requestConfig]
+      : [url, requestConfig];
+
+    const summary = operation.summary ? `${operation.summary} - ` : '';
+    return [
+      `  /** ${summary}${method.toUpperCase()} ${path} */`,
+      `  ${name}: (${args.join(', ')}) =>`,
+      `    http.${method}<${responseType}>(${callArgs.join(', ')}).then(res => res.data),`,
+    ].join('\n');
+  }
+
+  private successSchema(operation: OpenApiOperation): OpenApiSchema | undefined {
+    const status = Object.keys(operation.responses ?? {}).find(code => code.startsWith('2'));
+    return status ? operation.responses![status].content?.['application/json']?.schema : undefined;
+  }
+
+  private operationName(path: string, method: string, operation: OpenApiOperation): string {
+    if (operation.operationId) {
+      return this.camelCase(operation.operationId);
+    }
+    const segments = path.split('/').filter(Boolean).map(segment => segment.replace(/[{}]/g, ''));
+    return this.camelCase([method, ...segments].join('_'));
+  }
+
+  private camelCase(value: string): string {
+    return value
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map((word, index) => (index === 0 ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1)))
+      .join('');
+  }
+
+  private unique(values: string[]): string[] {
+    return [...new Set(values)];
+  }
+}
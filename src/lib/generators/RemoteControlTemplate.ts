@@ -1,11 +1,11 @@
 // Remote Control Template - Phase 1
 // Generates device pages using remote control layout instead of grid layout
 
-import type { RemoteDeviceStructure } from '../../types/RemoteControlLayout';
+import type { RemoteDeviceStructure, GenerationStamp } from '../../types/RemoteControlLayout';
 
 export class RemoteControlTemplate {
   
-  generateComponent(structure: RemoteDeviceStructure): string {
+  generateComponent(structure: RemoteDeviceStructure, stamp: GenerationStamp): string {
     const isScenarioDevice = structure.deviceClass === 'ScenarioDevice';
     
     return `
@@ -16,6 +16,10 @@ import { useExecuteDeviceAction${isScenarioDevice ? ', useStartScenario, useShut
 import { useSettingsStore } from '../../stores/useSettingsStore';
 import { useRoomStore } from '../../stores/useRoomStore';
 import { RemoteControlLayout } from '../../components/RemoteControlLayout';
+import type { GenerationStamp } from '../../types/RemoteControlLayout';
+
+// Backend this page was generated against; RemoteControlLayout compares it with /system
+const generatedAgainst: GenerationStamp = ${JSON.stringify(stamp, null, 2)};
 
 function ${this.formatComponentName(structure.deviceId)}Page() {
   const { addLog } = useLogStore();
@@ -61,7 +65,7 @@ function ${this.formatComponentName(structure.deviceId)}Page() {
     }
     
     // For other actions, use the regular device action endpoint
-    ` : ''}executeAction.mutate({ 
+    ` : ''}const request = executeAction.mutateAsync({ 
       deviceId: deviceId, 
       action: { action: action, params: params } 
     });
@@ -70,6 +74,9 @@ function ${this.formatComponentName(structure.deviceId)}Page() {
       message: \`Action: \${action} -> \${deviceId}\`,
       details: params
     });
+    // Settles when the action does, so the action scheduler can pace continuous controls;
+    // failures are already reported through executeAction.error
+    return request.catch(() => undefined);
   };
 
   // 🔧 CRITICAL FIX: Memoize deviceStructure to prevent infinite re-renders
@@ -86,6 +93,9 @@ function ${this.formatComponentName(structure.deviceId)}Page() {
         isActionPending={executeAction.isPending${isScenarioDevice ? ' || startScenario.isPending || shutdownScenario.isPending' : ''}}
         actionError={executeAction.error${isScenarioDevice ? ' || startScenario.error || shutdownScenario.error' : ''}}
         lastAction={executeAction.variables?.action.action}
+        actionAttempt={executeAction.failureCount + 1}
+        onCancelAction={executeAction.cancel}
+        generatedAgainst={generatedAgainst}
         className="w-full"
       />
     </div>
@@ -0,0 +1,14 @@
+import { get, set, del, createStore } from 'idb-keyval';
+import type { StateStorage } from 'zustand/middleware';
+
+// Single IndexedDB database for everything the UI persists beyond localStorage
+export const idbStore = createStore('wb-mqtt-ui', 'keyval');
+
+/**
+ * zustand persist storage backed by IndexedDB
+ */
+export const idbStorage: StateStorage = {
+  getItem: async (name) => (await get<string>(name, idbStore)) ?? null,
+  setItem: (name, value) => set(name, value, idbStore),
+  removeItem: (name) => del(name, idbStore),
+};
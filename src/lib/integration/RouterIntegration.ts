@@ -167,17 +167,23 @@ export class RouterIntegration {
     const getterFunctionName = type === 'scenarios' ? 'getScenarioComponent' : 'getDeviceComponent';
     const exportName = type === 'scenarios' ? 'generatedScenarioPages' : 'generatedDevicePages';
     const manifestName = type === 'scenarios' ? 'scenarioPageManifest' : 'devicePageManifest';
+    const preloadFunctionName = type === 'scenarios' ? 'preloadScenarioPage' : 'preloadDevicePage';
     
     return `// Auto-generated ${entityType} router manifest - DO NOT EDIT
 // Generated at: ${manifest.generatedAt}
 // Total ${entityTypePlural}: ${manifest.totalDevices}
 // Device classes: ${manifest.deviceClasses.join(', ')}
 
-import React from 'react';
+import React, { lazy } from 'react';
 
-${devices.map(device => `import ${device.componentName}Page from './${device.id}.gen';`).join('\n')}
+// Each page is its own chunk, loaded on first render or earlier through ${preloadFunctionName}
+const pageLoaders: Record<string, () => Promise<{ default: React.ComponentType }>> = {
+${devices.map(device => `  '${device.id}': () => import('./${device.id}.gen')`).join(',\n')}
+};
+
+${devices.map(device => `const ${device.componentName}Page = lazy(pageLoaders['${device.id}']);`).join('\n')}
 
-export const ${exportName}: Record<string, React.ComponentType> = {
+export const ${exportName}: Record<string, React.LazyExoticComponent<React.ComponentType>> = {
 ${devices.map(device => `  '${device.id}': ${device.componentName}Page`).join(',\n')}
 };
 
@@ -193,10 +199,15 @@ ${devices.map(device => `  {
   }`).join(',\n')}
 ];
 
-export function ${getterFunctionName}(${entityType}Id: string): React.ComponentType | undefined {
+export function ${getterFunctionName}(${entityType}Id: string): React.LazyExoticComponent<React.ComponentType> | undefined {
   return ${exportName}[${entityType}Id];
 }
 
+export function ${preloadFunctionName}(${entityType}Id: string): Promise<void> {
+  const load = pageLoaders[${entityType}Id];
+  return load ? load().then(() => undefined) : Promise.resolve();
+}
+
 export function get${entityType.charAt(0).toUpperCase() + entityType.slice(1)}Route(${entityType}Id: string): string | undefined {
   const route = ${entityType}Routes.find(r => r.deviceId === ${entityType}Id);
   return route?.path;
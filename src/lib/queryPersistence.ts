@@ -0,0 +1,114 @@
+import { dehydrate, hydrate, type DehydratedState, type Query, type QueryClient } from '@tanstack/react-query';
+import { get, set, del } from 'idb-keyval';
+import { idbStore } from './idbStorage';
+import { runtimeConfig } from '../config/runtime';
+import { useAuthStore } from '../stores/useAuthStore';
+
+// Bump when the shape of cached API data changes so older caches are dropped instead of rendered
+const CACHE_VERSION = 1;
+const CACHE_KEY = `query-cache-v${CACHE_VERSION}`;
+// Cache changes in bursts (a room loading a dozen device states); write at most this often
+const SAVE_THROTTLE_MS = 1000;
+
+// Sections of the backend-scoped query keys worth showing on the next startup.
+// System info and health are always measured live.
+const PERSISTED_SECTIONS = new Set(['rooms', 'devices', 'scenarios', 'scenario']);
+
+interface PersistedQueryCache {
+  // Backends the cache was filled from; a different setup starts empty
+  buster: string;
+  savedAt: number;
+  state: DehydratedState;
+}
+
+// Data loaded before this moment came from the persisted cache
+const sessionStartedAt = Date.now();
+
+const cacheBuster = () =>
+  JSON.stringify(runtimeConfig.backends.map(backend => [backend.id, backend.apiBaseUrl]));
+
+const shouldPersistQuery = (query: Query) =>
+  query.state.status === 'success' &&
+  query.queryKey[0] === 'backend' &&
+  PERSISTED_SECTIONS.has(String(query.queryKey[2]));
+
+/**
+ * Whether a query still shows data restored from the persisted cache rather than fetched in this session
+ */
+export const isRestoredQuery = (query: Query) =>
+  query.state.data !== undefined && query.state.dataUpdatedAt < sessionStartedAt;
+
+/**
+ * Load the persisted cache into the query client. Everything restored is marked invalidated,
+ * so it renders immediately and is refetched in the background as soon as something uses it.
+ */
+export async function restoreQueryCache(queryClient: QueryClient): Promise<void> {
+  try {
+    const persisted = await get<PersistedQueryCache>(CACHE_KEY, idbStore);
+    if (!persisted) {
+      return;
+    }
+
+    const maxAgeMs = runtimeConfig.queryCacheMaxAgeHours * 60 * 60 * 1000;
+    if (persisted.buster !== cacheBuster() || Date.now() - persisted.savedAt > maxAgeMs) {
+      await del(CACHE_KEY, idbStore);
+      return;
+    }
+
+    hydrate(queryClient, {
+      ...persisted.state,
+      queries: persisted.state.queries.map(query => ({
+        ...query,
+        state: { ...query.state, isInvalidated: true },
+      })),
+    });
+  } catch (error) {
+    console.warn('Could not restore the query cache:', error);
+  }
+}
+
+/**
+ * Keep the persisted cache in sync with the query client. Signing out drops it, so the next user
+ * does not see the previous one's data (clearQueriesOnLogout drops the in-memory cache). Returns a
+ * function that stops persisting.
+ */
+export function persistQueryCache(queryClient: QueryClient): () => void {
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const save = () => {
+    saveTimer = null;
+    const persisted: PersistedQueryCache = {
+      buster: cacheBuster(),
+      savedAt: Date.now(),
+      state: dehydrate(queryClient, { shouldDehydrateQuery: shouldPersistQuery }),
+    };
+    set(CACHE_KEY, persisted, idbStore).catch(error => {
+      console.warn('Could not persist the query cache:', error);
+    });
+  };
+
+  const unsubscribeCache = queryClient.getQueryCache().subscribe(event => {
+    if (event.type === 'updated' && event.action.type !== 'success') {
+      return;
+    }
+    saveTimer ??= setTimeout(save, SAVE_THROTTLE_MS);
+  });
+
+  const unsubscribeAuth = useAuthStore.subscribe((state, previous) => {
+    if (previous.credentials && !state.credentials) {
+      if (saveTimer) {
+        clearTimeout(saveTimer);
+        saveTimer = null;
+      }
+      del(CACHE_KEY, idbStore).catch(() => undefined);
+    }
+  });
+
+  return () => {
+    unsubscribeCache();
+    unsubscribeAuth();
+    if (saveTimer) {
+      clearTimeout(saveTimer);
+    }
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * The part of the EventSource API that RealtimeClient relies on
+ */
+export interface EventSourceLike {
+  readonly readyState: number;
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  close(): void;
+}
+
+export interface FetchEventSourceOptions {
+  headers?: Record<string, string>;
+  withCredentials?: boolean;
+  /** Sent as the Last-Event-ID header so the backend can replay missed events */
+  lastEventId?: string | null;
+}
+
+/**
+ * Error event carrying the HTTP status when the server refused the stream (null for network errors)
+ */
+export class EventSourceErrorEvent extends Event {
+  readonly status: number | null;
+
+  constructor(status: number | null) {
+    super('error');
+    this.status = status;
+  }
+}
+
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSED = 2;
+
+/**
+ * Server-sent events over fetch, for when the native EventSource is not enough: it can send
+ * request headers (Authorization, Last-Event-ID) and reports the HTTP status of failed connects.
+ * Like EventSource it only dispatches `message` events to onmessage; unlike it, it never
+ * reconnects by itself - RealtimeClient owns the retry policy.
+ */
+export class FetchEventSource implements EventSourceLike {
+  readyState = CONNECTING;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  private controller = new AbortController();
+  private lastEventId: string;
+
+  constructor(readonly url: string, private options: FetchEventSourceOptions = {}) {
+    this.lastEventId = options.lastEventId ?? '';
+    void this.connect();
+  }
+
+  close(): void {
+    this.readyState = CLOSED;
+    this.controller.abort();
+  }
+
+  private async connect(): Promise<void> {
+    try {
+      const response = await fetch(this.url, {
+        headers: {
+          Accept: 'text/event-stream',
+          ...(this.lastEventId ? { 'Last-Event-ID': this.lastEventId } : {}),
+          ...this.options.headers,
+        },
+        credentials: this.options.withCredentials ? 'include' : 'same-origin',
+        cache: 'no-store',
+        signal: this.controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        this.fail(response.status);
+        return;
+      }
+
+      this.readyState = OPEN;
+      this.onopen?.(new Event('open'));
+      await this.read(response.body);
+      // The server ended the stream
+      this.fail(null);
+    } catch {
+      if (!this.controller.signal.aborted) {
+        this.fail(null);
+      }
+    }
+  }
+
+  private async read(body: ReadableStream<Uint8Array>): Promise<void> {
+    const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let eventType = '';
+    let data: string[] = [];
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done || this.readyState === CLOSED) {
+        return;
+      }
+
+      buffer += value;
+      // A trailing CR may be the first half of a CRLF split across chunks
+      const complete = buffer.endsWith('\r') ? buffer.slice(0, -1) : buffer;
+      const lines = complete.split(/\r\n|\r|\n/);
+      buffer = lines.pop()! + buffer.slice(complete.length);
+
+      for (const line of lines) {
+        if (line === '') {
+          // Blank line dispatches the event collected so far
+          if (data.length > 0 && (eventType === '' || eventType === 'message')) {
+            this.onmessage?.(new MessageEvent('message', { data: data.join('\n'), lastEventId: this.lastEventId }));
+          }
+          eventType = '';
+          data = [];
+          continue;
+        }
+        if (line.startsWith(':')) {
+          continue;
+        }
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const fieldValue = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        if (field === 'data') {
+          data.push(fieldValue);
+        } else if (field === 'event') {
+          eventType = fieldValue;
+        } else if (field === 'id' && !fieldValue.includes('\0')) {
+          this.lastEventId = fieldValue;
+        }
+      }
+    }
+  }
+
+  private fail(status: number | null): void {
+    if (this.readyState === CLOSED) {
+      return;
+    }
+    this.readyState = CLOSED;
+    this.onerror?.(new EventSourceErrorEvent(status));
+  }
+}
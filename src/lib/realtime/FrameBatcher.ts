@@ -0,0 +1,54 @@
+/**
+ * Collects items and hands them over in one batch per animation frame, so a burst of events
+ * costs one render instead of one per event. Browsers pause animation frames in hidden tabs;
+ * a timer flushes after `maxWaitMs` at the latest.
+ */
+export class FrameBatcher<T> {
+  private items: T[] = [];
+  private frame: number | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private onFlush: (items: T[]) => void;
+  private maxWaitMs: number;
+
+  constructor(onFlush: (items: T[]) => void, maxWaitMs = 100) {
+    this.onFlush = onFlush;
+    this.maxWaitMs = maxWaitMs;
+  }
+
+  push(item: T): void {
+    this.items.push(item);
+    if (this.timer) {
+      return;
+    }
+    this.timer = setTimeout(() => this.flush(), this.maxWaitMs);
+    if (typeof requestAnimationFrame === 'function') {
+      this.frame = requestAnimationFrame(() => this.flush());
+    }
+  }
+
+  /**
+   * Hand over everything collected so far right away
+   */
+  flush(): void {
+    const items = this.items;
+    this.cancel();
+    if (items.length > 0) {
+      this.onFlush(items);
+    }
+  }
+
+  /**
+   * Drop everything collected so far
+   */
+  cancel(): void {
+    this.items = [];
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+  }
+}
@@ -0,0 +1,698 @@
+import { runtimeConfig, getSSEUrl } from '../../config/runtime';
+import { getAuthorizationHeader, handleUnauthorized, isAuthEnabled } from '../auth';
+import { EventSourceErrorEvent, FetchEventSource, type EventSourceLike } from './FetchEventSource';
+import { TabLeadership } from './TabLeadership';
+import { FrameBatcher } from './FrameBatcher';
+import { validateRealtimeEvent } from './eventSchema';
+import type {
+  ChannelHistoryEntry,
+  ChannelHistoryEventType,
+  ChannelStatus,
+  RealtimeChannel,
+  RealtimeEventHandler,
+  RealtimeEventMap,
+  RealtimeStatus,
+} from '../../types/realtime';
+
+export interface RealtimeClientOptions {
+  channels: Record<RealtimeChannel, string>;
+  retryInterval?: number;
+  maxRetries?: number;
+  /** Number of recent event IDs remembered per channel to drop replayed duplicates */
+  dedupeWindow?: number;
+  /** Number of connection lifecycle events kept for diagnostics, across all channels */
+  historySize?: number;
+  /** Opens the stream for a channel; defaults to the native EventSource */
+  createSource?: (url: string, lastEventId: string | null) => EventSourceLike;
+  /** Called when a channel is refused with 401; the channel then stops retrying */
+  onUnauthorized?: () => void;
+  /** Browser tabs whose clients use the same name share one set of connections */
+  tabSyncName?: string;
+}
+
+type StatusListener = (status: RealtimeStatus) => void;
+type EventTap = (channel: RealtimeChannel, event: RealtimeEventMap[RealtimeChannel]) => void;
+
+// Whether this tab holds the connections, receives them from the leader tab, or does not share
+export type TabRole = 'leader' | 'follower' | 'standalone';
+
+// Messages between the tabs sharing a client over BroadcastChannel
+type TabMessage =
+  // Leader -> followers: an event as received from the backend
+  | { type: 'event'; channel: RealtimeChannel; data: string; lastEventId: string | null }
+  // Leader -> followers: connection status, after every change and on request
+  | { type: 'status'; status: RealtimeStatus; history: ChannelHistoryEntry[] }
+  // New leader -> followers: announce yourselves
+  | { type: 'hello' }
+  // Follower -> leader
+  | { type: 'status-request' }
+  | { type: 'interest'; tabId: string; channels: RealtimeChannel[] }
+  | { type: 'reconnect' };
+
+interface ChannelConnection {
+  url: string;
+  source: EventSourceLike | null;
+  handlers: Set<RealtimeEventHandler<any>>;
+  reconnectTimeout: ReturnType<typeof setTimeout> | null;
+  retryDelay: number;
+  recentEventIds: string[];
+  status: ChannelStatus;
+}
+
+const CHANNELS: RealtimeChannel[] = ['devices', 'scenarios', 'system'];
+
+// EventSource cannot set the Last-Event-ID header on a fresh connection, so pass it as a query parameter
+const createNativeEventSource = (url: string, lastEventId: string | null): EventSourceLike => {
+  if (!lastEventId) {
+    return new EventSource(url);
+  }
+  const separator = url.includes('?') ? '&' : '?';
+  return new EventSource(`${url}${separator}last_event_id=${encodeURIComponent(lastEventId)}`);
+};
+
+// The backend sends {"eventType":"keepalive"} periodically on every channel; it is not an event
+const isKeepalive = (payload: unknown): boolean =>
+  typeof payload === 'object' && payload !== null && (payload as { eventType?: unknown }).eventType === 'keepalive';
+
+const createChannelStatus = (): ChannelStatus => ({
+  connected: false,
+  error: null,
+  reconnectAttempts: 0,
+  retriesExhausted: false,
+  lastEventId: null,
+  lastEventAt: null,
+  invalidEvents: 0,
+  lastInvalidReason: null,
+});
+
+/**
+ * Owns the pool of SSE connections (one per channel) and routes events to subscribers.
+ *
+ * A channel connects when it gets its first subscriber and closes when the last one leaves.
+ * The ID of the last received event is tracked per channel and sent back on reconnect
+ * (`last_event_id` query parameter, or the Last-Event-ID header when streaming over fetch)
+ * so the backend can replay what was missed during the gap; replayed events that were
+ * already delivered are dropped.
+ *
+ * With `tabSyncName`, the tabs of one browser elect a leader (see TabLeadership) that holds the
+ * connections and forwards every event and status change to the other tabs over BroadcastChannel.
+ * Followers tell the leader which channels they need. When the leader closes, the next tab takes
+ * over and resumes from the last event ID it has seen.
+ *
+ * `suspend()` closes the connections of a tab nobody is looking at (a leader hands them to a
+ * visible tab) and drops events until `resume()`.
+ *
+ * `startReplay()` does the same for replaying a recorded session: events passed to `replay()`
+ * then go through validation and reach subscribers as if they had arrived live, until `stopReplay()`.
+ */
+export class RealtimeClient {
+  private connections: Record<RealtimeChannel, ChannelConnection>;
+  private statusListeners = new Set<StatusListener>();
+  private status: RealtimeStatus;
+  private retryInterval: number;
+  private maxRetries: number;
+  private dedupeWindow: number;
+  private history: ChannelHistoryEntry[] = [];
+  private historySize: number;
+  private createSource: (url: string, lastEventId: string | null) => EventSourceLike;
+  private onUnauthorized?: () => void;
+  private leadership: TabLeadership | null = null;
+  private tabChannel: BroadcastChannel | null = null;
+  private tabId = Math.random().toString(36).slice(2);
+  // Channels other tabs need, by tab ID (leader only)
+  private remoteInterest = new Map<string, RealtimeChannel[]>();
+  private suspended = false;
+  private replaying = false;
+  private eventTaps = new Set<EventTap>();
+  // Status changes that only move lastEventId/lastEventAt are published once per frame
+  private statusBatcher = new FrameBatcher<RealtimeChannel>(() => this.publishStatus());
+
+  constructor({
+    channels,
+    retryInterval = 5_000,
+    maxRetries = 10,
+    dedupeWindow = 200,
+    historySize = 200,
+    createSource = createNativeEventSource,
+    onUnauthorized,
+    tabSyncName,
+  }: RealtimeClientOptions) {
+    this.retryInterval = retryInterval;
+    this.maxRetries = maxRetries;
+    this.dedupeWindow = dedupeWindow;
+    this.historySize = historySize;
+    this.createSource = createSource;
+    this.onUnauthorized = onUnauthorized;
+
+    this.connections = CHANNELS.reduce((acc, channel) => {
+      acc[channel] = {
+        url: channels[channel],
+        source: null,
+        handlers: new Set(),
+        reconnectTimeout: null,
+        retryDelay: retryInterval,
+        recentEventIds: [],
+        status: createChannelStatus(),
+      };
+      return acc;
+    }, {} as Record<RealtimeChannel, ChannelConnection>);
+
+    this.status = this.snapshotStatus();
+
+    if (tabSyncName && TabLeadership.isSupported()) {
+      this.leadership = new TabLeadership(tabSyncName);
+      this.leadership.onChange(isLeader => this.handleLeadershipChange(isLeader));
+      this.tabChannel = new BroadcastChannel(tabSyncName);
+      this.tabChannel.onmessage = (event: MessageEvent<TabMessage>) => this.handleTabMessage(event.data);
+      // Hand the connections over before the page is unloaded or frozen
+      window.addEventListener('pagehide', () => {
+        this.leadership?.release();
+        this.postTabMessage({ type: 'interest', tabId: this.tabId, channels: [] });
+      });
+      window.addEventListener('pageshow', (event) => {
+        if (event.persisted && this.hasSubscribers() && !this.suspended) {
+          this.leadership?.acquire();
+          this.postInterest();
+        }
+      });
+    }
+  }
+
+  /**
+   * Subscribe to all events on a channel. Returns an unsubscribe function.
+   */
+  subscribe<C extends RealtimeChannel>(channel: C, handler: RealtimeEventHandler<C>): () => void {
+    const connection = this.connections[channel];
+    connection.handlers.add(handler);
+
+    if (this.suspended) {
+      // Connects on resume()
+    } else if (this.ownsConnections) {
+      if (!connection.source && !connection.reconnectTimeout) {
+        this.open(channel);
+      }
+    } else if (connection.handlers.size === 1) {
+      this.postInterest();
+      this.postTabMessage({ type: 'status-request' });
+    }
+    if (!this.suspended) {
+      this.leadership?.acquire();
+    }
+
+    return () => {
+      connection.handlers.delete(handler);
+      if (connection.handlers.size === 0) {
+        if (this.ownsConnections && !this.isChannelNeeded(channel)) {
+          this.close(channel);
+        } else if (!this.ownsConnections && !this.suspended) {
+          this.postInterest();
+        }
+      }
+      // A tab with nothing to listen to leaves the election
+      if (!this.hasSubscribers()) {
+        this.leadership?.release();
+      }
+    };
+  }
+
+  /**
+   * Listen for connection status changes across all channels. Returns an unsubscribe function.
+   */
+  onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Observe every event delivered to subscribers, without keeping any channel open.
+   * Returns a function that removes the tap.
+   */
+  tap(listener: EventTap): () => void {
+    this.eventTaps.add(listener);
+    return () => {
+      this.eventTaps.delete(listener);
+    };
+  }
+
+  getStatus(): RealtimeStatus {
+    return this.status;
+  }
+
+  /**
+   * Connection lifecycle events of all channels, oldest first
+   */
+  getHistory(): readonly ChannelHistoryEntry[] {
+    return this.history;
+  }
+
+  isSuspended(): boolean {
+    return this.suspended;
+  }
+
+  /**
+   * Stop receiving events, e.g. while the tab is hidden. Owned connections are closed
+   * and leadership goes to another tab; subscribers stay registered.
+   */
+  suspend(): void {
+    if (this.suspended) {
+      return;
+    }
+    this.suspended = true;
+    console.log('[Realtime] Suspending realtime channels');
+
+    if (this.leadership) {
+      // Closes the connections through handleLeadershipChange when this tab was leading
+      this.leadership.release();
+      this.postTabMessage({ type: 'interest', tabId: this.tabId, channels: [] });
+    }
+    CHANNELS.forEach(channel => {
+      const connection = this.connections[channel];
+      if (connection.source || connection.reconnectTimeout || connection.status.connected) {
+        this.close(channel);
+      }
+    });
+  }
+
+  /**
+   * Reconnect after suspend(). Streams start fresh rather than replaying what was missed:
+   * callers resync state in bulk instead of re-rendering a backlog of stale events.
+   */
+  resume(): void {
+    // A replay keeps the live streams closed until it is stopped
+    if (!this.suspended || this.replaying) {
+      return;
+    }
+    this.suspended = false;
+    console.log('[Realtime] Resuming realtime channels');
+
+    CHANNELS.forEach(channel => {
+      const connection = this.connections[channel];
+      connection.status = { ...connection.status, lastEventId: null };
+    });
+    if (!this.hasSubscribers()) {
+      return;
+    }
+
+    if (this.leadership) {
+      this.postInterest();
+      this.postTabMessage({ type: 'status-request' });
+      this.leadership.acquire();
+      return;
+    }
+    CHANNELS.forEach(channel => {
+      if (this.isChannelNeeded(channel)) {
+        this.open(channel);
+      }
+    });
+  }
+
+  isReplaying(): boolean {
+    return this.replaying;
+  }
+
+  /**
+   * Close the live streams so that only replayed events reach subscribers
+   */
+  startReplay(): void {
+    if (this.replaying) {
+      return;
+    }
+    this.suspend();
+    this.replaying = true;
+  }
+
+  /**
+   * Deliver a recorded event (raw event data) to subscribers, while replaying
+   */
+  replay(channel: RealtimeChannel, data: string): void {
+    if (this.replaying) {
+      this.deliver(channel, data, null);
+    }
+  }
+
+  /**
+   * Go back to the live streams after startReplay()
+   */
+  stopReplay(): void {
+    if (!this.replaying) {
+      return;
+    }
+    this.replaying = false;
+    this.resume();
+  }
+
+  getTabRole(): TabRole {
+    if (!this.leadership) {
+      return 'standalone';
+    }
+    return this.leadership.isLeader ? 'leader' : 'follower';
+  }
+
+  /**
+   * Reset the retry budget and reconnect every channel that still has subscribers.
+   */
+  reconnect(): void {
+    if (this.suspended) {
+      return;
+    }
+    if (!this.ownsConnections) {
+      this.postTabMessage({ type: 'reconnect' });
+      return;
+    }
+
+    CHANNELS.forEach(channel => {
+      const connection = this.connections[channel];
+      if (!this.isChannelNeeded(channel)) return;
+
+      this.teardown(connection);
+      connection.retryDelay = this.retryInterval;
+      this.updateStatus(channel, { reconnectAttempts: 0, retriesExhausted: false });
+      this.open(channel);
+    });
+  }
+
+  private open(channel: RealtimeChannel): void {
+    const connection = this.connections[channel];
+
+    console.log(`[Realtime] Opening ${channel} channel: ${connection.url}`);
+    const source = this.createSource(connection.url, connection.status.lastEventId);
+    connection.source = source;
+    this.recordHistory(channel, 'connecting');
+
+    source.onopen = () => {
+      if (connection.source !== source) return;
+      console.log(`🟢 [Realtime] ${channel} channel connected`);
+      connection.retryDelay = this.retryInterval;
+      this.recordHistory(channel, 'connected');
+      this.updateStatus(channel, { connected: true, error: null, reconnectAttempts: 0, retriesExhausted: false });
+    };
+
+    source.onmessage = (event) => {
+      if (connection.source !== source) return;
+      this.handleMessage(channel, event);
+    };
+
+    source.onerror = (event) => {
+      if (connection.source !== source) return;
+      console.error(`🔴 [Realtime] ${channel} channel error (readyState: ${source.readyState})`);
+      source.close();
+      connection.source = null;
+
+      // Retrying with the same credentials cannot succeed
+      if (event instanceof EventSourceErrorEvent && event.status === 401) {
+        this.recordHistory(channel, 'unauthorized');
+        this.updateStatus(channel, { connected: false, error: 'unauthorized', retriesExhausted: true });
+        this.onUnauthorized?.();
+        return;
+      }
+      this.scheduleReconnect(channel);
+    };
+  }
+
+  private close(channel: RealtimeChannel): void {
+    const connection = this.connections[channel];
+    this.teardown(connection);
+    connection.retryDelay = this.retryInterval;
+    this.recordHistory(channel, 'closed');
+    this.updateStatus(channel, { connected: false, reconnectAttempts: 0, retriesExhausted: false });
+  }
+
+  private teardown(connection: ChannelConnection): void {
+    if (connection.reconnectTimeout) {
+      clearTimeout(connection.reconnectTimeout);
+      connection.reconnectTimeout = null;
+    }
+    if (connection.source) {
+      connection.source.close();
+      connection.source = null;
+    }
+  }
+
+  private scheduleReconnect(channel: RealtimeChannel): void {
+    const connection = this.connections[channel];
+    const attempts = connection.status.reconnectAttempts;
+
+    if (attempts >= this.maxRetries) {
+      this.recordHistory(channel, 'retries_exhausted');
+      this.updateStatus(channel, { connected: false, error: 'error', retriesExhausted: true });
+      return;
+    }
+
+    // Exponential back-off with jitter
+    const jitter = Math.random() * 1000;
+    const delay = Math.min(connection.retryDelay + jitter, 60_000);
+    connection.retryDelay = Math.min(connection.retryDelay * 1.5, 30_000);
+
+    this.recordHistory(channel, 'error');
+    this.updateStatus(channel, { connected: false, error: 'error', reconnectAttempts: attempts + 1 });
+
+    connection.reconnectTimeout = setTimeout(() => {
+      connection.reconnectTimeout = null;
+      if (this.isChannelNeeded(channel)) {
+        this.open(channel);
+      }
+    }, delay);
+  }
+
+  private handleMessage(channel: RealtimeChannel, event: MessageEvent): void {
+    const connection = this.connections[channel];
+    const eventId = event.lastEventId || null;
+
+    const { status } = connection;
+    const healthy = status.connected && status.error === null && status.reconnectAttempts === 0 && !status.retriesExhausted;
+
+    this.postTabMessage({ type: 'event', channel, data: event.data, lastEventId: eventId });
+    this.updateStatus(channel, {
+      connected: true,
+      error: null,
+      reconnectAttempts: 0,
+      retriesExhausted: false,
+      lastEventId: eventId ?? status.lastEventId,
+      lastEventAt: Date.now(),
+    }, healthy);
+    this.deliver(channel, event.data, eventId);
+  }
+
+  private deliver(channel: RealtimeChannel, data: string, eventId: string | null): void {
+    const connection = this.connections[channel];
+
+    if (eventId) {
+      // Drop events the backend replays that we already delivered before the reconnect
+      if (connection.recentEventIds.includes(eventId)) {
+        return;
+      }
+      connection.recentEventIds.push(eventId);
+      if (connection.recentEventIds.length > this.dedupeWindow) {
+        connection.recentEventIds.shift();
+      }
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(data);
+    } catch {
+      this.rejectEvent(channel, 'payload is not valid JSON', data);
+      return;
+    }
+
+    // Heartbeats only keep the stream open
+    if (isKeepalive(payload)) {
+      return;
+    }
+
+    const validation = validateRealtimeEvent(channel, payload);
+    if (!validation.valid) {
+      this.rejectEvent(channel, validation.reason, payload);
+      return;
+    }
+    const eventData = validation.event;
+
+    connection.handlers.forEach(handler => {
+      try {
+        handler(eventData);
+      } catch (handlerError) {
+        console.error(`[Realtime] Handler error for ${channel}/${eventData.eventType}:`, handlerError);
+      }
+    });
+    this.eventTaps.forEach(listener => listener(channel, eventData));
+  }
+
+  // Invalid events are dropped and counted; followers get the leader's count with its status
+  private rejectEvent(channel: RealtimeChannel, reason: string, payload: unknown): void {
+    console.warn(`[Realtime] Dropped invalid ${channel} event: ${reason}`, payload);
+    if (this.ownsConnections) {
+      this.updateStatus(channel, {
+        invalidEvents: this.connections[channel].status.invalidEvents + 1,
+        lastInvalidReason: reason,
+      });
+    }
+  }
+
+  private recordHistory(channel: RealtimeChannel, type: ChannelHistoryEventType): void {
+    this.history = [
+      ...this.history,
+      { channel, type, at: Date.now(), reconnectAttempt: this.connections[channel].status.reconnectAttempts },
+    ].slice(-this.historySize);
+  }
+
+  // With `deferred`, listeners hear about the change with the next frame instead of right away
+  private updateStatus(channel: RealtimeChannel, updates: Partial<ChannelStatus>, deferred = false): void {
+    const connection = this.connections[channel];
+    connection.status = { ...connection.status, ...updates };
+    if (deferred) {
+      this.statusBatcher.push(channel);
+      return;
+    }
+    this.publishStatus();
+  }
+
+  private publishStatus(): void {
+    this.statusBatcher.cancel();
+    this.status = this.snapshotStatus();
+    this.statusListeners.forEach(listener => listener(this.status));
+    this.postStatus();
+  }
+
+  // Standalone clients and the leader tab open connections; followers get everything forwarded
+  private get ownsConnections(): boolean {
+    return !this.leadership || this.leadership.isLeader;
+  }
+
+  private hasSubscribers(): boolean {
+    return CHANNELS.some(channel => this.connections[channel].handlers.size > 0);
+  }
+
+  private isChannelNeeded(channel: RealtimeChannel): boolean {
+    if (this.connections[channel].handlers.size > 0) {
+      return true;
+    }
+    return Array.from(this.remoteInterest.values()).some(channels => channels.includes(channel));
+  }
+
+  private handleLeadershipChange(isLeader: boolean): void {
+    if (isLeader) {
+      console.log('[Realtime] This tab now holds the realtime connections');
+      this.postTabMessage({ type: 'hello' });
+      CHANNELS.forEach(channel => {
+        const connection = this.connections[channel];
+        if (this.isChannelNeeded(channel) && !connection.source && !connection.reconnectTimeout) {
+          // Resumes from the last event ID the previous leader forwarded
+          connection.retryDelay = this.retryInterval;
+          this.open(channel);
+        }
+      });
+      this.postStatus();
+      return;
+    }
+
+    // The next leader opens its own connections
+    CHANNELS.forEach(channel => this.teardown(this.connections[channel]));
+    this.remoteInterest.clear();
+    if (this.hasSubscribers() && !this.suspended) {
+      this.postInterest();
+    }
+  }
+
+  private handleTabMessage(message: TabMessage): void {
+    const isLeader = this.leadership?.isLeader ?? false;
+    if (this.suspended) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'event':
+        if (!isLeader) {
+          this.deliver(message.channel, message.data, message.lastEventId);
+        }
+        break;
+      case 'status':
+        if (!isLeader) {
+          CHANNELS.forEach(channel => {
+            this.connections[channel].status = message.status[channel];
+          });
+          this.history = message.history;
+          this.status = this.snapshotStatus();
+          this.statusListeners.forEach(listener => listener(this.status));
+        }
+        break;
+      case 'hello':
+        if (!isLeader && this.hasSubscribers()) {
+          this.postInterest();
+        }
+        break;
+      case 'status-request':
+        this.postStatus();
+        break;
+      case 'interest':
+        if (isLeader) {
+          this.remoteInterest.set(message.tabId, message.channels);
+          CHANNELS.forEach(channel => {
+            const connection = this.connections[channel];
+            const needed = this.isChannelNeeded(channel);
+            if (needed && !connection.source && !connection.reconnectTimeout) {
+              this.open(channel);
+            } else if (!needed && (connection.source || connection.reconnectTimeout)) {
+              this.close(channel);
+            }
+          });
+        }
+        break;
+      case 'reconnect':
+        if (isLeader) {
+          this.reconnect();
+        }
+        break;
+    }
+  }
+
+  private postTabMessage(message: TabMessage): void {
+    this.tabChannel?.postMessage(message);
+  }
+
+  private postInterest(): void {
+    const channels = CHANNELS.filter(channel => this.connections[channel].handlers.size > 0);
+    this.postTabMessage({ type: 'interest', tabId: this.tabId, channels });
+  }
+
+  private postStatus(): void {
+    if (this.leadership?.isLeader) {
+      this.postTabMessage({ type: 'status', status: this.status, history: this.history });
+    }
+  }
+
+  private snapshotStatus(): RealtimeStatus {
+    return {
+      devices: this.connections.devices.status,
+      scenarios: this.connections.scenarios.status,
+      system: this.connections.system.status,
+    };
+  }
+}
+
+/**
+ * Realtime client for the SSE endpoints under one backend's base URL
+ */
+export const createRealtimeClient = (sseBaseUrl: string) => new RealtimeClient({
+  channels: {
+    devices: getSSEUrl(runtimeConfig.sseDevicesPath, sseBaseUrl),
+    scenarios: getSSEUrl(runtimeConfig.sseScenariosPath, sseBaseUrl),
+    system: getSSEUrl(runtimeConfig.sseSystemPath, sseBaseUrl),
+  },
+  // Native EventSource cannot send an Authorization header, so authenticated setups stream over fetch
+  createSource: isAuthEnabled()
+    ? (url, lastEventId) => {
+      const authorization = getAuthorizationHeader();
+      return new FetchEventSource(url, {
+        headers: authorization ? { Authorization: authorization } : {},
+        lastEventId,
+      });
+    }
+    : undefined,
+  onUnauthorized: handleUnauthorized,
+  tabSyncName: `wb-mqtt-ui-realtime:${sseBaseUrl}`,
+});
+
+// Realtime client of the primary backend
+export const realtimeClient = createRealtimeClient(runtimeConfig.sseBaseUrl);
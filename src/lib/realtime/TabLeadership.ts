@@ -0,0 +1,73 @@
+type LeadershipListener = (isLeader: boolean) => void;
+
+/**
+ * Elects one leader among the browser tabs that contend under the same name, using a Web Lock:
+ * the tab holding the lock leads, the others wait in line. The browser releases the lock when
+ * the leader tab closes or crashes, so the next waiting tab takes over without any heartbeat.
+ */
+export class TabLeadership {
+  private leader = false;
+  private waiting: AbortController | null = null;
+  private releaseLock: (() => void) | null = null;
+  private listeners = new Set<LeadershipListener>();
+
+  constructor(private lockName: string) {}
+
+  // Both APIs are needed to share a connection; without them every tab leads itself
+  static isSupported(): boolean {
+    return typeof BroadcastChannel !== 'undefined' && typeof navigator !== 'undefined' && !!navigator.locks;
+  }
+
+  get isLeader(): boolean {
+    return this.leader;
+  }
+
+  onChange(listener: LeadershipListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Join the election; the listeners hear when this tab becomes leader
+   */
+  acquire(): void {
+    if (this.waiting || this.leader) {
+      return;
+    }
+
+    const waiting = new AbortController();
+    this.waiting = waiting;
+    navigator.locks
+      .request(this.lockName, { signal: waiting.signal }, () => {
+        this.waiting = null;
+        this.setLeader(true);
+        // Held until release() resolves it or the tab goes away
+        return new Promise<void>(resolve => {
+          this.releaseLock = resolve;
+        });
+      })
+      .catch(() => {
+        // Aborted while waiting in line
+      });
+  }
+
+  /**
+   * Leave the election, handing leadership to the next waiting tab
+   */
+  release(): void {
+    this.waiting?.abort();
+    this.waiting = null;
+    if (this.releaseLock) {
+      this.releaseLock();
+      this.releaseLock = null;
+      this.setLeader(false);
+    }
+  }
+
+  private setLeader(leader: boolean): void {
+    this.leader = leader;
+    this.listeners.forEach(listener => listener(leader));
+  }
+}
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { RealtimeClient } from '../RealtimeClient';
+import type { EventSourceLike } from '../FetchEventSource';
+
+class FakeEventSource implements EventSourceLike {
+  readyState = 0;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  open() {
+    this.readyState = 1;
+    this.onopen?.(new Event('open'));
+  }
+
+  emit(data: unknown, lastEventId = '') {
+    this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(data), lastEventId }));
+  }
+
+  close() {
+    this.readyState = 2;
+  }
+}
+
+const createClient = () => {
+  const sources: FakeEventSource[] = [];
+  const client = new RealtimeClient({
+    channels: { devices: '/events/devices', scenarios: '/events/scenarios', system: '/events/system' },
+    createSource: () => {
+      const source = new FakeEventSource();
+      sources.push(source);
+      return source;
+    },
+  });
+  return { client, sources };
+};
+
+describe('RealtimeClient', () => {
+  let warn: ReturnType<typeof jest.spyOn>;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('drops keepalive messages without warning or counting them', () => {
+    const { client, sources } = createClient();
+    const handler = jest.fn();
+    client.subscribe('devices', handler);
+    sources[0].open();
+
+    sources[0].emit({ eventType: 'keepalive' });
+    sources[0].emit({ eventType: 'keepalive', timestamp: '2024-01-01T00:00:00Z' });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(warn).not.toHaveBeenCalled();
+    expect(client.getStatus().devices.invalidEvents).toBe(0);
+  });
+
+  it('still counts events that do not match the schema', () => {
+    const { client, sources } = createClient();
+    client.subscribe('devices', jest.fn());
+    sources[0].open();
+
+    sources[0].emit({ eventType: 'unheard_of' });
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(client.getStatus().devices.invalidEvents).toBe(1);
+  });
+
+  it('delivers valid events to subscribers', () => {
+    const { client, sources } = createClient();
+    const handler = jest.fn();
+    client.subscribe('devices', handler);
+    sources[0].open();
+
+    const event = { eventType: 'action_success', device_id: 'tv', device_name: 'TV' };
+    sources[0].emit(event, '1');
+
+    expect(handler).toHaveBeenCalledWith(event);
+  });
+});
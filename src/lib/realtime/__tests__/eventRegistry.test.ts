@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { RealtimeEventRegistry, type RealtimeEventContext } from '../eventRegistry';
+import { registerCacheHandlers } from '../handlers/cacheHandlers';
+import type { DeviceStateChangeEvent } from '../../../types/realtime';
+
+const createContext = () => ({
+  applyDeviceStateChange: jest.fn<RealtimeEventContext['applyDeviceStateChange']>(),
+  addProgressMessage: jest.fn<RealtimeEventContext['addProgressMessage']>(),
+  addLog: jest.fn<RealtimeEventContext['addLog']>(),
+  addNotification: jest.fn<RealtimeEventContext['addNotification']>(),
+  addScenarioTimelineEntry: jest.fn<RealtimeEventContext['addScenarioTimelineEntry']>(),
+});
+
+const stateChange = (deviceId: string, state: Record<string, unknown>): DeviceStateChangeEvent => ({
+  eventType: 'state_change',
+  device_id: deviceId,
+  device_name: deviceId,
+  state: { device_id: deviceId, device_name: deviceId, ...state },
+});
+
+describe('RealtimeEventRegistry', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('dispatches to the handlers of the channel and event type only', () => {
+    const registry = new RealtimeEventRegistry();
+    const devices = jest.fn();
+    const scenarios = jest.fn();
+    registry.register('devices', ['action_success'], devices);
+    registry.register('scenarios', ['test'], scenarios);
+
+    const event = { eventType: 'action_success' as const, device_id: 'tv', device_name: 'TV' };
+    expect(registry.dispatch('devices', event, createContext())).toBe(1);
+    expect(registry.dispatch('devices', { ...event, eventType: 'action_error' }, createContext())).toBe(0);
+
+    expect(devices).toHaveBeenCalledTimes(1);
+    expect(scenarios).not.toHaveBeenCalled();
+  });
+
+  it('keeps a failing handler from the others', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const registry = new RealtimeEventRegistry();
+    const after = jest.fn();
+    registry.register('devices', ['action_success'], () => {
+      throw new Error('boom');
+    });
+    registry.register('devices', ['action_success'], after);
+
+    registry.dispatch('devices', { eventType: 'action_success', device_id: 'tv', device_name: 'TV' }, createContext());
+
+    expect(after).toHaveBeenCalledTimes(1);
+    expect(console.error).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops dispatching to an unregistered handler', () => {
+    const registry = new RealtimeEventRegistry();
+    const handler = jest.fn();
+    const unregister = registry.register('system', ['test'], handler);
+    unregister();
+
+    expect(registry.dispatch('system', { eventType: 'test', message: 'hi' }, createContext())).toBe(0);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  describe('dispatchBatch', () => {
+    it('merges the state patches of a burst into one update per device', () => {
+      const registry = new RealtimeEventRegistry();
+      registerCacheHandlers(registry);
+      const context = createContext();
+
+      registry.dispatchBatch([
+        { channel: 'devices', event: stateChange('tv', { power: 'on', volume: 10 }) },
+        { channel: 'devices', event: stateChange('amp', { mute: false }) },
+        { channel: 'devices', event: stateChange('tv', { volume: 15 }) },
+      ], context);
+
+      expect(context.applyDeviceStateChange).toHaveBeenCalledTimes(2);
+      expect(context.applyDeviceStateChange).toHaveBeenCalledWith(
+        'tv',
+        { device_id: 'tv', device_name: 'tv', power: 'on', volume: 15 }
+      );
+      expect(context.applyDeviceStateChange).toHaveBeenCalledWith(
+        'amp',
+        { device_id: 'amp', device_name: 'amp', mute: false }
+      );
+    });
+
+    it('runs the other handlers in arrival order right away', () => {
+      const registry = new RealtimeEventRegistry();
+      registerCacheHandlers(registry);
+      const seen: string[] = [];
+      registry.register('devices', ['action_success', 'action_error'], event => {
+        seen.push(event.eventType);
+      });
+      const context = createContext();
+
+      registry.dispatchBatch([
+        { channel: 'devices', event: { eventType: 'action_error', device_id: 'tv', device_name: 'TV' } },
+        { channel: 'devices', event: stateChange('tv', { power: 'off' }) },
+        { channel: 'devices', event: { eventType: 'action_success', device_id: 'tv', device_name: 'TV' } },
+      ], context);
+
+      expect(seen).toEqual(['action_error', 'action_success']);
+      expect(context.applyDeviceStateChange).toHaveBeenCalledTimes(1);
+    });
+
+    it('applies nothing when the burst carries no state', () => {
+      const registry = new RealtimeEventRegistry();
+      registerCacheHandlers(registry);
+      const context = createContext();
+
+      registry.dispatchBatch([{ channel: 'system', event: { eventType: 'test', message: 'hi' } }], context);
+
+      expect(context.applyDeviceStateChange).not.toHaveBeenCalled();
+    });
+  });
+});
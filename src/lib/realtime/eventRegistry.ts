@@ -0,0 +1,98 @@
+import type { BaseDeviceState } from '../../types/BaseDeviceState';
+import type { LogEntry } from '../../types/LogEntry';
+import type { RealtimeChannel, RealtimeEventMap } from '../../types/realtime';
+import type { ProgressMessage } from '../../hooks/useProgressStore';
+import type { AppNotification } from '../../stores/useNotificationStore';
+import type { ScenarioTimelineEntry } from '../../stores/useScenarioTimelineStore';
+
+export type RealtimeEventType<C extends RealtimeChannel> = RealtimeEventMap[C]['eventType'];
+
+// The events of a channel with one of the given types. Some event interfaces cover several types
+// (DeviceActionEvent), so they are narrowed to the requested ones rather than matched whole.
+type NarrowEvent<E, T> = E extends { eventType: infer K }
+  ? [Extract<K, T>] extends [never] ? never : E & { eventType: Extract<K, T> }
+  : never;
+
+export type RealtimeEventOf<C extends RealtimeChannel, T extends RealtimeEventType<C>> =
+  NarrowEvent<RealtimeEventMap[C], T>;
+
+// What event handlers act on. Passed in rather than imported, so a handler can be
+// exercised with synthetic events and fakes.
+export interface RealtimeEventContext {
+  applyDeviceStateChange: (deviceId: string, state: Partial<BaseDeviceState>) => void;
+  addProgressMessage: (message: Omit<ProgressMessage, 'id' | 'timestamp'>) => void;
+  addLog: (entry: Omit<LogEntry, 'id' | 'timestamp'>) => void;
+  addNotification: (notification: Omit<AppNotification, 'id' | 'timestamp'>) => void;
+  addScenarioTimelineEntry: (scenarioId: string, entry: ScenarioTimelineEntry) => void;
+}
+
+export type RegisteredEventHandler<C extends RealtimeChannel, T extends RealtimeEventType<C>> =
+  (event: RealtimeEventOf<C, T>, context: RealtimeEventContext) => void;
+
+// An event together with the channel it arrived on
+export type QueuedRealtimeEvent = {
+  [C in RealtimeChannel]: { channel: C; event: RealtimeEventMap[C] };
+}[RealtimeChannel];
+
+type AnyEventHandler = (event: RealtimeEventMap[RealtimeChannel], context: RealtimeEventContext) => void;
+
+/**
+ * Routes validated realtime events to the handlers registered for their channel and event type.
+ * Each consumer (progress, log, cache, ...) registers on its own; a failing handler does not
+ * keep the event from the others.
+ */
+export class RealtimeEventRegistry {
+  private handlers = new Map<string, Set<AnyEventHandler>>();
+
+  register<C extends RealtimeChannel, T extends RealtimeEventType<C>>(
+    channel: C,
+    eventTypes: readonly T[],
+    handler: RegisteredEventHandler<C, T>
+  ): () => void {
+    const keys = eventTypes.map(eventType => `${channel}:${eventType}`);
+    keys.forEach(key => {
+      if (!this.handlers.has(key)) {
+        this.handlers.set(key, new Set());
+      }
+      this.handlers.get(key)!.add(handler as AnyEventHandler);
+    });
+    return () => {
+      keys.forEach(key => this.handlers.get(key)?.delete(handler as AnyEventHandler));
+    };
+  }
+
+  /**
+   * Hand an event to its handlers; returns how many there were
+   */
+  dispatch<C extends RealtimeChannel>(channel: C, event: RealtimeEventMap[C], context: RealtimeEventContext): number {
+    const handlers = this.handlers.get(`${channel}:${event.eventType}`);
+    if (!handlers) {
+      return 0;
+    }
+    handlers.forEach(handler => {
+      try {
+        handler(event, context);
+      } catch (error) {
+        console.error(`[Realtime] Handler error for ${channel}/${event.eventType}:`, error);
+      }
+    });
+    return handlers.size;
+  }
+
+  /**
+   * Dispatch a burst of events in arrival order. Device state patches from all of them are
+   * merged per device and applied once at the end, so each device's subscribers update once.
+   */
+  dispatchBatch(events: readonly QueuedRealtimeEvent[], context: RealtimeEventContext): void {
+    const patches = new Map<string, Partial<BaseDeviceState>>();
+    const batchContext: RealtimeEventContext = {
+      ...context,
+      applyDeviceStateChange: (deviceId, state) => patches.set(deviceId, { ...patches.get(deviceId), ...state }),
+    };
+    events.forEach(({ channel, event }) => this.dispatch(channel, event, batchContext));
+    patches.forEach((state, deviceId) => context.applyDeviceStateChange(deviceId, state));
+  }
+}
+
+// Registry the app dispatches to (see useRealtimeEventHandlers)
+export const realtimeEventRegistry = new RealtimeEventRegistry();
@@ -0,0 +1,115 @@
+import type {
+  DeviceEventData,
+  RealtimeChannel,
+  RealtimeEventMap,
+  ScenarioEventData,
+  SystemEventData,
+} from '../../types/realtime';
+
+/**
+ * Version of the realtime event schema this UI understands. Events may carry a
+ * `schema_version`; those of another version are rejected rather than misread.
+ * Events without one are taken to be of this version.
+ */
+export const REALTIME_EVENT_SCHEMA_VERSION = 1;
+
+type Payload = Record<string, unknown>;
+// Returns why the payload does not match, or null when it does
+type EventValidator = (payload: Payload) => string | null;
+
+export type RealtimeEventValidation<C extends RealtimeChannel> =
+  | { valid: true; event: RealtimeEventMap[C] }
+  | { valid: false; reason: string };
+
+const isRecord = (value: unknown): value is Payload =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkString = (payload: Payload, field: string, path = field): string | null =>
+  typeof payload[field] === 'string' ? null : `${path} must be a string`;
+
+const checkOptional = (payload: Payload, field: string, type: 'string' | 'number'): string | null =>
+  payload[field] === undefined || payload[field] === null || typeof payload[field] === type
+    ? null
+    : `${field} must be a ${type}`;
+
+const firstError = (...errors: Array<string | null>): string | null => errors.find(error => error !== null) ?? null;
+
+const checkDeviceEvent: EventValidator = (payload) => firstError(
+  checkString(payload, 'device_id'),
+  checkString(payload, 'device_name'),
+  checkOptional(payload, 'message', 'string'),
+  checkOptional(payload, 'timestamp', 'string'),
+);
+
+// One validator per event type: a type added to an event union does not compile until it gets one here
+const deviceValidators: Record<DeviceEventData['eventType'], EventValidator> = {
+  action_success: checkDeviceEvent,
+  action_error: checkDeviceEvent,
+  action_progress: checkDeviceEvent,
+  state_change: (payload) => checkDeviceEvent(payload) ?? (isRecord(payload.state) ? null : 'state must be an object'),
+  test: (payload) => isRecord(payload.data)
+    ? firstError(
+      checkString(payload.data, 'device_id', 'data.device_id'),
+      checkString(payload.data, 'device_name', 'data.device_name'),
+      checkString(payload.data, 'message', 'data.message'),
+    )
+    : 'data must be an object',
+};
+
+const scenarioValidators: Record<ScenarioEventData['eventType'], EventValidator> = {
+  test: (payload) => firstError(
+    checkString(payload, 'scenario_id'),
+    checkString(payload, 'message'),
+    checkOptional(payload, 'scenario_name', 'string'),
+    checkOptional(payload, 'progress', 'number'),
+  ),
+};
+
+const systemValidators: Record<SystemEventData['eventType'], EventValidator> = {
+  test: (payload) => firstError(
+    checkString(payload, 'message'),
+    payload.level === undefined || ['info', 'warn', 'error'].includes(payload.level as string)
+      ? null
+      : 'level must be info, warn or error',
+  ),
+};
+
+const validators: Record<RealtimeChannel, Record<string, EventValidator>> = {
+  devices: deviceValidators,
+  scenarios: scenarioValidators,
+  system: systemValidators,
+};
+
+/**
+ * Check a parsed event payload against the schema of its channel
+ */
+export function validateRealtimeEvent<C extends RealtimeChannel>(channel: C, payload: unknown): RealtimeEventValidation<C> {
+  if (!isRecord(payload)) {
+    return { valid: false, reason: 'payload is not an object' };
+  }
+  if (payload.schema_version !== undefined && payload.schema_version !== REALTIME_EVENT_SCHEMA_VERSION) {
+    return { valid: false, reason: `schema version ${String(payload.schema_version)} is not supported` };
+  }
+  if (typeof payload.eventType !== 'string') {
+    return { valid: false, reason: 'eventType is missing' };
+  }
+
+  const channelValidators = validators[channel];
+  if (!Object.prototype.hasOwnProperty.call(channelValidators, payload.eventType)) {
+    return { valid: false, reason: `unknown ${channel} event type "${payload.eventType}"` };
+  }
+  const reason = channelValidators[payload.eventType](payload);
+  if (reason) {
+    return { valid: false, reason: `${payload.eventType}: ${reason}` };
+  }
+  return { valid: true, event: payload as unknown as RealtimeEventMap[C] };
+}
+
+/**
+ * For the default branch of a switch over an event union's eventType: stops compiling when a new
+ * event type is added without a case for it. Pass the event, or its eventType on channels with a
+ * single event type (TypeScript narrows only that to never there).
+ */
+export function assertUnhandledEvent(unhandled: never): void {
+  console.warn('[Realtime] Event without a handler:', unhandled);
+}
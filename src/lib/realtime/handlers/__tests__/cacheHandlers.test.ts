@@ -0,0 +1,47 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { RealtimeEventRegistry, type RealtimeEventContext } from '../../eventRegistry';
+import { registerCacheHandlers } from '../cacheHandlers';
+
+const createContext = () => ({
+  applyDeviceStateChange: jest.fn<RealtimeEventContext['applyDeviceStateChange']>(),
+  addProgressMessage: jest.fn<RealtimeEventContext['addProgressMessage']>(),
+  addLog: jest.fn<RealtimeEventContext['addLog']>(),
+  addNotification: jest.fn<RealtimeEventContext['addNotification']>(),
+  addScenarioTimelineEntry: jest.fn<RealtimeEventContext['addScenarioTimelineEntry']>(),
+});
+
+describe('registerCacheHandlers', () => {
+  it('applies the state of state_change events to the device', () => {
+    const registry = new RealtimeEventRegistry();
+    registerCacheHandlers(registry);
+    const context = createContext();
+    const state = { device_id: 'tv', device_name: 'TV', power: 'on', volume: 20 };
+
+    registry.dispatch('devices', { eventType: 'state_change', device_id: 'tv', device_name: 'TV', state }, context);
+
+    expect(context.applyDeviceStateChange).toHaveBeenCalledWith('tv', state);
+    expect(context.addProgressMessage).not.toHaveBeenCalled();
+  });
+
+  it('leaves action events alone', () => {
+    const registry = new RealtimeEventRegistry();
+    registerCacheHandlers(registry);
+    const context = createContext();
+
+    registry.dispatch('devices', { eventType: 'action_success', device_id: 'tv', device_name: 'TV' }, context);
+
+    expect(context.applyDeviceStateChange).not.toHaveBeenCalled();
+  });
+
+  it('stops once unregistered', () => {
+    const registry = new RealtimeEventRegistry();
+    const unregister = registerCacheHandlers(registry);
+    const context = createContext();
+    unregister();
+
+    const state = { device_id: 'tv', device_name: 'TV', power: 'off' };
+    registry.dispatch('devices', { eventType: 'state_change', device_id: 'tv', device_name: 'TV', state }, context);
+
+    expect(context.applyDeviceStateChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { RealtimeEventRegistry, type RealtimeEventContext } from '../../eventRegistry';
+import { registerNotificationHandlers } from '../notificationHandlers';
+
+const createContext = () => ({
+  applyDeviceStateChange: jest.fn<RealtimeEventContext['applyDeviceStateChange']>(),
+  addProgressMessage: jest.fn<RealtimeEventContext['addProgressMessage']>(),
+  addLog: jest.fn<RealtimeEventContext['addLog']>(),
+  addNotification: jest.fn<RealtimeEventContext['addNotification']>(),
+  addScenarioTimelineEntry: jest.fn<RealtimeEventContext['addScenarioTimelineEntry']>(),
+});
+
+const setup = () => {
+  const registry = new RealtimeEventRegistry();
+  registerNotificationHandlers(registry);
+  return { registry, context: createContext() };
+};
+
+describe('registerNotificationHandlers', () => {
+  it('notifies about failed device actions', () => {
+    const { registry, context } = setup();
+
+    registry.dispatch('devices', { eventType: 'action_error', device_id: 'tv', device_name: 'TV', message: 'No response' }, context);
+    registry.dispatch('devices', { eventType: 'action_error', device_id: 'tv', device_name: 'TV' }, context);
+
+    expect(context.addNotification.mock.calls.map(([notification]) => notification)).toEqual([
+      { level: 'error', title: 'TV', message: 'No response' },
+      { level: 'error', title: 'TV', message: 'Action failed' },
+    ]);
+  });
+
+  it('does not notify about successful or running actions', () => {
+    const { registry, context } = setup();
+
+    registry.dispatch('devices', { eventType: 'action_success', device_id: 'tv', device_name: 'TV' }, context);
+    registry.dispatch('devices', { eventType: 'action_progress', device_id: 'tv', device_name: 'TV' }, context);
+
+    expect(context.addNotification).not.toHaveBeenCalled();
+  });
+
+  it('notifies about system events at warn or error level only', () => {
+    const { registry, context } = setup();
+
+    registry.dispatch('system', { eventType: 'test', message: 'Disk almost full', level: 'warn' }, context);
+    registry.dispatch('system', { eventType: 'test', message: 'Broker lost', level: 'error' }, context);
+    registry.dispatch('system', { eventType: 'test', message: 'Started', level: 'info' }, context);
+    registry.dispatch('system', { eventType: 'test', message: 'Ping' }, context);
+
+    expect(context.addNotification.mock.calls.map(([notification]) => notification)).toEqual([
+      { level: 'warn', title: 'System', message: 'Disk almost full' },
+      { level: 'error', title: 'System', message: 'Broker lost' },
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { RealtimeEventRegistry, type RealtimeEventContext } from '../../eventRegistry';
+import { registerProgressHandlers } from '../progressHandlers';
+
+const createContext = () => ({
+  applyDeviceStateChange: jest.fn<RealtimeEventContext['applyDeviceStateChange']>(),
+  addProgressMessage: jest.fn<RealtimeEventContext['addProgressMessage']>(),
+  addLog: jest.fn<RealtimeEventContext['addLog']>(),
+  addNotification: jest.fn<RealtimeEventContext['addNotification']>(),
+  addScenarioTimelineEntry: jest.fn<RealtimeEventContext['addScenarioTimelineEntry']>(),
+});
+
+const setup = () => {
+  const registry = new RealtimeEventRegistry();
+  registerProgressHandlers(registry);
+  return { registry, context: createContext() };
+};
+
+describe('registerProgressHandlers', () => {
+  it('reports device actions with their message', () => {
+    const { registry, context } = setup();
+
+    registry.dispatch(
+      'devices',
+      { eventType: 'action_progress', device_id: 'tv', device_name: 'TV', message: 'Switching input' },
+      context
+    );
+
+    expect(context.addProgressMessage).toHaveBeenCalledWith({
+      type: 'device',
+      deviceId: 'tv',
+      deviceName: 'TV',
+      message: 'Switching input',
+      eventType: 'action_progress',
+    });
+  });
+
+  it('falls back to a default message per action outcome', () => {
+    const { registry, context } = setup();
+
+    registry.dispatch('devices', { eventType: 'action_success', device_id: 'tv', device_name: 'TV' }, context);
+    registry.dispatch('devices', { eventType: 'action_error', device_id: 'tv', device_name: 'TV' }, context);
+
+    expect(context.addProgressMessage.mock.calls.map(([message]) => message.message)).toEqual([
+      'Action completed successfully',
+      'Action failed',
+    ]);
+  });
+
+  it('reads device test events from their nested data', () => {
+    const { registry, context } = setup();
+
+    registry.dispatch(
+      'devices',
+      { eventType: 'test', data: { device_id: 'tv', device_name: 'TV', message: 'ping' } },
+      context
+    );
+
+    expect(context.addProgressMessage).toHaveBeenCalledWith({
+      type: 'device',
+      deviceId: 'tv',
+      deviceName: 'TV',
+      message: 'ping',
+      eventType: 'test',
+    });
+  });
+
+  it('reports scenario test events', () => {
+    const { registry, context } = setup();
+
+    registry.dispatch(
+      'scenarios',
+      { eventType: 'test', scenario_id: 'movie', scenario_name: 'Movie night', message: 'Starting' },
+      context
+    );
+
+    expect(context.addProgressMessage).toHaveBeenCalledWith({
+      type: 'scenario',
+      scenarioId: 'movie',
+      scenarioName: 'Movie night',
+      message: 'Starting',
+      eventType: 'test',
+    });
+  });
+
+  it('does not report state changes', () => {
+    const { registry, context } = setup();
+    const state = { device_id: 'tv', device_name: 'TV', power: 'on' };
+
+    registry.dispatch('devices', { eventType: 'state_change', device_id: 'tv', device_name: 'TV', state }, context);
+
+    expect(context.addProgressMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { RealtimeEventRegistry, type RealtimeEventContext } from '../../eventRegistry';
+import { registerScenarioTimelineHandlers } from '../scenarioTimelineHandlers';
+
+const createContext = () => ({
+  applyDeviceStateChange: jest.fn<RealtimeEventContext['applyDeviceStateChange']>(),
+  addProgressMessage: jest.fn<RealtimeEventContext['addProgressMessage']>(),
+  addLog: jest.fn<RealtimeEventContext['addLog']>(),
+  addNotification: jest.fn<RealtimeEventContext['addNotification']>(),
+  addScenarioTimelineEntry: jest.fn<RealtimeEventContext['addScenarioTimelineEntry']>(),
+});
+
+const setup = () => {
+  const registry = new RealtimeEventRegistry();
+  registerScenarioTimelineHandlers(registry);
+  return { registry, context: createContext() };
+};
+
+describe('registerScenarioTimelineHandlers', () => {
+  it('adds scenario events to their scenario timeline with the reported progress and time', () => {
+    const { registry, context } = setup();
+
+    registry.dispatch(
+      'scenarios',
+      { eventType: 'test', scenario_id: 'movie', message: 'Projector on', progress: 40, timestamp: '2025-01-01T20:00:00Z' },
+      context
+    );
+
+    expect(context.addScenarioTimelineEntry).toHaveBeenCalledWith('movie', {
+      message: 'Projector on',
+      progress: 40,
+      at: Date.parse('2025-01-01T20:00:00Z'),
+    });
+  });
+
+  it('dates events without a valid timestamp on arrival', () => {
+    jest.useFakeTimers({ now: new Date('2025-01-01T21:00:00Z') });
+    try {
+      const { registry, context } = setup();
+
+      registry.dispatch('scenarios', { eventType: 'test', scenario_id: 'movie', message: 'Starting' }, context);
+      registry.dispatch('scenarios', { eventType: 'test', scenario_id: 'movie', message: 'Lights', timestamp: 'soon' }, context);
+
+      expect(context.addScenarioTimelineEntry.mock.calls.map(([, entry]) => entry.at)).toEqual([
+        Date.parse('2025-01-01T21:00:00Z'),
+        Date.parse('2025-01-01T21:00:00Z'),
+      ]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('ignores device events', () => {
+    const { registry, context } = setup();
+
+    registry.dispatch('devices', { eventType: 'action_success', device_id: 'tv', device_name: 'TV' }, context);
+
+    expect(context.addScenarioTimelineEntry).not.toHaveBeenCalled();
+  });
+});
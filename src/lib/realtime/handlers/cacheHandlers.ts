@@ -0,0 +1,10 @@
+import type { RealtimeEventRegistry } from '../eventRegistry';
+
+/**
+ * Query cache: device state pushed with state_change events
+ */
+export function registerCacheHandlers(registry: RealtimeEventRegistry): () => void {
+  return registry.register('devices', ['state_change'], (event, { applyDeviceStateChange }) => {
+    applyDeviceStateChange(event.device_id, event.state);
+  });
+}
@@ -0,0 +1,21 @@
+import type { RealtimeEventRegistry } from '../eventRegistry';
+import { registerProgressHandlers } from './progressHandlers';
+import { registerLogHandlers } from './logHandlers';
+import { registerCacheHandlers } from './cacheHandlers';
+import { registerNotificationHandlers } from './notificationHandlers';
+import { registerScenarioTimelineHandlers } from './scenarioTimelineHandlers';
+
+/**
+ * Register the built-in event consumers. Features with consumers of their own register them on
+ * the same registry (realtimeEventRegistry) wherever they live.
+ */
+export function registerDefaultEventHandlers(registry: RealtimeEventRegistry): () => void {
+  const unregisters = [
+    registerProgressHandlers(registry),
+    registerLogHandlers(registry),
+    registerCacheHandlers(registry),
+    registerNotificationHandlers(registry),
+    registerScenarioTimelineHandlers(registry),
+  ];
+  return () => unregisters.forEach(unregister => unregister());
+}
@@ -0,0 +1,28 @@
+import type { RealtimeEventRegistry } from '../eventRegistry';
+
+/**
+ * Log panel: finished device actions and system test events
+ */
+export function registerLogHandlers(registry: RealtimeEventRegistry): () => void {
+  const unregisterDevices = registry.register('devices', ['action_success', 'action_error'], (event, { addLog }) => {
+    const succeeded = event.eventType === 'action_success';
+    addLog({
+      level: succeeded ? 'info' : 'error',
+      message: `${event.device_name}: ${event.message || (succeeded ? 'Action completed successfully' : 'Action failed')}`,
+      details: { device_id: event.device_id, timestamp: event.timestamp, eventType: event.eventType },
+    });
+  });
+
+  const unregisterSystem = registry.register('system', ['test'], (event, { addLog }) => {
+    addLog({
+      level: event.level || 'info',
+      message: event.message,
+      details: { eventType: event.eventType },
+    });
+  });
+
+  return () => {
+    unregisterDevices();
+    unregisterSystem();
+  };
+}
@@ -0,0 +1,25 @@
+import type { RealtimeEventRegistry } from '../eventRegistry';
+
+/**
+ * Notifications: failed device actions, and system events at warn or error level
+ */
+export function registerNotificationHandlers(registry: RealtimeEventRegistry): () => void {
+  const unregisterDevices = registry.register('devices', ['action_error'], (event, { addNotification }) => {
+    addNotification({
+      level: 'error',
+      title: event.device_name,
+      message: event.message || 'Action failed',
+    });
+  });
+
+  const unregisterSystem = registry.register('system', ['test'], (event, { addNotification }) => {
+    if (event.level === 'warn' || event.level === 'error') {
+      addNotification({ level: event.level, title: 'System', message: event.message });
+    }
+  });
+
+  return () => {
+    unregisterDevices();
+    unregisterSystem();
+  };
+}
@@ -0,0 +1,65 @@
+import { assertUnhandledEvent } from '../eventSchema';
+import type { RealtimeEventRegistry } from '../eventRegistry';
+import type { DeviceActionEvent } from '../../../types/realtime';
+
+// Progress text for action events that arrive without a message
+const defaultActionMessages: Record<DeviceActionEvent['eventType'], string> = {
+  action_success: 'Action completed successfully',
+  action_error: 'Action failed',
+  action_progress: 'Action in progress',
+};
+
+/**
+ * Progress report: device actions (success green, error red, progress blue) and test events.
+ * State changes are not shown per specification.
+ */
+export function registerProgressHandlers(registry: RealtimeEventRegistry): () => void {
+  const unregisterDevices = registry.register(
+    'devices',
+    ['test', 'action_success', 'action_error', 'action_progress'],
+    (event, { addProgressMessage }) => {
+      switch (event.eventType) {
+        case 'test':
+          // Test events nest the device fields under data
+          addProgressMessage({
+            type: 'device',
+            deviceId: event.data.device_id,
+            deviceName: event.data.device_name,
+            message: event.data.message,
+            eventType: 'test',
+          });
+          break;
+
+        case 'action_success':
+        case 'action_error':
+        case 'action_progress':
+          addProgressMessage({
+            type: 'device',
+            deviceId: event.device_id,
+            deviceName: event.device_name,
+            message: event.message || defaultActionMessages[event.eventType],
+            eventType: event.eventType,
+          });
+          break;
+
+        default:
+          assertUnhandledEvent(event);
+      }
+    }
+  );
+
+  const unregisterScenarios = registry.register('scenarios', ['test'], (event, { addProgressMessage }) => {
+    addProgressMessage({
+      type: 'scenario',
+      scenarioId: event.scenario_id,
+      scenarioName: event.scenario_name,
+      message: event.message,
+      eventType: event.eventType,
+    });
+  });
+
+  return () => {
+    unregisterDevices();
+    unregisterScenarios();
+  };
+}
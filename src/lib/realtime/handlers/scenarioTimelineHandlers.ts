@@ -0,0 +1,16 @@
+import type { RealtimeEventRegistry } from '../eventRegistry';
+
+/**
+ * Scenario timelines: every scenario event in order, with the progress it reports, dated by
+ * the backend when it says when
+ */
+export function registerScenarioTimelineHandlers(registry: RealtimeEventRegistry): () => void {
+  return registry.register('scenarios', ['test'], (event, { addScenarioTimelineEntry }) => {
+    const reportedAt = event.timestamp ? Date.parse(event.timestamp) : NaN;
+    addScenarioTimelineEntry(event.scenario_id, {
+      message: event.message,
+      progress: event.progress,
+      at: Number.isNaN(reportedAt) ? Date.now() : reportedAt,
+    });
+  });
+}
@@ -0,0 +1,290 @@
+import axios, { type InternalAxiosRequestConfig } from 'axios';
+import { getAllBackends, getBackend } from './backends';
+import type { RealtimeChannel, RealtimeEventMap } from '../types/realtime';
+
+export const SESSION_FILE_FORMAT = 'wb-mqtt-ui-session';
+export const SESSION_FILE_VERSION = 1;
+
+// Recording stops collecting past this many entries so a forgotten recorder cannot exhaust memory
+const MAX_ENTRIES = 50_000;
+
+// `at` is milliseconds since the recording started
+export type SessionEntry =
+  | {
+    at: number;
+    kind: 'event';
+    backendId: string;
+    channel: RealtimeChannel;
+    event: RealtimeEventMap[RealtimeChannel];
+  }
+  | {
+    at: number;
+    kind: 'request';
+    backendId: string;
+    requestId: number;
+    method: string;
+    url: string;
+    data?: unknown;
+  }
+  | {
+    at: number;
+    kind: 'response';
+    backendId: string;
+    requestId: number;
+    status: number | null;
+    durationMs: number;
+    data?: unknown;
+    error?: string;
+  };
+
+export interface SessionRecording {
+  format: typeof SESSION_FILE_FORMAT;
+  version: typeof SESSION_FILE_VERSION;
+  startedAt: string;
+  durationMs: number;
+  truncated: boolean;
+  backends: Array<{ id: string; label: string }>;
+  entries: SessionEntry[];
+}
+
+export type SessionMode = 'idle' | 'recording' | 'replaying';
+
+export interface SessionReplayProgress {
+  name: string;
+  speed: number;
+  delivered: number;
+  total: number;
+  finished: boolean;
+}
+
+export interface SessionRecorderState {
+  mode: SessionMode;
+  // While recording
+  startedAt: number | null;
+  entryCount: number;
+  // While replaying
+  replay: SessionReplayProgress | null;
+}
+
+let state: SessionRecorderState = { mode: 'idle', startedAt: null, entryCount: 0, replay: null };
+const listeners = new Set<() => void>();
+
+const setState = (updates: Partial<SessionRecorderState>) => {
+  state = { ...state, ...updates };
+  listeners.forEach(listener => listener());
+};
+
+export const getSessionState = (): SessionRecorderState => state;
+
+export function subscribeSession(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Recording in progress
+let entries: SessionEntry[] = [];
+let truncated = false;
+let stopTaps: Array<() => void> = [];
+let nextRequestId = 1;
+
+// Replay in progress
+let replayTimer: ReturnType<typeof setTimeout> | null = null;
+
+const record = (entry: SessionEntry) => {
+  if (entries.length >= MAX_ENTRIES) {
+    truncated = true;
+    return;
+  }
+  entries.push(entry);
+  setState({ entryCount: entries.length });
+};
+
+const elapsed = () => Date.now() - (state.startedAt ?? Date.now());
+
+// Device actions and other commands; reads are left out to keep recordings focused
+const isActionRequest = (config: InternalAxiosRequestConfig) => (config.method ?? 'get').toLowerCase() !== 'get';
+
+/**
+ * Start capturing realtime events of every backend and their REST action requests and responses
+ */
+export function startRecording(): void {
+  if (state.mode !== 'idle') {
+    return;
+  }
+  entries = [];
+  truncated = false;
+  setState({ mode: 'recording', startedAt: Date.now(), entryCount: 0 });
+
+  stopTaps = getAllBackends().flatMap(({ config, api, realtime }) => {
+    const backendId = config.id;
+    const pending = new WeakMap<InternalAxiosRequestConfig, { requestId: number; sentAt: number }>();
+
+    const untapEvents = realtime.tap((channel, event) => {
+      record({ at: elapsed(), kind: 'event', backendId, channel, event });
+    });
+
+    const requestInterceptor = api.interceptors.request.use((requestConfig) => {
+      if (isActionRequest(requestConfig)) {
+        const requestId = nextRequestId++;
+        pending.set(requestConfig, { requestId, sentAt: Date.now() });
+        record({
+          at: elapsed(),
+          kind: 'request',
+          backendId,
+          requestId,
+          method: (requestConfig.method ?? 'get').toUpperCase(),
+          url: requestConfig.url ?? '',
+          data: requestConfig.data,
+        });
+      }
+      return requestConfig;
+    });
+
+    const responseInterceptor = api.interceptors.response.use(
+      (response) => {
+        const request = pending.get(response.config);
+        if (request) {
+          record({
+            at: elapsed(),
+            kind: 'response',
+            backendId,
+            requestId: request.requestId,
+            status: response.status,
+            durationMs: Date.now() - request.sentAt,
+            data: response.data,
+          });
+        }
+        return response;
+      },
+      (error) => {
+        const request = axios.isAxiosError(error) && error.config ? pending.get(error.config) : undefined;
+        if (request) {
+          record({
+            at: elapsed(),
+            kind: 'response',
+            backendId,
+            requestId: request.requestId,
+            status: error.response?.status ?? null,
+            durationMs: Date.now() - request.sentAt,
+            data: error.response?.data,
+            error: error.message,
+          });
+        }
+        return Promise.reject(error);
+      }
+    );
+
+    return [
+      untapEvents,
+      () => api.interceptors.request.eject(requestInterceptor),
+      () => api.interceptors.response.eject(responseInterceptor),
+    ];
+  });
+}
+
+/**
+ * Stop recording and return what was captured
+ */
+export function stopRecording(): SessionRecording | null {
+  if (state.mode !== 'recording' || state.startedAt === null) {
+    return null;
+  }
+  stopTaps.forEach(stop => stop());
+  stopTaps = [];
+
+  const recording: SessionRecording = {
+    format: SESSION_FILE_FORMAT,
+    version: SESSION_FILE_VERSION,
+    startedAt: new Date(state.startedAt).toISOString(),
+    durationMs: elapsed(),
+    truncated,
+    backends: getAllBackends().map(({ config }) => ({ id: config.id, label: config.label })),
+    entries,
+  };
+  entries = [];
+  setState({ mode: 'idle', startedAt: null, entryCount: 0 });
+  return recording;
+}
+
+/**
+ * Save a recording as a JSON file through the browser's download
+ */
+export function downloadRecording(recording: SessionRecording): void {
+  const blob = new Blob([JSON.stringify(recording, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `wb-mqtt-ui-session-${recording.startedAt.replace(/[:.]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Parse a recording file; throws with a readable message when it is not one
+ */
+export function parseRecording(text: string): SessionRecording {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  const recording = parsed as Partial<SessionRecording> | null;
+  if (!recording || recording.format !== SESSION_FILE_FORMAT || !Array.isArray(recording.entries)) {
+    throw new Error('The file is not a recorded session');
+  }
+  if (recording.version !== SESSION_FILE_VERSION) {
+    throw new Error(`Recording version ${String(recording.version)} is not supported`);
+  }
+  return recording as SessionRecording;
+}
+
+/**
+ * Feed the events of a recording into the realtime pipeline in place of the live streams,
+ * keeping their original spacing divided by `speed`. REST entries are part of the file for
+ * inspection only. The live streams stay closed after the last event until stopReplay().
+ */
+export function startReplay(recording: SessionRecording, name: string, speed = 1): void {
+  if (state.mode !== 'idle') {
+    return;
+  }
+  const events = recording.entries.filter(
+    (entry): entry is Extract<SessionEntry, { kind: 'event' }> => entry.kind === 'event'
+  );
+  getAllBackends().forEach(({ realtime }) => realtime.startReplay());
+  setState({ mode: 'replaying', replay: { name, speed, delivered: 0, total: events.length, finished: events.length === 0 } });
+
+  const deliverNext = (index: number) => {
+    replayTimer = null;
+    const entry = events[index];
+    // Events of a backend that is not configured here go to the primary one
+    getBackend(entry.backendId).realtime.replay(entry.channel, JSON.stringify(entry.event));
+
+    const next = index + 1;
+    setState({ replay: { name, speed, delivered: next, total: events.length, finished: next === events.length } });
+    if (next < events.length) {
+      replayTimer = setTimeout(() => deliverNext(next), Math.max(0, events[next].at - entry.at) / speed);
+    }
+  };
+
+  if (events.length > 0) {
+    replayTimer = setTimeout(() => deliverNext(0), 0);
+  }
+}
+
+/**
+ * End a replay and reconnect the live streams
+ */
+export function stopReplay(): void {
+  if (state.mode !== 'replaying') {
+    return;
+  }
+  if (replayTimer) {
+    clearTimeout(replayTimer);
+    replayTimer = null;
+  }
+  getAllBackends().forEach(({ realtime }) => realtime.stopReplay());
+  setState({ mode: 'idle', replay: null });
+}
@@ -0,0 +1,236 @@
+import type { Query, QueryClient } from '@tanstack/react-query';
+import { del, delMany, get, keys, update } from 'idb-keyval';
+import { idbStore } from './idbStorage';
+import { runtimeConfig } from '../config/runtime';
+import { useAuthStore } from '../stores/useAuthStore';
+
+const KEY_PREFIX = 'state-history:';
+// Samples kept per device regardless of age, so a chatty device cannot fill the database
+const MAX_SAMPLES_PER_DEVICE = 5000;
+// Samples are written in batches; state changes come in bursts
+const WRITE_DELAY_MS = 2000;
+
+// Identity and bookkeeping fields, not state
+const IGNORED_FIELDS = new Set(['device_id', 'device_name', 'last_command']);
+
+export type StateHistoryValue = string | number | boolean | null;
+
+// Where a sample came from: pushed into the cache (state_change events, MQTT state, action
+// responses), fetched (polls and refetches), or older samples folded together when pruned
+export type StateHistorySource = 'event' | 'poll' | 'baseline';
+
+export interface StateHistorySample {
+  at: number;
+  source: StateHistorySource;
+  // Fields that changed since the previous sample; the first sample of a session has all of them
+  values: Record<string, StateHistoryValue>;
+}
+
+const historyKey = (deviceId: string) => `${KEY_PREFIX}${deviceId}`;
+
+// Devices whose cached state is being written without the device having reported it (optimistic
+// predictions and their rollback). The cache keeps a structurally shared copy of what is written,
+// not the object itself, but tells its subscribers synchronously, so the write is marked by device.
+const unconfirmedWrites = new Set<string>();
+
+// Last recorded values per device in this session, to store changes only
+const lastValues = new Map<string, Record<string, StateHistoryValue>>();
+// Samples not written yet, per device
+const pending = new Map<string, StateHistorySample[]>();
+let writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+const isHistoryValue = (value: unknown): value is StateHistoryValue =>
+  value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+// Top-level scalar fields; nested objects (last_command, lists) are not charted
+const toHistoryValues = (state: Record<string, unknown>): Record<string, StateHistoryValue> =>
+  Object.fromEntries(
+    Object.entries(state).filter(([field, value]) => !IGNORED_FIELDS.has(field) && isHistoryValue(value))
+  ) as Record<string, StateHistoryValue>;
+
+// Merge samples that fall out of the window into one baseline, so values that have not changed
+// since are still known
+const prune = (samples: StateHistorySample[], now: number): StateHistorySample[] => {
+  const cutoff = now - runtimeConfig.stateHistoryRetentionHours * 60 * 60 * 1000;
+  let firstKept = samples.findIndex(sample => sample.at >= cutoff);
+  if (firstKept === -1) {
+    firstKept = samples.length;
+  }
+  firstKept = Math.max(firstKept, samples.length - (MAX_SAMPLES_PER_DEVICE - 1));
+  if (firstKept <= 1) {
+    return samples;
+  }
+
+  const dropped = samples.slice(0, firstKept);
+  const baseline: StateHistorySample = {
+    at: dropped[dropped.length - 1].at,
+    source: 'baseline',
+    values: Object.assign({}, ...dropped.map(sample => sample.values)),
+  };
+  return [baseline, ...samples.slice(firstKept)];
+};
+
+const writePending = () => {
+  writeTimer = null;
+  const now = Date.now();
+  pending.forEach((samples, deviceId) => {
+    update<StateHistorySample[]>(historyKey(deviceId), stored => prune([...(stored ?? []), ...samples], now), idbStore)
+      .catch(error => console.warn(`Could not store state history of ${deviceId}:`, error));
+  });
+  pending.clear();
+};
+
+/**
+ * Record a state of a device. Only fields that changed since the last recorded state are stored.
+ */
+export function recordStateSample(deviceId: string, state: Record<string, unknown>, source: StateHistorySource): void {
+  const values = toHistoryValues(state);
+  const previous = lastValues.get(deviceId);
+  const changes = previous
+    ? Object.fromEntries(Object.entries(values).filter(([field, value]) => previous[field] !== value))
+    : values;
+  if (Object.keys(changes).length === 0) {
+    return;
+  }
+  lastValues.set(deviceId, { ...previous, ...values });
+
+  const samples = pending.get(deviceId) ?? [];
+  samples.push({ at: Date.now(), source, values: changes });
+  pending.set(deviceId, samples);
+  writeTimer ??= setTimeout(writePending, WRITE_DELAY_MS);
+}
+
+/**
+ * Run a cache write of device state the device has not reported, so it is not recorded
+ */
+export function writeUnconfirmedState(deviceId: string, write: () => void): void {
+  unconfirmedWrites.add(deviceId);
+  try {
+    write();
+  } finally {
+    unconfirmedWrites.delete(deviceId);
+  }
+}
+
+/**
+ * Recorded history of a device within the retention window, oldest first, including samples not written yet
+ */
+export async function loadStateHistory(deviceId: string): Promise<StateHistorySample[]> {
+  const stored = (await get<StateHistorySample[]>(historyKey(deviceId), idbStore)) ?? [];
+  return prune([...stored, ...(pending.get(deviceId) ?? [])], Date.now());
+}
+
+export async function clearStateHistory(deviceId: string): Promise<void> {
+  pending.delete(deviceId);
+  lastValues.delete(deviceId);
+  await del(historyKey(deviceId), idbStore);
+}
+
+const clearAllStateHistory = async () => {
+  pending.clear();
+  lastValues.clear();
+  const historyKeys = (await keys(idbStore)).filter(key => String(key).startsWith(KEY_PREFIX));
+  await delMany(historyKeys, idbStore);
+};
+
+/**
+ * Device of a device state query - ['backend', backendId, 'devices', deviceId, 'state'], see
+ * queryKeys.devices.state - or null for any other query
+ */
+export const getStateQueryDeviceId = (query: Query): string | null => {
+  const [scope, , section, deviceId, kind] = query.queryKey;
+  return scope === 'backend' && section === 'devices' && kind === 'state' && typeof deviceId === 'string' ? deviceId : null;
+};
+
+/**
+ * Record every device state that reaches the query cache. Signing out drops the history along with
+ * the cached data. Returns a function that stops recording.
+ */
+export function recordStateHistory(queryClient: QueryClient): () => void {
+  const unsubscribeCache = queryClient.getQueryCache().subscribe(event => {
+    if (event.type !== 'updated' || event.action.type !== 'success') {
+      return;
+    }
+    const deviceId = getStateQueryDeviceId(event.query);
+    const state = event.query.state.data;
+    if (deviceId && state && typeof state === 'object' && !unconfirmedWrites.has(deviceId)) {
+      // setQueryData marks its updates manual (state_change events, MQTT state, action responses);
+      // fetched state is not
+      recordStateSample(deviceId, state as Record<string, unknown>, event.action.manual ? 'event' : 'poll');
+    }
+  });
+
+  const unsubscribeAuth = useAuthStore.subscribe((state, previous) => {
+    if (previous.credentials && !state.credentials) {
+      clearAllStateHistory().catch(() => undefined);
+    }
+  });
+
+  return () => {
+    unsubscribeCache();
+    unsubscribeAuth();
+    if (writeTimer) {
+      clearTimeout(writeTimer);
+      writePending();
+    }
+  };
+}
+
+export interface StateFieldChange {
+  at: number;
+  field: string;
+  // undefined for the first value of a field
+  from: StateHistoryValue | undefined;
+  to: StateHistoryValue;
+  source: StateHistorySource;
+}
+
+export interface StateHistorySeries {
+  field: string;
+  points: Array<{ at: number; value: number }>;
+}
+
+/**
+ * Field changes since `since` (oldest first) and, for numeric fields, the values over that
+ * period as series starting with the value in effect at `since`
+ */
+export function buildStateTimeline(samples: readonly StateHistorySample[], since: number) {
+  const current: Record<string, StateHistoryValue> = {};
+  const changes: StateFieldChange[] = [];
+  const points = new Map<string, Array<{ at: number; value: number }>>();
+
+  const addPoint = (field: string, at: number, value: StateHistoryValue) => {
+    if (typeof value !== 'number') {
+      return;
+    }
+    if (!points.has(field)) {
+      points.set(field, []);
+    }
+    points.get(field)!.push({ at, value });
+  };
+
+  let started = false;
+  samples.forEach(sample => {
+    if (!started && sample.at >= since) {
+      started = true;
+      Object.entries(current).forEach(([field, value]) => addPoint(field, since, value));
+    }
+    Object.entries(sample.values).forEach(([field, value]) => {
+      const known = Object.prototype.hasOwnProperty.call(current, field);
+      if (known && current[field] === value) {
+        return;
+      }
+      if (started) {
+        changes.push({ at: sample.at, field, from: known ? current[field] : undefined, to: value, source: sample.source });
+        addPoint(field, sample.at, value);
+      }
+      current[field] = value;
+    });
+  });
+  if (!started) {
+    Object.entries(current).forEach(([field, value]) => addPoint(field, since, value));
+  }
+
+  const series: StateHistorySeries[] = Array.from(points, ([field, fieldPoints]) => ({ field, points: fieldPoints }));
+  return { changes, series };
+}
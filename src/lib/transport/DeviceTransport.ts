@@ -0,0 +1,31 @@
+import type { CommandResponse, DeviceAction } from '../../types/api';
+import type { BaseDeviceState } from '../../types/BaseDeviceState';
+
+export type DeviceTransportKind = 'rest' | 'mqtt';
+
+export interface ExecuteActionOptions {
+  /** Aborts the request, used for action timeouts and user cancellation */
+  signal?: AbortSignal;
+}
+
+/**
+ * Result of a command. Unlike the REST CommandResponse it may come without the resulting state:
+ * push-based transports resolve before the device has reported it.
+ */
+export type TransportCommandResponse = Omit<CommandResponse, 'state'> & { state?: BaseDeviceState };
+
+export type DeviceStateListener = (deviceId: string, state: Partial<BaseDeviceState>) => void;
+
+/**
+ * Transport used by the device hooks to read state and send commands.
+ * Implementations must be interchangeable behind useExecuteDeviceAction and useDeviceState.
+ */
+export interface DeviceTransport {
+  readonly kind: DeviceTransportKind;
+  fetchState(deviceId: string): Promise<BaseDeviceState>;
+  executeAction(deviceId: string, action: DeviceAction, options?: ExecuteActionOptions): Promise<TransportCommandResponse>;
+  /** Push-based state updates, for transports that receive them */
+  subscribeState?(listener: DeviceStateListener): () => void;
+  /** Whether pushed state is arriving right now, so state after a command comes without a refetch */
+  isReceivingState?(): boolean;
+}
@@ -0,0 +1,222 @@
+import { connect, type IClientOptions, type MqttClient } from 'mqtt';
+import type { DeviceAction } from '../../types/api';
+import type { BaseDeviceState } from '../../types/BaseDeviceState';
+import type { DeviceStateListener, DeviceTransport, ExecuteActionOptions, TransportCommandResponse } from './DeviceTransport';
+
+export interface MqttTransportOptions {
+  url: string;
+  /** Command topic template, supports {device_id} and {action} placeholders */
+  commandTopic: string;
+  /** State topic template, supports the {device_id} placeholder */
+  stateTopic: string;
+  /** Transport used while the broker is unreachable and for actions that return data */
+  fallback: DeviceTransport;
+  /** How long fetchState waits for a retained state message before using the fallback */
+  stateTimeoutMs?: number;
+  /** Override for creating the MQTT client, e.g. to point at a local broker stand-in */
+  clientFactory?: (url: string, options: IClientOptions) => MqttClient;
+}
+
+// Actions that return data (inputs, apps lists) need a request/response round trip,
+// which the bridge only offers over REST
+const isQueryAction = (action: string) => action.startsWith('get_');
+
+// Rejects like an aborted fetch once the signal aborts, whether or not the promise settles
+const untilAborted = async <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) {
+    return promise;
+  }
+  let onAbort!: () => void;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason ?? new DOMException('The operation was aborted', 'AbortError'));
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+  try {
+    return await Promise.race([promise, aborted]);
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Talks to the wb-mqtt-bridge broker directly over WebSocket.
+ *
+ * Commands are published to the command topic and resolve as soon as the broker accepts them;
+ * the resulting state arrives asynchronously on the state topic and is pushed to subscribers.
+ */
+export class MqttTransport implements DeviceTransport {
+  readonly kind = 'mqtt' as const;
+
+  private client: MqttClient | null = null;
+  private states = new Map<string, BaseDeviceState>();
+  private listeners = new Set<DeviceStateListener>();
+  private stateWaiters = new Map<string, Set<(state: BaseDeviceState) => void>>();
+  private stateTopicPattern: RegExp;
+  private options: MqttTransportOptions & { stateTimeoutMs: number };
+
+  constructor(options: MqttTransportOptions) {
+    this.options = { stateTimeoutMs: 1_500, ...options };
+
+    const [before, after] = options.stateTopic.split('{device_id}');
+    this.stateTopicPattern = new RegExp(`^${escapeRegExp(before)}([^/]+)${escapeRegExp(after ?? '')}$`);
+  }
+
+  get connected(): boolean {
+    return this.client?.connected ?? false;
+  }
+
+  async fetchState(deviceId: string): Promise<BaseDeviceState> {
+    this.ensureClient();
+
+    // Without the broker the last state seen over MQTT may be stale; ask the bridge instead
+    if (!this.connected) {
+      return this.options.fallback.fetchState(deviceId);
+    }
+
+    const known = this.states.get(deviceId);
+    if (known) {
+      return known;
+    }
+
+    const retained = await this.waitForState(deviceId, this.options.stateTimeoutMs);
+    return retained ?? this.options.fallback.fetchState(deviceId);
+  }
+
+  async executeAction(deviceId: string, action: DeviceAction, options?: ExecuteActionOptions): Promise<TransportCommandResponse> {
+    const client = this.ensureClient();
+
+    if (!this.connected || isQueryAction(action.action)) {
+      return this.options.fallback.executeAction(deviceId, action, options);
+    }
+
+    // A published command cannot be taken back, but an abort (action timeout or cancel) stops
+    // waiting for the broker to acknowledge it
+    options?.signal?.throwIfAborted();
+
+    const topic = this.formatTopic(this.options.commandTopic, deviceId, action.action);
+    const payload = action.params && Object.keys(action.params).length > 0
+      ? JSON.stringify(action.params)
+      : '1';
+
+    await untilAborted(client.publishAsync(topic, payload, { qos: 1 }), options?.signal);
+
+    return {
+      success: true,
+      device_id: deviceId,
+      action: action.action,
+      // No state: it follows on the state topic, and anything cached here predates the command
+      mqtt_command: { topic, payload },
+    };
+  }
+
+  subscribeState(listener: DeviceStateListener): () => void {
+    this.ensureClient();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  isReceivingState(): boolean {
+    return this.connected && this.listeners.size > 0;
+  }
+
+  disconnect(): void {
+    this.client?.end(true);
+    this.client = null;
+  }
+
+  private ensureClient(): MqttClient {
+    if (this.client) {
+      return this.client;
+    }
+
+    const clientOptions: IClientOptions = {
+      clientId: `wb-mqtt-ui-${Math.random().toString(36).slice(2, 11)}`,
+      reconnectPeriod: 5_000,
+      connectTimeout: 10_000,
+    };
+    const factory = this.options.clientFactory ?? connect;
+    const client = factory(this.options.url, clientOptions);
+    this.client = client;
+
+    client.on('connect', () => {
+      console.log(`🟢 [MQTT] Connected to ${this.options.url}`);
+      const wildcardTopic = this.formatTopic(this.options.stateTopic, '+');
+      client.subscribe(wildcardTopic, { qos: 1 }, (error) => {
+        if (error) {
+          console.error(`[MQTT] Failed to subscribe to ${wildcardTopic}:`, error);
+        }
+      });
+    });
+
+    client.on('message', (topic, message) => this.handleMessage(topic, message.toString()));
+
+    client.on('error', (error) => {
+      console.error('🔴 [MQTT] Client error:', error);
+    });
+
+    return client;
+  }
+
+  private handleMessage(topic: string, payload: string): void {
+    const match = topic.match(this.stateTopicPattern);
+    if (!match || !payload) {
+      return;
+    }
+
+    const deviceId = match[1];
+    let update: Partial<BaseDeviceState>;
+    try {
+      update = JSON.parse(payload);
+    } catch (parseError) {
+      console.error(`[MQTT] Failed to parse state payload on ${topic}:`, parseError);
+      return;
+    }
+
+    const state: BaseDeviceState = {
+      device_id: deviceId,
+      device_name: '',
+      ...this.states.get(deviceId),
+      ...update,
+    };
+    this.states.set(deviceId, state);
+
+    this.stateWaiters.get(deviceId)?.forEach(resolve => resolve(state));
+    this.stateWaiters.delete(deviceId);
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(deviceId, update);
+      } catch (listenerError) {
+        console.error('[MQTT] State listener error:', listenerError);
+      }
+    });
+  }
+
+  private waitForState(deviceId: string, timeoutMs: number): Promise<BaseDeviceState | null> {
+    return new Promise(resolve => {
+      const waiters = this.stateWaiters.get(deviceId) ?? new Set();
+      this.stateWaiters.set(deviceId, waiters);
+
+      const onState = (state: BaseDeviceState) => {
+        clearTimeout(timeout);
+        resolve(state);
+      };
+      const timeout = setTimeout(() => {
+        waiters.delete(onState);
+        resolve(null);
+      }, timeoutMs);
+
+      waiters.add(onState);
+    });
+  }
+
+  private formatTopic(template: string, deviceId: string, action?: string): string {
+    return template
+      .replace('{device_id}', deviceId)
+      .replace('{action}', action ?? '');
+  }
+}
@@ -0,0 +1,18 @@
+import type { CommandResponse, DeviceAction } from '../../types/api';
+import type { BaseDeviceState } from '../../types/BaseDeviceState';
+import { apiClient, type ApiClient } from '../apiClient';
+import type { DeviceTransport, ExecuteActionOptions } from './DeviceTransport';
+
+export class RestTransport implements DeviceTransport {
+  readonly kind = 'rest' as const;
+
+  constructor(private client: ApiClient = apiClient) {}
+
+  fetchState(deviceId: string): Promise<BaseDeviceState> {
+    return this.client.getDeviceState(deviceId);
+  }
+
+  executeAction(deviceId: string, action: DeviceAction, options?: ExecuteActionOptions): Promise<CommandResponse> {
+    return this.client.executeDeviceAction(deviceId, action, { signal: options?.signal });
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * @jest-environment node
+ */
+// The transport needs no DOM, and jsdom's AbortSignal lacks throwIfAborted()
+import { Buffer } from 'buffer';
+import { EventEmitter } from 'events';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { QueryClient } from '@tanstack/react-query';
+import type { MqttClient } from 'mqtt';
+import { MqttTransport } from '../MqttTransport';
+import type { DeviceTransport } from '../DeviceTransport';
+import { applyDeviceStateChange, queryKeys } from '../../../hooks/useApi';
+
+// Stand-in for a broker connection: tests drive connects, drops and messages by hand
+class FakeMqttClient extends EventEmitter {
+  connected = false;
+  subscriptions: string[] = [];
+  published: Array<{ topic: string; payload: string; qos: number }> = [];
+  // Replaced to keep the PUBACK from ever arriving
+  publishAsync = jest.fn(async (topic: string, payload: string, options: { qos: number }) => {
+    this.published.push({ topic, payload, qos: options.qos });
+    return undefined;
+  });
+
+  subscribe(topic: string, _options: unknown, callback?: (error: Error | null) => void) {
+    this.subscriptions.push(topic);
+    callback?.(null);
+    return this;
+  }
+
+  end() {
+    this.connected = false;
+    return this;
+  }
+
+  brokerConnected() {
+    this.connected = true;
+    this.emit('connect');
+  }
+
+  brokerLost() {
+    this.connected = false;
+    this.emit('close');
+  }
+
+  deliver(topic: string, payload: unknown) {
+    this.emit('message', topic, Buffer.from(JSON.stringify(payload)));
+  }
+}
+
+const createFallback = () => ({
+  kind: 'rest' as const,
+  fetchState: jest.fn<DeviceTransport['fetchState']>(),
+  executeAction: jest.fn<DeviceTransport['executeAction']>(async (deviceId, action) => ({
+    success: true,
+    device_id: deviceId,
+    action: action.action,
+  })),
+});
+
+const createTransport = () => {
+  const client = new FakeMqttClient();
+  const fallback = createFallback();
+  const transport = new MqttTransport({
+    url: 'ws://broker.test:9001',
+    commandTopic: '/devices/{device_id}/controls/{action}/on',
+    stateTopic: '/devices/{device_id}/state',
+    fallback,
+    clientFactory: () => client as unknown as MqttClient,
+  });
+  return { client, fallback, transport };
+};
+
+describe('MqttTransport', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('publishes commands to the command topic', async () => {
+    const { client, fallback, transport } = createTransport();
+    transport.subscribeState(() => undefined);
+    client.brokerConnected();
+
+    const response = await transport.executeAction('tv', { action: 'set_volume', params: { level: 20 } });
+    await transport.executeAction('tv', { action: 'power_on' });
+
+    expect(client.published).toEqual([
+      { topic: '/devices/tv/controls/set_volume/on', payload: '{"level":20}', qos: 1 },
+      { topic: '/devices/tv/controls/power_on/on', payload: '1', qos: 1 },
+    ]);
+    expect(response).toMatchObject({ success: true, device_id: 'tv', action: 'set_volume' });
+    expect(response.state).toBeUndefined();
+    expect(fallback.executeAction).not.toHaveBeenCalled();
+  });
+
+  it('sends actions that return data through the fallback', async () => {
+    const { client, fallback, transport } = createTransport();
+    transport.subscribeState(() => undefined);
+    client.brokerConnected();
+
+    await transport.executeAction('tv', { action: 'get_apps' });
+
+    expect(client.published).toEqual([]);
+    expect(fallback.executeAction).toHaveBeenCalledWith('tv', { action: 'get_apps' }, undefined);
+  });
+
+  it('applies state messages to the query cache', () => {
+    const { client, transport } = createTransport();
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(queryKeys.devices.state('tv'), { device_id: 'tv', device_name: 'TV', power: false, volume: 10 });
+    transport.subscribeState((deviceId, state) => applyDeviceStateChange(queryClient, deviceId, state));
+    client.brokerConnected();
+
+    client.deliver('/devices/tv/state', { power: true });
+    client.deliver('/devices/tv/controls/power_on/on', { power: false });
+
+    expect(client.subscriptions).toEqual(['/devices/+/state']);
+    expect(queryClient.getQueryData(queryKeys.devices.state('tv')))
+      .toEqual({ device_id: 'tv', device_name: 'TV', power: true, volume: 10 });
+  });
+
+  it('reads state from the broker while connected and from the bridge while it is away', async () => {
+    const { client, fallback, transport } = createTransport();
+    const fetched = { device_id: 'tv', device_name: 'TV', power: false };
+    fallback.fetchState.mockResolvedValue(fetched);
+    transport.subscribeState(() => undefined);
+    client.brokerConnected();
+    client.deliver('/devices/tv/state', { device_id: 'tv', device_name: 'TV', power: true });
+
+    await expect(transport.fetchState('tv')).resolves.toMatchObject({ power: true });
+    expect(fallback.fetchState).not.toHaveBeenCalled();
+
+    client.brokerLost();
+    await expect(transport.fetchState('tv')).resolves.toBe(fetched);
+    expect(fallback.fetchState).toHaveBeenCalledWith('tv');
+  });
+
+  it('receives state only while subscribed and connected', () => {
+    const { client, transport } = createTransport();
+    expect(transport.isReceivingState()).toBe(false);
+
+    const unsubscribe = transport.subscribeState(() => undefined);
+    expect(transport.isReceivingState()).toBe(false);
+    client.brokerConnected();
+    expect(transport.isReceivingState()).toBe(true);
+
+    client.brokerLost();
+    expect(transport.isReceivingState()).toBe(false);
+    client.brokerConnected();
+    unsubscribe();
+    expect(transport.isReceivingState()).toBe(false);
+  });
+
+  it('falls back while the broker is away and resubscribes when it reconnects', async () => {
+    const { client, fallback, transport } = createTransport();
+    const listener = jest.fn();
+    transport.subscribeState(listener);
+    client.brokerConnected();
+
+    client.brokerLost();
+    await transport.executeAction('tv', { action: 'power_on' });
+    expect(fallback.executeAction).toHaveBeenCalledTimes(1);
+    expect(client.published).toEqual([]);
+
+    client.brokerConnected();
+    expect(client.subscriptions).toEqual(['/devices/+/state', '/devices/+/state']);
+    await transport.executeAction('tv', { action: 'power_on' });
+    expect(client.published).toHaveLength(1);
+
+    client.deliver('/devices/tv/state', { power: true });
+    expect(listener).toHaveBeenCalledWith('tv', { power: true });
+  });
+
+  it('stops waiting for an acknowledgement that never comes once the action is aborted', async () => {
+    const { client, transport } = createTransport();
+    transport.subscribeState(() => undefined);
+    client.brokerConnected();
+    client.publishAsync.mockImplementation(() => new Promise<undefined>(() => undefined));
+
+    const controller = new AbortController();
+    const removeListener = jest.spyOn(controller.signal, 'removeEventListener');
+    const pending = transport.executeAction('tv', { action: 'power_on' }, { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+
+  it('times out a hung publish with the action timeout', async () => {
+    jest.useFakeTimers();
+    try {
+      const { client, transport } = createTransport();
+      transport.subscribeState(() => undefined);
+      client.brokerConnected();
+      client.publishAsync.mockImplementation(() => new Promise<undefined>(() => undefined));
+
+      // Same as useExecuteDeviceAction: the timeout aborts the action's signal
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 5_000);
+      const pending = transport.executeAction('tv', { action: 'power_on' }, { signal: controller.signal });
+      jest.advanceTimersByTime(5_000);
+
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('does not publish a command aborted before it was sent', async () => {
+    const { client, transport } = createTransport();
+    transport.subscribeState(() => undefined);
+    client.brokerConnected();
+
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(transport.executeAction('tv', { action: 'power_on' }, { signal: controller.signal }))
+      .rejects.toMatchObject({ name: 'AbortError' });
+    expect(client.published).toEqual([]);
+  });
+});
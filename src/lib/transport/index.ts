@@ -0,0 +1,30 @@
+import { runtimeConfig } from '../../config/runtime';
+import { apiClient, type ApiClient } from '../apiClient';
+import type { DeviceTransport } from './DeviceTransport';
+import { MqttTransport } from './MqttTransport';
+import { RestTransport } from './RestTransport';
+
+export type { DeviceTransport, DeviceTransportKind, DeviceStateListener } from './DeviceTransport';
+export { MqttTransport } from './MqttTransport';
+export { RestTransport } from './RestTransport';
+
+/**
+ * Transport for one backend: REST through its API client, or MQTT with REST as the fallback
+ */
+export const createDeviceTransport = (client: ApiClient = apiClient, mqttUrl: string = runtimeConfig.mqttUrl): DeviceTransport => {
+  const rest = new RestTransport(client);
+
+  if (runtimeConfig.deviceTransport === 'mqtt') {
+    return new MqttTransport({
+      url: mqttUrl,
+      commandTopic: runtimeConfig.mqttCommandTopic,
+      stateTopic: runtimeConfig.mqttStateTopic,
+      fallback: rest,
+    });
+  }
+
+  return rest;
+};
+
+// Transport of the primary backend, selected by VITE_DEVICE_TRANSPORT; REST is the default
+export const deviceTransport = createDeviceTransport();
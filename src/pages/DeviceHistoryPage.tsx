@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '../components/ui/button';
+import { Icon } from '../components/icons';
+import StateHistoryChart from '../components/StateHistoryChart';
+import { useStateHistory } from '../hooks/useStateHistory';
+import { useRoomStore } from '../stores/useRoomStore';
+import { runtimeConfig } from '../config/runtime';
+import { buildStateTimeline, clearStateHistory, type StateHistorySource, type StateHistoryValue } from '../lib/stateHistory';
+
+// Periods to show, in hours; the last one is the whole retention window
+const RANGES = [1, 6, 24];
+
+// Changes listed at most, newest first
+const TIMELINE_LIMIT = 200;
+
+const fieldLabel = (field: string) => field.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase());
+
+const formatValue = (value: StateHistoryValue | undefined) => {
+  if (value === undefined) return '-';
+  if (value === null) return 'N/A';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(1);
+  return value;
+};
+
+const sourceLabels: Record<StateHistorySource, string> = {
+  event: 'pushed',
+  poll: 'fetched',
+  baseline: 'earlier',
+};
+
+function DeviceHistoryPage() {
+  const { deviceId = '' } = useParams<{ deviceId: string }>();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const device = useRoomStore(state => state.devices.find(item => item.id === deviceId));
+  const history = useStateHistory(deviceId);
+  const [rangeHours, setRangeHours] = useState(RANGES[0]);
+
+  const now = Date.now();
+  const since = now - rangeHours * 60 * 60 * 1000;
+  const { changes, series } = buildStateTimeline(history.data ?? [], since);
+  const timeline = changes.slice(-TIMELINE_LIMIT).reverse();
+
+  const handleClear = async () => {
+    await clearStateHistory(deviceId);
+    queryClient.invalidateQueries({ queryKey: ['state-history', deviceId] });
+  };
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-8">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Button variant="ghost" size="icon" onClick={() => navigate(`/devices/${deviceId}`)} aria-label="Back to device">
+            <Icon library="material" name="ArrowBack" size="md" fallback="back" className="h-5 w-5" />
+          </Button>
+          <h1 className="text-3xl font-bold">{device?.name.en ?? deviceId}: State History</h1>
+        </div>
+        <div className="flex items-center space-x-2">
+          {[...RANGES, runtimeConfig.stateHistoryRetentionHours].map(hours => (
+            <Button
+              key={hours}
+              variant={hours === rangeHours ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setRangeHours(hours)}
+            >
+              {hours === runtimeConfig.stateHistoryRetentionHours ? 'All' : `${hours}h`}
+            </Button>
+          ))}
+          <Button variant="ghost" size="sm" onClick={handleClear} disabled={!history.data?.length}>
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      {history.isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading history...</p>
+      ) : history.error ? (
+        <p className="text-sm text-destructive">Could not load the history: {history.error.message}</p>
+      ) : (
+        <>
+          <div className="bg-card p-6 rounded-lg border space-y-6">
+            <h2 className="text-2xl font-semibold">Numeric Fields</h2>
+            {series.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No numeric values recorded in this period.</p>
+            ) : (
+              series.map(({ field, points }) => (
+                <StateHistoryChart key={field} label={fieldLabel(field)} points={points} from={since} to={now} />
+              ))
+            )}
+          </div>
+
+          <div className="bg-card p-6 rounded-lg border">
+            <h2 className="text-2xl font-semibold mb-4">Changes</h2>
+            {timeline.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No changes recorded in this period. History is kept for {runtimeConfig.stateHistoryRetentionHours} hours.
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b border-border">
+                    <th className="py-1 font-medium">Time</th>
+                    <th className="py-1 font-medium">Field</th>
+                    <th className="py-1 font-medium">Change</th>
+                    <th className="py-1 font-medium">Source</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {timeline.map(change => (
+                    <tr key={`${change.at}-${change.field}`} className="border-b border-border/50 last:border-b-0">
+                      <td className="py-1 text-xs text-muted-foreground">{new Date(change.at).toLocaleString()}</td>
+                      <td className="py-1">{fieldLabel(change.field)}</td>
+                      <td className="py-1 font-mono">
+                        {formatValue(change.from)} → {formatValue(change.to)}
+                      </td>
+                      <td className="py-1 text-xs text-muted-foreground">{sourceLabels[change.source]}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default DeviceHistoryPage;
@@ -0,0 +1,337 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '../components/ui/button';
+import { Icon } from '../components/icons';
+import { getRuntimeConfigSources, runtimeConfig } from '../config/runtime';
+import { getAllBackends, type BackendConnection } from '../lib/backends';
+import { useSystemHealth } from '../hooks/useApi';
+import { useBackendRealtimeStatus, isRealtimeDown } from '../hooks/useRealtime';
+import { useDeviceProbe, type ProbeStatus } from '../hooks/useDeviceProbe';
+import { useSessionRecorder } from '../hooks/useSessionRecorder';
+import { parseRecording } from '../lib/sessionRecorder';
+import { useRoomStore } from '../stores/useRoomStore';
+import { formatTimestamp } from '../lib/utils';
+import type { ChannelHistoryEventType, RealtimeChannel } from '../types/realtime';
+
+const CHANNELS: RealtimeChannel[] = ['devices', 'scenarios', 'system'];
+
+// Number of connection history entries shown per backend
+const HISTORY_LIMIT = 30;
+
+const REPLAY_SPEEDS = [1, 2, 5, 10];
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+};
+
+const formatAgo = (timestamp: number | null, now: number): string =>
+  timestamp === null ? 'never' : `${formatDuration(now - timestamp)} ago`;
+
+const historyLabels: Record<ChannelHistoryEventType, { label: string; className: string }> = {
+  connecting: { label: 'Connecting', className: 'text-muted-foreground' },
+  connected: { label: 'Connected', className: 'text-green-600' },
+  error: { label: 'Error, retrying', className: 'text-yellow-600' },
+  retries_exhausted: { label: 'Retries exhausted', className: 'text-red-600' },
+  unauthorized: { label: 'Unauthorized', className: 'text-red-600' },
+  closed: { label: 'Closed', className: 'text-muted-foreground' },
+};
+
+const probeLabels: Record<ProbeStatus, { label: string; className: string }> = {
+  pending: { label: 'Probing...', className: 'text-muted-foreground' },
+  reachable: { label: 'Reachable', className: 'text-green-600' },
+  error: { label: 'Error', className: 'text-yellow-600' },
+  unreachable: { label: 'Unreachable', className: 'text-red-600' },
+};
+
+// Re-render every second so "ago" times stay current
+const useNow = () => {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+  return now;
+};
+
+function BackendDiagnostics({ backend, now }: { backend: BackendConnection; now: number }) {
+  const { config, realtime } = backend;
+  const health = useSystemHealth(config.id);
+  const status = useBackendRealtimeStatus(config.id);
+  const history = realtime.getHistory().slice(-HISTORY_LIMIT).reverse();
+
+  return (
+    <div className="bg-card p-6 rounded-lg border space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold">{config.label}</h2>
+          <p className="text-xs text-muted-foreground font-mono">{config.apiBaseUrl || '/'}</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => realtime.reconnect()}>
+          Reconnect realtime
+        </Button>
+      </div>
+
+      {/* REST API */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold">REST API</h3>
+          <Button variant="ghost" size="sm" onClick={() => health.refetch()} disabled={health.isFetching}>
+            {health.isFetching ? 'Measuring...' : 'Measure again'}
+          </Button>
+        </div>
+        {health.error ? (
+          <p className="text-sm text-destructive">/system failed: {health.error.message}</p>
+        ) : health.data ? (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <p className="text-muted-foreground">Round-trip latency</p>
+              <p className="font-mono">{health.data.latencyMs} ms</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Backend version</p>
+              <p className="font-mono">{health.data.info.version ?? 'unknown'}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">MQTT broker</p>
+              <p className="font-mono">{health.data.info.mqttBroker.host}:{health.data.info.mqttBroker.port}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Devices / scenarios / rooms</p>
+              <p className="font-mono">
+                {health.data.info.devices.length} / {health.data.info.scenarios.length} / {health.data.info.rooms.length}
+              </p>
+            </div>
+            <p className="col-span-2 md:col-span-4 text-xs text-muted-foreground">
+              Checked {formatAgo(health.data.checkedAt, now)}
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Checking /system...</p>
+        )}
+      </div>
+
+      {/* Realtime channels */}
+      <div>
+        <h3 className="text-lg font-semibold mb-2">
+          Realtime Channels
+          {isRealtimeDown(status) && <span className="ml-2 text-sm font-normal text-yellow-600">(state is being polled)</span>}
+        </h3>
+        {realtime.getTabRole() !== 'standalone' && (
+          <p className="text-xs text-muted-foreground mb-2">
+            {realtime.getTabRole() === 'leader'
+              ? 'This tab holds the connections and shares them with the other open tabs.'
+              : 'Connections are shared from another open tab.'}
+          </p>
+        )}
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground border-b border-border">
+              <th className="py-1 font-medium">Channel</th>
+              <th className="py-1 font-medium">Status</th>
+              <th className="py-1 font-medium">Reconnect attempts</th>
+              <th className="py-1 font-medium">Invalid events</th>
+              <th className="py-1 font-medium">Last event</th>
+              <th className="py-1 font-medium">Last event ID</th>
+            </tr>
+          </thead>
+          <tbody>
+            {CHANNELS.map(channel => {
+              const channelStatus = status[channel];
+              return (
+                <tr key={channel} className="border-b border-border/50 last:border-b-0">
+                  <td className="py-1 font-mono">{channel}</td>
+                  <td className="py-1">
+                    <span className={channelStatus.connected ? 'text-green-600' : 'text-red-600'}>
+                      {channelStatus.connected
+                        ? 'Connected'
+                        : channelStatus.retriesExhausted ? 'Gave up' : channelStatus.error ? 'Reconnecting' : 'Disconnected'}
+                    </span>
+                  </td>
+                  <td className="py-1 font-mono">{channelStatus.reconnectAttempts}</td>
+                  <td className="py-1 font-mono" title={channelStatus.lastInvalidReason ?? undefined}>
+                    <span className={channelStatus.invalidEvents > 0 ? 'text-yellow-600' : undefined}>{channelStatus.invalidEvents}</span>
+                  </td>
+                  <td className="py-1">{formatAgo(channelStatus.lastEventAt, now)}</td>
+                  <td className="py-1 font-mono text-xs">{channelStatus.lastEventId ?? '-'}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Connection history */}
+      <div>
+        <h3 className="text-lg font-semibold mb-2">Connection History</h3>
+        {history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No connection events yet.</p>
+        ) : (
+          <div className="max-h-64 overflow-auto">
+            <table className="w-full text-sm">
+              <tbody>
+                {history.map((entry, index) => (
+                  <tr key={`${entry.at}-${index}`} className="border-b border-border/50 last:border-b-0">
+                    <td className="py-1 text-xs text-muted-foreground">{formatTimestamp(entry.at)}</td>
+                    <td className="py-1 font-mono">{entry.channel}</td>
+                    <td className={`py-1 ${historyLabels[entry.type].className}`}>{historyLabels[entry.type].label}</td>
+                    <td className="py-1 text-xs text-muted-foreground">
+                      {entry.reconnectAttempt > 0 ? `attempt ${entry.reconnectAttempt}` : ''}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SessionRecorder({ now }: { now: number }) {
+  const session = useSessionRecorder();
+  const [speed, setSpeed] = useState(1);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    try {
+      setFileError(null);
+      session.playRecording(parseRecording(await file.text()), file.name, speed);
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div className="bg-card p-6 rounded-lg border space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold">Session Recording</h2>
+          <p className="text-xs text-muted-foreground">
+            Captures realtime events and REST actions of all backends to a JSON file, and replays such a file in place of the live streams.
+          </p>
+        </div>
+        {session.mode === 'recording' ? (
+          <Button variant="destructive" size="sm" onClick={session.stop}>Stop and download</Button>
+        ) : session.mode === 'replaying' ? (
+          <Button variant="outline" size="sm" onClick={session.backToLive}>Back to live</Button>
+        ) : (
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" size="sm" onClick={session.start}>Start recording</Button>
+            <select
+              className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+              value={speed}
+              onChange={event => setSpeed(Number(event.target.value))}
+              aria-label="Replay speed"
+            >
+              {REPLAY_SPEEDS.map(option => <option key={option} value={option}>{option}x</option>)}
+            </select>
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>Replay file...</Button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+          </div>
+        )}
+      </div>
+
+      {session.mode === 'recording' && session.startedAt !== null && (
+        <p className="text-sm">
+          <span className="text-red-600">Recording</span> for {formatDuration(now - session.startedAt)}, {session.entryCount} entries
+        </p>
+      )}
+      {session.replay && (
+        <p className="text-sm">
+          {session.replay.finished ? 'Replayed' : 'Replaying'} <span className="font-mono">{session.replay.name}</span> at {session.replay.speed}x:{' '}
+          {session.replay.delivered} / {session.replay.total} events. Live realtime is paused until you go back to live.
+        </p>
+      )}
+      {fileError && <p className="text-sm text-destructive">{fileError}</p>}
+    </div>
+  );
+}
+
+function DiagnosticsPage() {
+  const now = useNow();
+  const { devices, rooms } = useRoomStore();
+  const { results, isProbing, probeAll } = useDeviceProbe();
+  const backends = getAllBackends();
+
+  const roomName = (roomId: string) => rooms.find(room => room.id === roomId)?.name.en || roomId || '-';
+  const backendLabel = (backendId: string) => backends.find(backend => backend.config.id === backendId)?.config.label ?? backendId;
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-8">
+      <div className="flex items-center space-x-2">
+        <Icon library="material" name="MonitorHeart" size="md" fallback="health" className="h-6 w-6" />
+        <h1 className="text-3xl font-bold">Diagnostics</h1>
+      </div>
+      <p className="text-xs text-muted-foreground">Configuration: {getRuntimeConfigSources().join(' + ')}</p>
+
+      {runtimeConfig.features.sessionRecording && <SessionRecorder now={now} />}
+
+      {backends.map(backend => (
+        <BackendDiagnostics key={backend.config.id} backend={backend} now={now} />
+      ))}
+
+      {/* Device reachability */}
+      <div className="bg-card p-6 rounded-lg border">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-semibold">Device Reachability</h2>
+          <Button onClick={() => probeAll()} disabled={isProbing || devices.length === 0}>
+            {isProbing ? 'Probing...' : 'Probe all devices'}
+          </Button>
+        </div>
+        {devices.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No devices loaded.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b border-border">
+                <th className="py-1 font-medium">Device</th>
+                <th className="py-1 font-medium">Room</th>
+                {backends.length > 1 && <th className="py-1 font-medium">Backend</th>}
+                <th className="py-1 font-medium">Result</th>
+                <th className="py-1 font-medium">Latency</th>
+                <th className="py-1 font-medium">Device connected</th>
+                <th className="py-1 font-medium">Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {devices.map(device => {
+                const result = results[device.id];
+                return (
+                  <tr key={device.id} className="border-b border-border/50 last:border-b-0">
+                    <td className="py-1">
+                      <span>{device.name.en}</span>
+                      <span className="ml-1 text-xs text-muted-foreground font-mono">{device.id}</span>
+                    </td>
+                    <td className="py-1">{roomName(device.roomId)}</td>
+                    {backends.length > 1 && <td className="py-1">{backendLabel(device.backendId)}</td>}
+                    <td className={`py-1 ${result ? probeLabels[result.status].className : 'text-muted-foreground'}`}>
+                      {result ? probeLabels[result.status].label : 'Not probed'}
+                    </td>
+                    <td className="py-1 font-mono">{result?.latencyMs != null ? `${result.latencyMs} ms` : '-'}</td>
+                    <td className="py-1">
+                      {result?.deviceConnected == null ? '-' : result.deviceConnected ? 'Yes' : 'No'}
+                    </td>
+                    <td className="py-1 text-xs text-muted-foreground">
+                      {result?.httpStatus ? `HTTP ${result.httpStatus}: ` : ''}{result?.message ?? ''}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default DiagnosticsPage;
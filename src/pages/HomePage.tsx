@@ -1,4 +1,5 @@
 import React from 'react';
+import { runtimeConfig } from '../config/runtime';
 import { useDataSync } from '../hooks/useDataSync';
 import { useRoomStore } from '../stores/useRoomStore';
 import { useLogStore } from '../stores/useLogStore';
@@ -44,7 +45,7 @@ function HomePage() {
           <div>
             <h4 className="font-medium">API Status:</h4>
             <p>Loading: {isLoading ? 'Yes' : 'No'}</p>
-            <p>API Base URL: {import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000'}</p>
+            <p>API Base URL: {runtimeConfig.apiBaseUrl}</p>
           </div>
           <div>
             <h4 className="font-medium">Data Counts:</h4>
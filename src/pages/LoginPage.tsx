@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '../components/ui/button';
+import { Icon } from '../components/icons';
+import { runtimeConfig } from '../config/runtime';
+import { apiClient } from '../lib/apiClient';
+import { createCredentials, formatAuthorizationHeader } from '../lib/auth';
+import { useAuthStore } from '../stores/useAuthStore';
+
+function LoginPage() {
+  const { login, loginMessage } = useAuthStore();
+  const queryClient = useQueryClient();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [token, setToken] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Bearer auth without a token endpoint takes the token itself
+  const usesToken = runtimeConfig.authMode === 'bearer' && !runtimeConfig.authTokenUrl;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const credentials = await createCredentials({ username, password, token });
+      // Check the credentials against the backend before storing them
+      await apiClient.getSystemInfo({ headers: { Authorization: formatAuthorizationHeader(credentials) } });
+      login(credentials);
+      // Anything fetched before the session expired failed with 401
+      queryClient.invalidateQueries();
+    } catch (err) {
+      const status = axios.isAxiosError(err) ? err.response?.status : undefined;
+      setError(status === 401 || status === 403
+        ? 'Invalid credentials'
+        : err instanceof Error ? err.message : String(err));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-input bg-background rounded-md text-sm';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm p-6 border border-border rounded-lg bg-card space-y-4">
+        <div className="flex items-center space-x-2">
+          <Icon library="material" name="Lock" size="md" fallback="lock" className="h-5 w-5" />
+          <h1 className="text-xl font-semibold">Smart Home Sign In</h1>
+        </div>
+
+        {loginMessage && (
+          <p className="text-sm text-muted-foreground">{loginMessage}</p>
+        )}
+
+        {usesToken ? (
+          <div className="space-y-1">
+            <label htmlFor="token" className="text-sm font-medium">Access token</label>
+            <input
+              id="token"
+              type="password"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              className={inputClassName}
+              autoComplete="off"
+              required
+            />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-1">
+              <label htmlFor="username" className="text-sm font-medium">Username</label>
+              <input
+                id="username"
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className={inputClassName}
+                autoComplete="username"
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="password" className="text-sm font-medium">Password</label>
+              <input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={inputClassName}
+                autoComplete="current-password"
+                required
+              />
+            </div>
+          </>
+        )}
+
+        {error && (
+          <p className="text-sm text-destructive">{error}</p>
+        )}
+
+        <Button type="submit" className="w-full" disabled={submitting}>
+          {submitting ? 'Signing in...' : 'Sign in'}
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+export default LoginPage;
@@ -0,0 +1,119 @@
+import { OpenApiTypeGenerator, type OpenApiDocument } from '../lib/generators/OpenApiTypeGenerator';
+import * as fs from 'fs/promises';
+import * as process from 'process';
+
+const DEFAULT_SPEC = 'config/openapi.json';
+const TYPES_OUTPUT = 'src/types/api.ts';
+const CLIENT_OUTPUT = 'src/lib/apiClient.gen.ts';
+
+// Schemas kept by hand because the UI extends them (see src/types/BaseDeviceState.ts)
+const EXTERNAL_TYPES: Record<string, string> = {
+  BaseDeviceState: './BaseDeviceState',
+  LastCommand: './BaseDeviceState',
+};
+
+function printHelp() {
+  console.log(`
+📘 API Type Generator
+
+Generates ${TYPES_OUTPUT} and ${CLIENT_OUTPUT} from a saved OpenAPI snapshot.
+No backend is needed unless --fetch is used.
+
+Usage:
+  npm run gen:api                       Regenerate types and client from the snapshot
+  npm run check:api                     Report drift between the snapshot and committed files
+  npx tsx src/scripts/generate-api-types.ts --fetch http://host:8000
+                                        Refresh the snapshot from a running backend first
+
+Options:
+  --spec <path>     OpenAPI snapshot (default: ${DEFAULT_SPEC})
+  --fetch <url>     Download <url>/openapi.json into the snapshot before generating
+  --check           Do not write files; exit with 1 when they differ from the snapshot
+  --help            Show this help
+`);
+}
+
+async function readCommitted(path: string): Promise<string> {
+  try {
+    return await fs.readFile(path, 'utf-8');
+  } catch {
+    return '';
+  }
+}
+
+async function runCLI() {
+  const args = process.argv.slice(2);
+  if (args.includes('--help')) {
+    printHelp();
+    return;
+  }
+
+  const optionValue = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  const specPath = optionValue('--spec') || DEFAULT_SPEC;
+  const fetchUrl = optionValue('--fetch');
+  const checkOnly = args.includes('--check');
+
+  try {
+    if (fetchUrl) {
+      const url = `${fetchUrl.replace(/\/$/, '')}/openapi.json`;
+      console.log(`📡 Fetching ${url}...`);
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch OpenAPI document: ${response.status} ${response.statusText}`);
+      }
+      const document = await response.json();
+      await fs.writeFile(specPath, JSON.stringify(document, null, 2) + '\n');
+      console.log(`✅ Snapshot updated: ${specPath}`);
+    }
+
+    const spec = JSON.parse(await fs.readFile(specPath, 'utf-8')) as OpenApiDocument;
+    const generator = new OpenApiTypeGenerator({ specPath, externalTypes: EXTERNAL_TYPES });
+    const generated = generator.generate(spec);
+    const outputs: Array<[string, string]> = [
+      [TYPES_OUTPUT, generated.types],
+      [CLIENT_OUTPUT, generated.client],
+    ];
+
+    if (!checkOnly) {
+      for (const [path, content] of outputs) {
+        await fs.writeFile(path, content);
+        console.log(`📄 Generated ${path}`);
+      }
+      console.log(`🎉 API types generated from ${specPath} (${spec.info?.title ?? 'API'} ${spec.info?.version ?? ''})`);
+      return;
+    }
+
+    let drifted = false;
+    for (const [path, content] of outputs) {
+      const committed = await readCommitted(path);
+      if (committed === content) {
+        console.log(`✅ ${path} is up to date`);
+        continue;
+      }
+
+      drifted = true;
+      const drift = generator.diffDeclarations(committed, content);
+      console.log(`❌ ${path} differs from ${specPath}`);
+      drift.added.forEach(name => console.log(`   + ${name} (in snapshot, missing from file)`));
+      drift.removed.forEach(name => console.log(`   - ${name} (in file, not in snapshot)`));
+      drift.changed.forEach(name => console.log(`   ~ ${name}`));
+      if (drift.added.length + drift.removed.length + drift.changed.length === 0) {
+        console.log('   (formatting or header changes only)');
+      }
+    }
+
+    if (drifted) {
+      console.log('\nRun `npm run gen:api` to regenerate, or update the snapshot if the backend changed.');
+      process.exit(1);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('💥 API type generation failed:', errorMessage);
+    process.exit(1);
+  }
+}
+
+runCLI();
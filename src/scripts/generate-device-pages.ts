@@ -15,8 +15,9 @@ import { ComponentValidator } from '../lib/validation/ComponentValidator';
 import { StateTypeGenerator } from '../lib/StateTypeGenerator';
 import { RouterIntegration } from '../lib/integration/RouterIntegration';
 import { DocumentationGenerator } from '../lib/DocumentationGenerator';
+import { API_SCHEMA_VERSION } from '../lib/apiClient.gen';
 
-import type { RemoteDeviceStructure } from '../types/RemoteControlLayout';
+import type { RemoteDeviceStructure, GenerationStamp } from '../types/RemoteControlLayout';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as process from 'process';
@@ -45,6 +46,8 @@ export class DevicePageGenerator {
   private stateGenerator: StateTypeGenerator;
   private routerIntegration: RouterIntegration;
   private docGenerator: DocumentationGenerator;
+  // Resolved once per run, so every page of a run carries the same stamp
+  private generationStamp: Promise<GenerationStamp> | null = null;
 
   constructor(
     apiBaseUrl: string, 
@@ -218,11 +221,17 @@ export class DevicePageGenerator {
         remoteZonesCount: structure.remoteZones.length
       });
       
-      const template = new RemoteControlTemplate();
-      const componentCode = template.generateComponent(structure);
-      
       // Determine output directory based on device class
       const isScenario = structure.deviceClass === 'ScenarioDevice';
+
+      const template = new RemoteControlTemplate();
+      const stamp: GenerationStamp = {
+        ...await this.getGenerationStamp(),
+        advertisedActions: Object.entries(validatedConfig.commands || {}).map(([name, command]: [string, any]) => command?.action || name),
+        ...(isScenario && { scenarioConfigVersion: await this.getScenarioConfigVersion(deviceId) }),
+      };
+      const componentCode = template.generateComponent(structure, stamp);
+      
       const actualOutputDir = isScenario ? this.scenariosOutputDir : this.outputDir;
       const pageType = isScenario ? 'scenario' : 'device';
       
@@ -266,6 +275,30 @@ export class DevicePageGenerator {
     }
   }
 
+  // Backend version and API schema the pages are generated against, embedded in each page
+  private getGenerationStamp(): Promise<GenerationStamp> {
+    this.generationStamp ??= this.client.fetchBackendVersion()
+      .catch(error => {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️  Could not read the backend version: ${errorMessage}`);
+        return null;
+      })
+      .then(backendVersion => ({
+        backendVersion,
+        schemaVersion: API_SCHEMA_VERSION,
+        generatedAt: new Date().toISOString(),
+      }));
+    return this.generationStamp;
+  }
+
+  private getScenarioConfigVersion(scenarioId: string): Promise<string | null> {
+    return this.client.fetchScenarioConfigVersion(scenarioId).catch(error => {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️  Could not read the config version of scenario ${scenarioId}: ${errorMessage}`);
+      return null;
+    });
+  }
+
   // Backward compatibility alias
   async testApiConnection(): Promise<boolean> {
     return this.testConnectivity();
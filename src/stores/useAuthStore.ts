@@ -0,0 +1,68 @@
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import type { QueryClient } from '@tanstack/react-query';
+
+const STORAGE_NAME = 'smart-home-auth';
+
+export interface AuthCredentials {
+  scheme: 'bearer' | 'basic';
+  // Bearer token, or base64 "username:password" for basic auth
+  value: string;
+  username?: string;
+}
+
+interface AuthState {
+  credentials: AuthCredentials | null;
+  // Why the user was sent back to the login screen, shown there
+  loginMessage: string | null;
+}
+
+interface AuthActions {
+  login: (credentials: AuthCredentials) => void;
+  logout: (message?: string) => void;
+}
+
+export const useAuthStore = create<AuthState & AuthActions>()(
+  persist(
+    immer((set) => ({
+      credentials: null,
+      loginMessage: null,
+
+      login: (credentials) => set((state) => {
+        state.credentials = credentials;
+        state.loginMessage = null;
+      }),
+
+      logout: (message) => set((state) => {
+        state.credentials = null;
+        state.loginMessage = message ?? null;
+      }),
+    })),
+    {
+      // Basic auth carries the password itself: keep it for this tab's session only
+      name: STORAGE_NAME,
+      storage: createJSONStorage(() => sessionStorage),
+      partialize: (state) => ({
+        credentials: state.credentials,
+      }),
+    }
+  )
+);
+
+// Earlier versions kept the credentials in localStorage
+if (typeof localStorage !== 'undefined') {
+  localStorage.removeItem(STORAGE_NAME);
+}
+
+/**
+ * Drop every cached query on logout, so the next user does not see the previous one's data.
+ * Returns a function that stops.
+ */
+export function clearQueriesOnLogout(queryClient: QueryClient): () => void {
+  return useAuthStore.subscribe((state, previous) => {
+    if (previous.credentials && !state.credentials) {
+      queryClient.clear();
+    }
+  });
+}
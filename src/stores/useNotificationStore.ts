@@ -0,0 +1,40 @@
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import { generateId } from '../lib/utils';
+
+export interface AppNotification {
+  id: string;
+  level: 'warn' | 'error';
+  title: string;
+  message: string;
+  timestamp: number;
+}
+
+interface NotificationState {
+  notifications: AppNotification[];
+}
+
+interface NotificationActions {
+  addNotification: (notification: Omit<AppNotification, 'id' | 'timestamp'>) => void;
+  dismissNotification: (id: string) => void;
+}
+
+// Shown at once; older ones make way for new ones
+const MAX_NOTIFICATIONS = 5;
+
+export const useNotificationStore = create<NotificationState & NotificationActions>()(
+  immer((set) => ({
+    notifications: [],
+
+    addNotification: (notification) => set((state) => {
+      state.notifications.push({ ...notification, id: generateId(), timestamp: Date.now() });
+      if (state.notifications.length > MAX_NOTIFICATIONS) {
+        state.notifications = state.notifications.slice(-MAX_NOTIFICATIONS);
+      }
+    }),
+
+    dismissNotification: (id) => set((state) => {
+      state.notifications = state.notifications.filter(n => n.id !== id);
+    }),
+  }))
+);
@@ -0,0 +1,196 @@
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import { del, delMany, getMany, keys, set as setRecord, update } from 'idb-keyval';
+import type { DeviceAction } from '../types/api';
+import { idbStore } from '../lib/idbStorage';
+import { generateId } from '../lib/utils';
+
+// The outbox is shared by all tabs. Each entry is a record of its own, so tabs queueing and
+// replaying at the same time do not write over each other's entries, and a tab that changed a
+// record tells the others to reload.
+const KEY_PREFIX = 'outbox:';
+const CHANNEL_NAME = 'wb-mqtt-ui-outbox';
+
+export interface OutboxEntry {
+  id: string;
+  deviceId: string;
+  action: DeviceAction;
+  // Why it is waiting: offline or unreachable when queued, or the backend refused it on replay
+  reason: 'offline' | 'failed' | 'rejected';
+  // Idempotent actions replay automatically; the rest wait for user confirmation
+  idempotent: boolean;
+  createdAt: number;
+  lastAttemptAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+interface OutboxState {
+  entries: OutboxEntry[];
+  isReplaying: boolean;
+  // Entries have been read from IndexedDB
+  isLoaded: boolean;
+}
+
+interface OutboxActions {
+  enqueue: (entry: Omit<OutboxEntry, 'id' | 'createdAt' | 'lastAttemptAt' | 'attempts'>) => OutboxEntry;
+  markAttempt: (id: string, error?: string) => void;
+  // The backend answered but did not carry the action out; it waits for the user from now on
+  markRejected: (id: string, error: string) => void;
+  remove: (id: string) => void;
+  clear: () => void;
+  setReplaying: (replaying: boolean) => void;
+  // Read the entries all tabs have queued
+  load: () => Promise<void>;
+}
+
+const entryKey = (id: string) => `${KEY_PREFIX}${id}`;
+const isEntryKey = (key: unknown) => String(key).startsWith(KEY_PREFIX);
+
+// Open while the app shares the outbox with other tabs (see shareOutboxWithOtherTabs)
+let channel: BroadcastChannel | null = null;
+
+// Record writes run in the order they were made; loading waits for them to see this tab's changes
+let writes: Promise<unknown> = Promise.resolve();
+// Bumped on every change made here, so a load that raced one is repeated
+let revision = 0;
+
+const persistChange = (write: () => Promise<unknown>) => {
+  revision += 1;
+  writes = writes
+    .then(write)
+    .then(() => channel?.postMessage('changed'))
+    .catch(error => console.warn('Could not store the action outbox:', error));
+};
+
+// A record another tab removed stays removed
+const updateEntry = (id: string, change: (entry: OutboxEntry) => OutboxEntry) =>
+  persistChange(() => update<OutboxEntry | undefined>(entryKey(id), stored => stored && change(stored), idbStore));
+
+const readEntries = async (): Promise<OutboxEntry[]> => {
+  const entryKeys = (await keys(idbStore)).filter(isEntryKey);
+  const records = await getMany<OutboxEntry | undefined>(entryKeys, idbStore);
+  return records
+    .filter((entry): entry is OutboxEntry => !!entry)
+    .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const useOutboxStore = create<OutboxState & OutboxActions>()(
+  immer((set) => ({
+    entries: [],
+    isReplaying: false,
+    isLoaded: false,
+
+    enqueue: (entry) => {
+      const now = Date.now();
+      const newEntry: OutboxEntry = {
+        ...entry,
+        id: generateId(),
+        createdAt: now,
+        lastAttemptAt: now,
+        attempts: 1,
+      };
+      set((state) => {
+        state.entries.push(newEntry);
+      });
+      persistChange(() => setRecord(entryKey(newEntry.id), newEntry, idbStore));
+      return newEntry;
+    },
+
+    markAttempt: (id, error) => {
+      const attempted = (entry: OutboxEntry) => {
+        entry.attempts += 1;
+        entry.lastAttemptAt = Date.now();
+        entry.lastError = error;
+        return entry;
+      };
+      set((state) => {
+        const entry = state.entries.find(e => e.id === id);
+        if (entry) {
+          attempted(entry);
+        }
+      });
+      updateEntry(id, stored => attempted({ ...stored }));
+    },
+
+    markRejected: (id, error) => {
+      const rejected = (entry: OutboxEntry) => {
+        entry.attempts += 1;
+        entry.lastAttemptAt = Date.now();
+        entry.lastError = error;
+        entry.reason = 'rejected';
+        return entry;
+      };
+      set((state) => {
+        const entry = state.entries.find(e => e.id === id);
+        if (entry) {
+          rejected(entry);
+        }
+      });
+      updateEntry(id, stored => rejected({ ...stored }));
+    },
+
+    remove: (id) => {
+      set((state) => {
+        state.entries = state.entries.filter(e => e.id !== id);
+      });
+      persistChange(() => del(entryKey(id), idbStore));
+    },
+
+    clear: () => {
+      set((state) => {
+        state.entries = [];
+      });
+      persistChange(async () => delMany((await keys(idbStore)).filter(isEntryKey), idbStore));
+    },
+
+    setReplaying: (replaying) => set((state) => {
+      state.isReplaying = replaying;
+    }),
+
+    load: async () => {
+      try {
+        let entries: OutboxEntry[];
+        let loadedRevision: number;
+        do {
+          loadedRevision = revision;
+          await writes;
+          entries = await readEntries();
+        } while (loadedRevision !== revision);
+        set((state) => {
+          state.entries = entries;
+          state.isLoaded = true;
+        });
+      } catch (error) {
+        // Go on with what this tab has queued
+        console.warn('Could not read the action outbox:', error);
+        set((state) => {
+          state.isLoaded = true;
+        });
+      }
+    },
+  }))
+);
+
+/**
+ * Reload the outbox whenever another tab queues, replays or discards something, and tell the
+ * other tabs about changes made here. Returns a function that stops.
+ */
+export function shareOutboxWithOtherTabs(): () => void {
+  if (typeof BroadcastChannel === 'undefined') {
+    return () => undefined;
+  }
+  const tabChannel = new BroadcastChannel(CHANNEL_NAME);
+  tabChannel.onmessage = () => {
+    if (useOutboxStore.getState().isLoaded) {
+      void useOutboxStore.getState().load();
+    }
+  };
+  channel = tabChannel;
+  return () => {
+    tabChannel.close();
+    if (channel === tabChannel) {
+      channel = null;
+    }
+  };
+}
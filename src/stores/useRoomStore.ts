@@ -5,6 +5,7 @@ interface Room {
   id: string;
   name: { en: string; ru: string };
   devices?: string[]; // Device IDs that belong to this room
+  backendId: string; // Backend the room was loaded from (the first one when several define it)
 }
 
 interface Device {
@@ -12,6 +13,7 @@ interface Device {
   name: { en: string; ru: string };
   roomId: string;
   type: string;
+  backendId: string; // Backend that owns the device; its actions are sent there
 }
 
 interface Scenario {
@@ -19,6 +21,7 @@ interface Scenario {
   name: { en: string; ru: string };
   description?: { en: string; ru: string };
   roomId?: string; // Room ID that this scenario belongs to
+  backendId: string; // Backend that runs the scenario
 }
 
 interface RoomState {
@@ -0,0 +1,37 @@
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+
+export interface ScenarioTimelineEntry {
+  message: string;
+  // Completion reported with the event, 0-100
+  progress?: number;
+  at: number;
+}
+
+interface ScenarioTimelineState {
+  // Per scenario id, oldest first
+  timelines: Record<string, ScenarioTimelineEntry[]>;
+}
+
+interface ScenarioTimelineActions {
+  addTimelineEntry: (scenarioId: string, entry: ScenarioTimelineEntry) => void;
+  clearTimeline: (scenarioId: string) => void;
+}
+
+const MAX_ENTRIES_PER_SCENARIO = 50;
+
+export const useScenarioTimelineStore = create<ScenarioTimelineState & ScenarioTimelineActions>()(
+  immer((set) => ({
+    timelines: {},
+
+    addTimelineEntry: (scenarioId, entry) => set((state) => {
+      const timeline = state.timelines[scenarioId] ?? [];
+      timeline.push(entry);
+      state.timelines[scenarioId] = timeline.slice(-MAX_ENTRIES_PER_SCENARIO);
+    }),
+
+    clearTimeline: (scenarioId) => set((state) => {
+      delete state.timelines[scenarioId];
+    }),
+  }))
+);
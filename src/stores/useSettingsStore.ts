@@ -1,17 +1,19 @@
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
 import { persist } from 'zustand/middleware';
+import { runtimeConfig } from '../config/runtime';
+import type { UiLanguage } from '../config/runtimeConfigSchema';
 
 interface SettingsState {
   theme: 'light' | 'dark' | 'system';
-  language: 'en' | 'ru';
+  language: UiLanguage;
   statePanelOpen: boolean;
   logPanelOpen: boolean;
 }
 
 interface SettingsActions {
   setTheme: (theme: 'light' | 'dark' | 'system') => void;
-  setLanguage: (language: 'en' | 'ru') => void;
+  setLanguage: (language: UiLanguage) => void;
   toggleStatePanel: () => void;
   toggleLogPanel: () => void;
   setStatePanelOpen: (open: boolean) => void;
@@ -22,7 +24,7 @@ export const useSettingsStore = create<SettingsState & SettingsActions>()(
   persist(
     immer((set) => ({
       theme: 'system',
-      language: 'en',
+      language: runtimeConfig.defaultLanguage,
       statePanelOpen: false,
       logPanelOpen: false,
 
@@ -0,0 +1,4 @@
+import type { buildEnv as viteBuildEnv } from '../config/buildEnv';
+
+// Tests run outside Vite: no VITE_* variables are set, so the build defaults apply
+export const buildEnv = { MODE: 'test', BASE_URL: '/', DEV: false, PROD: false, SSR: false } as typeof viteBuildEnv;
@@ -6,7 +6,14 @@ export interface DeviceConfig {
   commands: Record<string, DeviceCommand>;
 }
 
-export interface DeviceCommand {
+// Command fields the UI reads on top of the backend schema (config/openapi.json, which is kept
+// as the backend serves it). Installations set them in their device configs.
+export interface CommandConfigExtensions {
+  // Overrides the class action timeout, see resolveActionTimeout
+  timeout_ms?: number | null;
+}
+
+export interface DeviceCommand extends CommandConfigExtensions {
   action: string;
   location: string;
   rom_position?: string;
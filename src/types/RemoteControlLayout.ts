@@ -128,6 +128,20 @@ export interface RemoteDeviceStructure {
   specialCases?: DeviceSpecialCase[];
 }
 
+// What a generated page was generated against; compared with the live backend at runtime
+export interface GenerationStamp {
+  // Backend build version /system reported during generation; null when generated from local
+  // config files or the backend was not reachable
+  backendVersion: string | null;
+  // API version (info.version of the OpenAPI snapshot, API_SCHEMA_VERSION) of the generator
+  schemaVersion: string;
+  generatedAt: string;
+  // Commands the device config advertised; those the backend drops later are disabled
+  advertisedActions?: string[];
+  // Scenario pages: version of the scenario's virtual config, null when it was not available
+  scenarioConfigVersion?: string | null;
+}
+
 export interface DeviceSpecialCase {
   deviceClass: string;
   caseType: 'emotiva-xmc2-power' | 'wirenboard-ir-commands' | 'lg-tv-inputs-apps' | 'appletv-streaming' | 'kitchen-hood-controls' | 'auralic-streaming' | 'revox-tape-deck';
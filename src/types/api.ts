@@ -1,17 +1,13 @@
-// API Types - Extracted from OpenAPI generated models
-// Clean TypeScript interfaces for our backend API
+// Auto-generated from config/openapi.json by src/scripts/generate-api-types.ts - DO NOT EDIT
+// Update the snapshot and run `npm run gen:api`; `npm run check:api` reports drift
 
-import { BaseDeviceState } from './BaseDeviceState';
+import type { BaseDeviceState } from './BaseDeviceState';
 
-// Device Related Types
 export interface DeviceAction {
   action: string;
   params?: { [key: string]: any } | null;
 }
 
-// Moved LastCommand and BaseDeviceState to src/types/BaseDeviceState.ts
-// Import them from there if needed: import { LastCommand, BaseDeviceState } from './BaseDeviceState';
-
 export interface DeviceState {
   power?: boolean | null;
   input?: string | null;
@@ -29,7 +25,6 @@ export interface CommandResponse {
   data?: any | null;
 }
 
-// Room Related Types
 export interface RoomDefinitionResponse {
   room_id: string;
   names: { [key: string]: string };
@@ -38,7 +33,6 @@ export interface RoomDefinitionResponse {
   default_scenario?: string | null;
 }
 
-// Scenario Related Types
 export interface CommandStep {
   device: string;
   command: string;
@@ -79,20 +73,28 @@ export interface SwitchScenarioRequest {
   graceful?: boolean;
 }
 
+export interface StartScenarioRequest {
+  id: string;
+}
+
+export interface ShutdownScenarioRequest {
+  id: string;
+  graceful?: boolean;
+}
+
 export interface ActionRequest {
   role: string;
   command: string;
   params?: { [key: string]: any };
 }
 
-// Phase 2: Scenario Virtual Device Configuration Types
 export interface ScenarioWBConfig {
   device_id: string;
   device_name: string;
   device_class: string;
   scenario_id: string;
-  commands: WBCommandDefinition[];
-  controls: WBControlDefinition[];
+  commands: Array<WBCommandDefinition>;
+  controls: Array<WBControlDefinition>;
   meta?: { [key: string]: any } | null;
 }
 
@@ -111,7 +113,7 @@ export interface WBCommandMeta {
   min?: number | null;
   step?: number | null;
   units?: string | null;
-  enum?: string[] | null;
+  enum?: Array<string> | null;
   readonly?: boolean;
 }
 
@@ -132,10 +134,9 @@ export interface ScenarioVirtualConfigResponse {
 }
 
 export interface ScenarioVirtualConfigsResponse {
-  [scenario_id: string]: ScenarioVirtualConfigResponse;
+  [key: string]: ScenarioVirtualConfigResponse;
 }
 
-// Group Related Types
 export interface Group {
   id: string;
   name: string;
@@ -163,7 +164,6 @@ export interface GroupedActionsResponse {
   default_included?: boolean;
 }
 
-// MQTT Related Types
 export interface MQTTMessage {
   topic: string;
   payload?: any | null;
@@ -187,7 +187,6 @@ export interface MQTTBrokerConfig {
   keepalive?: number;
 }
 
-// System Related Types
 export interface ServiceInfo {
   service: string;
   version: string;
@@ -224,18 +223,13 @@ export interface ReloadResponse {
   timestamp?: string;
 }
 
-// Error Related Types
 export interface ErrorResponse {
   detail: string;
   error_code?: string | null;
 }
 
-export interface ValidationErrorLocInner {
-  // Can be string or number for array indices
-}
-
 export interface ValidationError {
-  loc: Array<ValidationErrorLocInner>;
+  loc: Array<string | number>;
   msg: string;
   type: string;
 }
@@ -244,9 +238,8 @@ export interface HTTPValidationError {
   detail?: Array<ValidationError>;
 }
 
-// New schema types from API specification
 export interface PersistedStatesResponse {
-  [deviceId: string]: { [key: string]: any };
+  [key: string]: { [key: string]: any };
 }
 
 export interface BaseDeviceConfig {
@@ -263,7 +256,7 @@ export interface BaseCommandConfig {
   topic?: string | null;
   description?: string | null;
   group?: string | null;
-  params?: CommandParameterDefinition[] | null;
+  params?: Array<CommandParameterDefinition> | null;
 }
 
 export interface CommandParameterDefinition {
@@ -274,4 +267,4 @@ export interface CommandParameterDefinition {
   min?: number | null;
   max?: number | null;
   description?: string | null;
-} 
\ No newline at end of file
+}
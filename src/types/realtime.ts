@@ -0,0 +1,108 @@
+// Realtime (SSE) event payloads and channel types
+
+import type { LastCommand } from './BaseDeviceState';
+
+export type RealtimeChannel = 'devices' | 'scenarios' | 'system';
+
+// Event payloads per channel, told apart by eventType (embedded in the data payload by the backend).
+// Validated on receipt against src/lib/realtime/eventSchema.ts; adding a member here requires a
+// validator there, and the handlers' exhaustive switches flag the new type.
+
+// Device state carried by state_change events
+export interface DeviceEventState {
+  device_id: string;
+  device_name: string;
+  power?: boolean | string;
+  volume?: number;
+  mute?: boolean;
+  current_app?: string | null;
+  input_source?: string | null;
+  connected?: boolean;
+  ip_address?: string;
+  mac_address?: string;
+  last_command?: LastCommand | null;
+  error?: any;
+  [key: string]: any;
+}
+
+interface DeviceEventBase {
+  device_id: string;
+  device_name: string;
+  message?: string;
+  timestamp?: string;
+}
+
+export interface DeviceActionEvent extends DeviceEventBase {
+  eventType: 'action_success' | 'action_error' | 'action_progress';
+}
+
+export interface DeviceStateChangeEvent extends DeviceEventBase {
+  eventType: 'state_change';
+  state: DeviceEventState;
+}
+
+// Test events nest the device fields under data
+export interface DeviceTestEvent {
+  eventType: 'test';
+  timestamp?: string;
+  data: {
+    device_id: string;
+    device_name: string;
+    message: string;
+  };
+}
+
+export type DeviceEventData = DeviceActionEvent | DeviceStateChangeEvent | DeviceTestEvent;
+
+export interface ScenarioTestEvent {
+  eventType: 'test';
+  scenario_id: string;
+  scenario_name?: string;
+  message: string;
+  timestamp?: string;
+  progress?: number;
+}
+
+export type ScenarioEventData = ScenarioTestEvent;
+
+export interface SystemTestEvent {
+  eventType: 'test';
+  message: string;
+  timestamp?: string;
+  level?: 'info' | 'warn' | 'error';
+}
+
+export type SystemEventData = SystemTestEvent;
+
+export interface RealtimeEventMap {
+  devices: DeviceEventData;
+  scenarios: ScenarioEventData;
+  system: SystemEventData;
+}
+
+export type RealtimeEventHandler<C extends RealtimeChannel> = (event: RealtimeEventMap[C]) => void;
+
+export interface ChannelStatus {
+  connected: boolean;
+  error: string | null;
+  reconnectAttempts: number;
+  retriesExhausted: boolean;
+  lastEventId: string | null;
+  lastEventAt: number | null;
+  // Events dropped because they did not match the event schema, and why the last one did not
+  invalidEvents: number;
+  lastInvalidReason: string | null;
+}
+
+export type RealtimeStatus = Record<RealtimeChannel, ChannelStatus>;
+
+// Connection lifecycle of a channel, kept by RealtimeClient for the diagnostics page
+export type ChannelHistoryEventType = 'connecting' | 'connected' | 'error' | 'retries_exhausted' | 'unauthorized' | 'closed';
+
+export interface ChannelHistoryEntry {
+  channel: RealtimeChannel;
+  type: ChannelHistoryEventType;
+  at: number;
+  // Reconnect attempt the event belongs to (0 for the first connect)
+  reconnectAttempt: number;
+}